@@ -1,13 +1,19 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { 
-  Bet, BetPlacement, ProgressionConfig, ProgressionAction, 
+  Bet, BetPlacement, BetProgression, LaneRule, ProgressionConfig, ProgressionAction, 
   SimulationSettings, SimulationStep, SimulationSpeed, SimulationStatus, 
-  BatchStats, TriggerBet, SavedLayout, Lane, SavedStrategy, RuntimeLane, EvaluatedBet, SpinResult, LaneLogDetail, BatchSession
+  BatchStats, TriggerBet, SavedLayout, Lane, SavedStrategy, BatchSession, WheelType, ZeroRule,
+  RunSummary, StopLossMode, BatchRetention, BatchMeta, BatchRunDetails
 } from './core/types';
-import { spinWheel, parseSequence, getSpinResult } from './core/game';
-import { prepareLaneForSpin, updateLaneAfterSpin, resolveSpin } from './core/simulation';
+import { WHEEL_LABELS, ZERO_RULE_LABELS, RETENTION_LABELS, DEFAULT_SIMULATION_SETTINGS, createDefaultConfig } from './core/constants';
+import { normalizeSeed } from './core/rng';
+import { validateSimulation, resolveBatchSeed, getBatchRunCount, simulateBatch, BatchEvent, BatchResult } from './core/runner';
 import { analyzeSimulationResults, analyzeBatchResults } from './services/geminiService';
+import { runBatchInWorkers, canUseWorkers } from './services/batchPool';
+import { createRemoteBatch, RemoteBatch } from './services/remoteBatch';
+import { usesScripts, canShareMemory } from './services/scriptSandbox';
+import { loadStoredData, saveStrategies, saveLayouts, saveBatch, updateBatchMeta, loadBatchRuns, deleteBatches, clearBatches, getStorageUsage, isQuotaError, toBatchMeta, StorageUsage } from './services/storage';
 import { getPlacementIdentifier } from './utils/placements';
 import RouletteTable from './components/RouletteBoard';
 import { StrategyPanel } from './components/StrategyPanel';
@@ -15,30 +21,11 @@ import ChipSelector from './components/ChipSelector';
 import StatsChart from './components/StatsChart';
 import SpinLog from './components/SpinLog';
 import SimulationHistory from './components/SimulationHistory';
+import StorageFullModal from './components/StorageFullModal';
 import { RotateCcw, Trash2, Undo2, Save, Download, Plus, X, Settings, ArrowDownToLine, Eraser, Edit3, Link2, FlaskConical, History, ChevronLeft, ChevronRight } from 'lucide-react';
 
-// Default Config Helper
-const createDefaultConfig = (): ProgressionConfig => ({
-    strategyMode: 'STATIC',
-    baseUnit: 5,
-    onWinAction: ProgressionAction.RESET,
-    onWinValue: 0,
-    onLossAction: ProgressionAction.MULTIPLY,
-    onLossValue: 2,
-    resetOnSessionProfit: 150,
-    useResetOnSessionProfit: false,
-    sequence: "red, black",
-    onWinUnits: -1,
-    onLossUnits: 1,
-    minUnits: 1,
-    rotateOnWin: true,
-    rotateOnLoss: true,
-    // Chain Defaults
-    chainSteps: [],
-    chainOnWin: ProgressionAction.RESTART_CHAIN,
-    chainOnLoss: ProgressionAction.NEXT_CHAIN_STEP,
-    chainLoop: true
-});
+// Batches whose run details are held in memory at once (the rest stay in IndexedDB)
+const MAX_CACHED_BATCH_RUNS = 3;
 
 // Vibrant colors for lanes
 const LANE_COLORS = [
@@ -91,17 +78,7 @@ const BinaryBackground = () => (
 
 const App: React.FC = () => {
   // --- Global Settings ---
-  const [settings, setSettings] = useState<SimulationSettings>({
-    startingBankroll: 1000,
-    tableMin: 1,
-    tableMax: 1000,
-    spinsPerSimulation: 100,
-    numberOfSimulations: 1,
-    stopLoss: 0, // Unused
-    totalProfitGoal: 500,
-    useTotalProfitGoal: false,
-    fixedOutcomeSequence: ''
-  });
+  const [settings, setSettings] = useState<SimulationSettings>({ ...DEFAULT_SIMULATION_SETTINGS });
 
   const [bankroll, setBankroll] = useState(1000);
   
@@ -125,58 +102,90 @@ const App: React.FC = () => {
 
   // --- Strategy Management State ---
   const [currentStrategyName, setCurrentStrategyName] = useState("My Strategy");
-  const [savedStrategies, setSavedStrategies] = useState<SavedStrategy[]>(() => {
-    try {
-      const saved = localStorage.getItem('roulette_strategies');
-      return saved ? JSON.parse(saved) : [];
-    } catch { return []; }
-  });
-
-  useEffect(() => {
-    localStorage.setItem('roulette_strategies', JSON.stringify(savedStrategies));
-  }, [savedStrategies]);
+  const [savedStrategies, setSavedStrategies] = useState<SavedStrategy[]>([]);
 
   // --- Undo/History ---
   const [undoStack, setUndoStack] = useState<Lane[][]>([]);
 
   // --- Layouts (Just Bets) ---
-  const [savedLayouts, setSavedLayouts] = useState<SavedLayout[]>(() => {
-    try {
-      const saved = localStorage.getItem('roulette_layouts');
-      return saved ? JSON.parse(saved) : [];
-    } catch { return []; }
-  });
-
-  useEffect(() => { localStorage.setItem('roulette_layouts', JSON.stringify(savedLayouts)); }, [savedLayouts]);
+  const [savedLayouts, setSavedLayouts] = useState<SavedLayout[]>([]);
   
   // --- Sim State ---
-  const [batches, setBatches] = useState<BatchSession[]>(() => {
-      try {
-        const saved = localStorage.getItem('roulette_batches');
-        return saved ? JSON.parse(saved) : [];
-      } catch { return []; }
-  });
-
-  // Persist Batches
-  useEffect(() => {
-      try {
-        localStorage.setItem('roulette_batches', JSON.stringify(batches));
-      } catch (e) { console.error("Failed to save batches", e); }
-  }, [batches]);
-
+  // Batch headers only; run details live in IndexedDB and are loaded into batchRunsCache on demand
+  const [batches, setBatches] = useState<BatchMeta[]>([]);
+  const [batchRunsCache, setBatchRunsCache] = useState<Record<string, BatchRunDetails>>({});
   const [activeBatchId, setActiveBatchId] = useState<string | null>(null);
   const [isHistoryModalOpen, setIsHistoryModalOpen] = useState(false);
-  
-  // Auto-select last batch on load if none selected
-  useEffect(() => {
-      if (!activeBatchId && batches.length > 0) {
-          setActiveBatchId(batches[batches.length - 1].id);
+
+  // --- Persistence (IndexedDB) ---
+  const [storageReady, setStorageReady] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [isStorageFull, setIsStorageFull] = useState(false);
+  const [unsavedBatch, setUnsavedBatch] = useState<BatchSession | null>(null);
+
+  const refreshStorageUsage = () => {
+      getStorageUsage().then(u => { if (isMountedRef.current) setStorageUsage(u); }).catch(() => {});
+  };
+
+  // Never drop data silently: quota errors open the prune prompt, anything else is logged
+  const handleStorageError = (e: any, batch?: BatchSession) => {
+      if (isQuotaError(e)) {
+          if (batch) setUnsavedBatch(batch);
+          setIsStorageFull(true);
+          refreshStorageUsage();
+      } else {
+          console.error("Storage error", e);
       }
+  };
+
+  // Load everything except run details, then auto-select the latest batch
+  useEffect(() => {
+      loadStoredData()
+        .then(data => {
+            if (!isMountedRef.current) return;
+            setSavedStrategies(data.strategies);
+            setSavedLayouts(data.layouts);
+            setBatches(data.batches);
+            if (data.batches.length > 0) setActiveBatchId(data.batches[data.batches.length - 1].id);
+            setStorageReady(true);
+            refreshStorageUsage();
+        })
+        .catch(e => console.error("Storage unavailable, changes will not be saved", e));
   }, []);
 
+  useEffect(() => {
+      if (!storageReady) return;
+      saveStrategies(savedStrategies).then(refreshStorageUsage).catch(e => handleStorageError(e));
+  }, [savedStrategies, storageReady]);
+
+  useEffect(() => {
+      if (!storageReady) return;
+      saveLayouts(savedLayouts).then(refreshStorageUsage).catch(e => handleStorageError(e));
+  }, [savedLayouts, storageReady]);
+
+  // Only the most recently opened batches keep their runs in memory
+  const cacheBatchRuns = (details: BatchRunDetails) => {
+      setBatchRunsCache((prev: Record<string, BatchRunDetails>) => {
+          const kept = Object.values(prev).filter(d => d.batchId !== details.batchId).slice(-(MAX_CACHED_BATCH_RUNS - 1));
+          return Object.fromEntries([...kept, details].map(d => [d.batchId, d]));
+      });
+  };
+
+  // Lazy-load run details for the selected batch
+  useEffect(() => {
+      if (!activeBatchId || !storageReady || batchRunsCache[activeBatchId]) return;
+      const batchId = activeBatchId;
+      loadBatchRuns(batchId)
+        .then(details => {
+            if (isMountedRef.current) cacheBatchRuns(details || { batchId, runs: [] });
+        })
+        .catch(e => console.error("Failed to load batch runs", e));
+  }, [activeBatchId, storageReady]);
+
   // Derived state for current view with MEMOIZATION to fix Error #185
   const activeBatch = useMemo(() => batches.find(b => b.id === activeBatchId), [batches, activeBatchId]);
-  const currentBatchHistories = useMemo(() => activeBatch?.runs || [], [activeBatch]);
+  const activeBatchRuns = activeBatchId ? batchRunsCache[activeBatchId] || null : null;
+  const currentBatchHistories = useMemo(() => activeBatchRuns?.runs || [], [activeBatchRuns]);
   const currentBatchStats = activeBatch?.stats || null;
 
   const [currentSimIndex, setCurrentSimIndex] = useState(0);
@@ -215,6 +224,7 @@ const App: React.FC = () => {
   const [aiAnalysis, setAiAnalysis] = useState<string>('');
   const [isGraphFullScreen, setIsGraphFullScreen] = useState(false);
   const [isTestPanelOpen, setIsTestPanelOpen] = useState(false);
+  const [batchProgress, setBatchProgress] = useState<{ completed: number; total: number } | null>(null);
 
   useEffect(() => { simStatusRef.current = simStatus; }, [simStatus]);
   useEffect(() => { speedRef.current = speed; }, [speed]);
@@ -324,8 +334,7 @@ const App: React.FC = () => {
       setCurrentStrategyName(strategy.name);
       
       // Clear current session
-      setBatches([]);
-      setActiveBatchId(null);
+      resetBatches();
       setDisplayHistory([]);
       setBankroll(strategy.settings.startingBankroll || 1000);
   };
@@ -360,8 +369,7 @@ const App: React.FC = () => {
       }]);
       setActiveLaneId(newId); 
       setCurrentStrategyName("New Strategy");
-      setBatches([]);
-      setActiveBatchId(null);
+      resetBatches();
       setDisplayHistory([]);
       setCurrentSimIndex(0);
       setBankroll(settings.startingBankroll);
@@ -410,6 +418,14 @@ const App: React.FC = () => {
       updateActiveLane(l => ({ ...l, config: newConfig }));
   };
 
+  const handleUpdateBetProgression = (betId: string, progression?: BetProgression) => {
+      updateActiveLane(l => ({ ...l, bets: l.bets.map(b => b.id === betId ? { ...b, progression } : b) }));
+  };
+
+  const handleUpdateLaneRules = (rules: LaneRule[], startsPaused: boolean) => {
+      updateActiveLane(l => ({ ...l, rules, startsPaused }));
+  };
+
   const handleUpdateTriggerBets = (newTriggers: TriggerBet[]) => {
       if (typeof newTriggers === 'function') {
           updateActiveLane(l => ({ ...l, triggerBets: (newTriggers as Function)(l.triggerBets) }));
@@ -572,7 +588,7 @@ const App: React.FC = () => {
   };
 
   // --- SIMULATION ENGINE ---
-  const waitForSignal = async (signal: AbortSignal) => {
+  const waitWhilePaused = async (signal: AbortSignal) => {
     if (signal.aborted) throw new Error('Aborted');
     while (simStatusRef.current === 'PAUSED') {
         if (signal.aborted) throw new Error('Aborted');
@@ -580,6 +596,10 @@ const App: React.FC = () => {
         pauseResolverRef.current = null;
     }
     if (signal.aborted) throw new Error('Aborted');
+  };
+
+  const waitForSignal = async (signal: AbortSignal) => {
+    await waitWhilePaused(signal);
     
     if (speedRef.current === 'SLOW') {
         await new Promise<void>(r => { nextSpinResolverRef.current = r; });
@@ -589,7 +609,18 @@ const App: React.FC = () => {
     }
   };
 
-  const finishBatch = (collectedHistories: SimulationStep[][], finalStats: BatchStats, runId: number) => {
+  const persistBatch = (batch: BatchSession) => {
+      if (!storageReady) return;
+      saveBatch(batch)
+        .then(() => {
+            if (!isMountedRef.current) return;
+            setUnsavedBatch(prev => prev && prev.id === batch.id ? null : prev);
+            refreshStorageUsage();
+        })
+        .catch(e => handleStorageError(e, batch));
+  };
+
+  const finishBatch = (collectedHistories: SimulationStep[][], runSummaries: RunSummary[], finalStats: BatchStats, runId: number, runSettings: SimulationSettings, seed: number, runLanes: Lane[]) => {
       if (!isMountedRef.current) return;
       
       const newBatch: BatchSession = {
@@ -597,18 +628,26 @@ const App: React.FC = () => {
           label: `Batch ${batches.length + 1}`,
           timestamp: Date.now(),
           runs: collectedHistories,
+          retention: runSettings.retentionMode,
+          runSummaries,
           stats: finalStats,
-          settings: { ...settings }
+          settings: { ...runSettings },
+          seed,
+          lanes: runLanes
       };
 
-      setBatches(prev => [...prev, newBatch]);
+      setBatches(prev => [...prev, toBatchMeta(newBatch)]);
+      cacheBatchRuns({ batchId: newBatch.id, runs: newBatch.runs, runSummaries: newBatch.runSummaries });
       setActiveBatchId(newBatch.id);
+      persistBatch(newBatch);
+      // Surface the drawn seed so the user can pin it and reproduce this batch
+      if (!runSettings.useFixedSeed) setSettings(prev => prev.useFixedSeed ? prev : { ...prev, seed });
       setCurrentSimIndex(0);
       setSimStatus('IDLE');
       
       // Auto-load analysis
-      const analysisPromise = (newBatch.runs.length === 1 && newBatch.runs[0].length > 0)
-        ? analyzeSimulationResults(settings.startingBankroll, newBatch.runs[0][newBatch.runs[0].length-1].bankroll, newBatch.runs[0].length, newBatch.runs[0])
+      const analysisPromise = (finalStats.totalSimulations === 1 && newBatch.runs.length === 1 && newBatch.runs[0].length > 0)
+        ? analyzeSimulationResults(runSettings.startingBankroll, newBatch.runs[0][newBatch.runs[0].length-1].bankroll, newBatch.runs[0].length, newBatch.runs[0])
         : analyzeBatchResults(finalStats);
 
       analysisPromise.then(analysis => {
@@ -616,281 +655,155 @@ const App: React.FC = () => {
       });
   };
 
-  const runInteractiveSimulation = async (signal: AbortSignal) => {
-    // 1. Prepare Fixed Sequence if enabled
-    const sequenceStr = settings.fixedOutcomeSequence || "";
-    // Robust splitting by comma OR whitespace/newlines
-    const fixedOutcomes = sequenceStr
-        .split(/[\s,]+/) 
-        .map(s => s.trim())
-        .filter(s => s.length > 0);
-    const isTestMode = fixedOutcomes.length > 0;
-
-    // In Test Mode, we run exactly 1 simulation, and the number of spins equals the sequence length
-    const numSims = isTestMode ? 1 : settings.numberOfSimulations;
-    const spinsPerSim = isTestMode ? fixedOutcomes.length : settings.spinsPerSimulation;
-    
-    const enabledLanes = lanes.filter(l => l.enabled);
-    if (enabledLanes.length === 0) {
-        alert("Enable at least one lane!");
+  const runParallelSimulation = async (signal: AbortSignal, runLanes: Lane[], runSettings: SimulationSettings, runId: number, batchSeed: number) => {
+    const PROGRESS_INTERVAL_MS = 100;
+    let lastUiUpdateTime = 0;
+
+    if (isMountedRef.current) {
+        setDisplayHistory([]);
+        setBankroll(runSettings.startingBankroll);
+        setBatchProgress({ completed: 0, total: getBatchRunCount(runSettings) });
+    }
+
+    try {
+        const { runs, runSummaries, stats } = await runBatchInWorkers(runLanes, runSettings, batchSeed, {
+            signal,
+            waitForTurn: () => waitWhilePaused(signal),
+            // Stream progress and the latest finished session into the chart, throttled
+            onRunComplete: (_runIndex, summary, history, completed, total) => {
+                const n = Date.now();
+                if (!isMountedRef.current || (n - lastUiUpdateTime < PROGRESS_INTERVAL_MS && completed < total)) return;
+                lastUiUpdateTime = n;
+                setBatchProgress({ completed, total });
+                // Summary-only runs come back without steps; keep showing the last detailed one
+                if (history.length > 0) setDisplayHistory(history);
+                setBankroll(summary.finalBankroll);
+            }
+        });
+
+        finishBatch(runs, runSummaries, stats, runId, runSettings, batchSeed, runLanes);
+
+    } catch(e: any) {
+        if (e.message !== 'Aborted') {
+            console.error(e);
+            alert("Simulation error: " + e.message);
+        }
+        if (isMountedRef.current) setSimStatus('IDLE');
+    } finally {
+        if (isMountedRef.current) setBatchProgress(null);
+    }
+  };
+
+  const runInteractiveSimulation = async (signal: AbortSignal, runLanes: Lane[], runSettings: SimulationSettings) => {
+    // 1. Validate the setup against the selected wheel before anything runs
+    const validationError = validateSimulation(runLanes, runSettings);
+    if (validationError) {
+        alert(validationError);
         setSimStatus('IDLE');
         return;
     }
 
-    const allLanesMissingBets = enabledLanes.every(l => {
-        if (l.config.strategyMode === 'CHAIN') return (l.config.chainSteps || []).length === 0;
-        if (l.config.strategyMode === 'STATIC') return l.bets.length === 0 && l.triggerBets.length === 0;
-        return false;
-    });
-
-    if (allLanesMissingBets) {
-        alert("All enabled lanes are empty! Please configure at least one lane with bets or a chain sequence.");
+    // Scripts only run in sandboxed workers, never on the page
+    const scripted = usesScripts(runLanes);
+    if (scripted && !(canUseWorkers() && canShareMemory())) {
+        alert('Script lanes need Web Workers and shared memory (a cross-origin isolated page), which are not available here.');
         setSimStatus('IDLE');
         return;
     }
-    
-    // Immutable Precalculation of sequences (read-only)
-    const lanePrecalc = enabledLanes.map(l => ({
-        laneId: l.id,
-        parsedSequence: l.config.strategyMode === 'ROTATING' ? parseSequence(l.config.sequence) : []
-    }));
-    
+
     const runId = Date.now();
     analysisIdRef.current = runId;
 
-    let allFinalBankrolls: number[] = [];
-    let collectedHistories: SimulationStep[][] = [];
-    let wins = 0, losses = 0, totalSpinsToFinish = 0;
-    
+    // Every run draws from its own stream derived from the batch seed, so the batch can be replayed exactly.
+    const batchSeed = resolveBatchSeed(runSettings);
+    const numSims = getBatchRunCount(runSettings);
+
+    // FAST multi-session batches go to the worker pool; paced playback is driven from the main thread
+    if (numSims > 1 && speedRef.current === 'FAST' && canUseWorkers()) {
+        await runParallelSimulation(signal, runLanes, runSettings, runId, batchSeed);
+        return;
+    }
+
+    let historyBuffer: SimulationStep[] = [];
     let lastUiUpdateTime = 0;
+    let currentRunIndex = -1;
+    let spinCount = 0;
     const UI_UPDATE_INTERVAL_MS = 16; // ~60fps target for live feeling
 
+    // 2. The core runner owns the session loop; this UI only paces it and renders its steps.
+    // Each step is computed before we wait, so pacing never adds an extra pause after the last spin.
+    // Lanes with scripts play in a worker, one step per request.
+    let remote: RemoteBatch | null = null;
     try {
-        for (let s = 0; s < numSims; s++) {
-            if (signal.aborted) break;
-            
-            if (isMountedRef.current) {
-                // Clear display history for fresh visual start of this run
-                setDisplayHistory([]);
-                setBankroll(settings.startingBankroll);
-            }
-            
-            let currentBankroll = settings.startingBankroll;
-            let simSpins = 0;
-            let simHistory: SimulationStep[] = [];
-            let historyBuffer: SimulationStep[] = [];
-
-            // Initialize Balances (Immutable Map)
-            const laneRunningBalances: Record<string, number> = {};
-            const startPerLane = settings.startingBankroll; 
-            enabledLanes.forEach(l => {
-                laneRunningBalances[l.id] = startPerLane;
-            });
-
-            // Initialize Runtime State (Immutable Array)
-            // We use 'let' because we will replace this array entirely on every spin to ensure strict immutability.
-            let currentRuntimeLanes: RuntimeLane[] = enabledLanes.map(l => ({
-                ...l,
-                multiplier: 1,
-                progressionIndex: 0,
-                rotatingIndex: 0,
-                rotatingUnits: 1,
-                sessionProfit: 0,
-                chainIndex: 0
-            }));
-
-            for (let i = 0; i < spinsPerSim; i++) {
-                await waitForSignal(signal);
-                
-                // --- STRICT STOP CHECKS ---
-                if (!isTestMode) {
-                    if (currentBankroll <= 0) break;
-                    if (settings.useTotalProfitGoal && currentBankroll >= settings.startingBankroll + settings.totalProfitGoal) break;
-                }
-
-                if (speedRef.current === 'FAST' && i % 20 === 0) {
-                    await new Promise(resolve => setTimeout(resolve, 0));
+        if (scripted) remote = createRemoteBatch(runLanes, runSettings, batchSeed);
+        const batch = remote || simulateBatch(runLanes, runSettings, batchSeed);
+        let event = await batch.next();
+
+        while (!event.done) {
+            const batchEvent = event.value as BatchEvent;
+
+            if (batchEvent.type === 'STEP') {
+                if (batchEvent.runIndex !== currentRunIndex) {
+                    currentRunIndex = batchEvent.runIndex;
+                    spinCount = 0;
+                    if (isMountedRef.current) {
+                        // Clear display history for fresh visual start of this run
+                        setDisplayHistory([]);
+                        setBankroll(runSettings.startingBankroll);
+                    }
                 }
 
-                simSpins++;
-
-                // Capture Start Balance BEFORE spin
-                const startBalanceForStep = currentBankroll;
-
-                // --- PHASE 1: PREPARE & WAGER ---
-                // We map current lanes to prepared data, keeping everything immutable.
-                const preparedStepData = currentRuntimeLanes.map(lane => {
-                   return prepareLaneForSpin(
-                        lane, 
-                        settings, 
-                        simHistory, 
-                        lanePrecalc.find(p => p.laneId === lane.id)?.parsedSequence || []
-                   );
-                });
+                await waitForSignal(signal);
 
-                // Calculate total wager from all lanes
-                const totalSpinWager = preparedStepData.reduce((sum, d) => sum + d.wager, 0);
-                
-                // Aggregate debug info
-                const activeTriggersForStep = preparedStepData.flatMap(d => d.activeTriggers);
-                const stepBetDescriptions = preparedStepData
-                    .filter(d => d.bets.length > 0)
-                    .map(d => `${d.updatedLaneState.name}: ${d.bets.map(b => `${b.placement.displayName} ($${b.amount})`).join(', ')}`);
-
-                // --- STRICT BANKROLL GUARDRAIL ---
-                if (!isTestMode && totalSpinWager > currentBankroll) {
-                     console.warn(`Bet ($${totalSpinWager}) exceeds bankroll ($${currentBankroll}). Stopping simulation.`);
-                     
-                     simHistory.push({
-                        spinIndex: i + 1,
-                        result: { value: 0, display: 'X', color: 'green' },
-                        startingBankroll: currentBankroll,
-                        betAmount: 0, 
-                        outcome: 0,
-                        bankroll: currentBankroll,
-                        laneBankrolls: { ...laneRunningBalances },
-                        activeTriggers: ['SIM STOPPED: Insufficient Funds'],
-                        betDescriptions: ['Bankruptcy Protection: Bet exceeded balance'],
-                        laneDetails: []
-                     });
-                     
-                     if (isMountedRef.current) {
-                         setDisplayHistory(prev => [...prev, ...historyBuffer, simHistory[simHistory.length - 1]]);
-                         setBankroll(currentBankroll);
-                     }
-                     break; 
+                if (speedRef.current === 'FAST' && spinCount % 20 === 0) {
+                    await new Promise(resolve => setTimeout(resolve, 0));
                 }
+                spinCount++;
 
-                // --- SPIN ---
-                let result: SpinResult;
-                if (isTestMode) {
-                    if (i >= fixedOutcomes.length) break;
-                    result = getSpinResult(fixedOutcomes[i]);
-                } else {
-                    result = spinWheel();
-                }
-                
-                // --- PHASE 2: RESOLVE & UPDATE ---
-                // Use the state returned by prepare (because prepare might have reset session profits, etc.)
-                const nextRuntimeLanes: RuntimeLane[] = [];
-                const laneLogDetails: LaneLogDetail[] = [];
-                const allEvaluatedBets: EvaluatedBet[] = [];
-                let netPL = 0;
-                let globalWagerConfirmed = 0;
-
-                // Iterate over the PREPARED data to resolve outcomes
-                // This ensures we are using the exact state that placed the bets.
-                preparedStepData.forEach((prepData, idx) => {
-                    const laneStateAfterPrepare = prepData.updatedLaneState;
-                    const betsPlaced = prepData.bets;
-
-                    const balanceBefore = laneRunningBalances[laneStateAfterPrepare.id];
-
-                    // Resolve
-                    const updateResult = updateLaneAfterSpin(
-                        laneStateAfterPrepare,
-                        betsPlaced,
-                        result,
-                        laneStateAfterPrepare.config,
-                        lanePrecalc.find(p => p.laneId === laneStateAfterPrepare.id)?.parsedSequence || [],
-                        Number.MAX_SAFE_INTEGER // Virtual check only, global check done above
-                    );
-
-                    // Collect Immutable Result Data
-                    nextRuntimeLanes.push(updateResult.updatedLaneState);
-                    
-                    if (updateResult.evaluatedBets) {
-                        allEvaluatedBets.push(...updateResult.evaluatedBets);
-                    }
-                    
-                    globalWagerConfirmed += updateResult.wager;
-                    netPL += updateResult.profit;
-
-                    // Update local balance map
-                    const balanceAfter = balanceBefore + updateResult.profit;
-                    laneRunningBalances[laneStateAfterPrepare.id] = balanceAfter;
-
-                    laneLogDetails.push({ 
-                        laneId: laneStateAfterPrepare.id,
-                        laneName: laneStateAfterPrepare.name,
-                        wager: updateResult.wager,
-                        profit: updateResult.profit,
-                        balanceBefore: balanceBefore,
-                        balanceAfter: balanceAfter,
-                        progressionLabel: updateResult.progressionLabel,
-                        wasReset: updateResult.wasReset
-                    });
-                });
-
-                // UPDATE STATE POINTER FOR NEXT LOOP (Immutable Replacement)
-                currentRuntimeLanes = nextRuntimeLanes;
-
-                // Finalize Step Data
-                currentBankroll = startBalanceForStep + netPL;
-                if (currentBankroll < 0) currentBankroll = 0;
-
-                const step: SimulationStep = {
-                    spinIndex: i + 1,
-                    result,
-                    startingBankroll: startBalanceForStep, 
-                    betAmount: globalWagerConfirmed,
-                    outcome: netPL,
-                    bankroll: currentBankroll,
-                    laneDetails: laneLogDetails,
-                    laneBankrolls: { ...laneRunningBalances }, // Snapshot copy
-                    activeTriggers: activeTriggersForStep,
-                    betDescriptions: stepBetDescriptions,
-                    bets: allEvaluatedBets
-                };
-                
-                simHistory.push(step);
-                historyBuffer.push(step);
+                historyBuffer.push(batchEvent.step);
 
                 const n = Date.now();
-                if ((speedRef.current !== 'FAST' || n - lastUiUpdateTime > UI_UPDATE_INTERVAL_MS || i === spinsPerSim - 1) && isMountedRef.current) {
-                    setDisplayHistory(prev => [...prev, ...historyBuffer]);
-                    setBankroll(currentBankroll);
+                if ((speedRef.current !== 'FAST' || n - lastUiUpdateTime > UI_UPDATE_INTERVAL_MS) && isMountedRef.current) {
+                    const flushed = historyBuffer;
+                    setDisplayHistory(prev => [...prev, ...flushed]);
+                    setBankroll(batchEvent.step.bankroll);
                     historyBuffer = [];
                     lastUiUpdateTime = n;
                 }
-            } 
+            } else {
+                if (isMountedRef.current) {
+                    // A session can end before its first spin (e.g. goal already met)
+                    if (batchEvent.runIndex !== currentRunIndex) setDisplayHistory([]);
+                    if (historyBuffer.length > 0) {
+                        const flushed = historyBuffer;
+                        setDisplayHistory(prev => [...prev, ...flushed]);
+                    }
+                    setBankroll(batchEvent.summary.finalBankroll);
+                }
+                historyBuffer = [];
 
-            collectedHistories.push(simHistory);
-            allFinalBankrolls.push(currentBankroll);
-            totalSpinsToFinish += simSpins;
-            if (currentBankroll > settings.startingBankroll) wins++;
-            else if (currentBankroll < settings.startingBankroll) losses++;
-            
-            if (s < numSims - 1 && speedRef.current !== 'FAST') await new Promise(r => setTimeout(r, 500));
-        }
+                if (batchEvent.runIndex < numSims - 1 && speedRef.current !== 'FAST') await new Promise(r => setTimeout(r, 500));
+                if (signal.aborted) throw new Error('Aborted');
+            }
 
-        const stats: BatchStats = {
-            totalSimulations: numSims,
-            wins, losses,
-            avgFinalBankroll: allFinalBankrolls.reduce((a, b) => a + b, 0) / numSims,
-            bestRun: Math.max(...allFinalBankrolls),
-            worstRun: Math.min(...allFinalBankrolls),
-            avgSpinsToFinish: totalSpinsToFinish / numSims
-        };
+            event = await batch.next();
+        }
 
-        finishBatch(collectedHistories, stats, runId);
+        const { runs, runSummaries, stats } = event.value as BatchResult;
+        finishBatch(runs, runSummaries, stats, runId, runSettings, batchSeed, runLanes);
 
     } catch(e: any) {
         if (e.message !== 'Aborted') {
-            // Check for Insufficient Funds error specifically from resolveSpin
-            if (e.message.includes("Insufficient funds")) {
-                console.warn(e.message);
-                if (isMountedRef.current) setSimStatus('IDLE');
-                return;
-            }
             console.error(e);
             alert("Simulation error: " + e.message);
         }
         if (isMountedRef.current) setSimStatus('IDLE');
+    } finally {
+        remote?.terminate();
     }
   };
 
-  const handleStartSimulation = () => {
+  const startSimulation = (runLanes: Lane[], runSettings: SimulationSettings) => {
      setSimStatus('RUNNING');
      setBatchStats(null);
      setAiAnalysis('');
@@ -898,7 +811,21 @@ const App: React.FC = () => {
      if (abortControllerRef.current) abortControllerRef.current.abort();
      const ac = new AbortController();
      abortControllerRef.current = ac;
-     runInteractiveSimulation(ac.signal);
+     runInteractiveSimulation(ac.signal, runLanes, runSettings);
+  };
+
+  const handleStartSimulation = () => startSimulation(lanes, settings);
+
+  // Re-runs an archived batch with the exact seed, settings and lanes it was recorded with. Unseeded batches cannot be.
+  const handleReplayBatch = (batch: BatchMeta) => {
+      if (simStatus !== 'IDLE' || batch.seed === undefined) return;
+      const replayLanes = batch.lanes || lanes;
+      const replaySettings: SimulationSettings = { ...settings, ...batch.settings, seed: batch.seed, useFixedSeed: true };
+      setLanes(replayLanes);
+      if (!replayLanes.find(l => l.id === activeLaneId)) setActiveLaneId(replayLanes[0].id);
+      setSettings(replaySettings);
+      setIsHistoryModalOpen(false);
+      startSimulation(replayLanes, replaySettings);
   };
   
   const handleStop = () => {
@@ -945,6 +872,8 @@ const App: React.FC = () => {
       
       const newBatches = batches.filter(b => b.id !== targetId);
       setBatches(newBatches);
+      setBatchRunsCache(prev => { const next = { ...prev }; delete next[targetId]; return next; });
+      deleteBatches([targetId]).then(refreshStorageUsage).catch(e => handleStorageError(e));
       
       if (newBatches.length > 0) {
           // If we deleted the active one, switch to another
@@ -961,15 +890,48 @@ const App: React.FC = () => {
       setCurrentSimIndex(0);
   };
   
-  const handleClearAllBatches = () => {
+  // Drops every batch from memory and storage
+  const resetBatches = () => {
       setBatches([]);
+      setBatchRunsCache({});
+      setUnsavedBatch(null);
       setActiveBatchId(null);
+      clearBatches().then(refreshStorageUsage).catch(e => handleStorageError(e));
+  };
+
+  const handleClearAllBatches = () => {
+      resetBatches();
       setDisplayHistory([]);
       setBankroll(settings.startingBankroll);
   };
 
   const handleRenameBatch = (batchId: string, newLabel: string) => {
-      setBatches(prev => prev.map(b => b.id === batchId ? { ...b, label: newLabel } : b));
+      const target = batches.find(b => b.id === batchId);
+      if (!target) return;
+      const renamed = { ...target, label: newLabel };
+      setBatches(prev => prev.map(b => b.id === batchId ? renamed : b));
+      updateBatchMeta(renamed).catch(e => handleStorageError(e));
+  };
+
+  // Prune prompt: delete the oldest saved batches, then retry the batch that didn't fit
+  const handlePruneBatches = (count: number) => {
+      const pruned = batches.filter(b => b.id !== unsavedBatch?.id).slice(0, count);
+      const prunedIds = new Set<string>(pruned.map(b => b.id));
+      setBatches(prev => prev.filter(b => !prunedIds.has(b.id)));
+      setBatchRunsCache(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !prunedIds.has(id))));
+      if (activeBatchId && prunedIds.has(activeBatchId)) {
+          setActiveBatchId(unsavedBatch?.id || null);
+          setCurrentSimIndex(0);
+      }
+      setIsStorageFull(false);
+      deleteBatches(Array.from(prunedIds))
+        .then(() => {
+            refreshStorageUsage();
+            if (unsavedBatch) persistBatch(unsavedBatch);
+            saveStrategies(savedStrategies).catch(e => handleStorageError(e));
+            saveLayouts(savedLayouts).catch(e => handleStorageError(e));
+        })
+        .catch(e => handleStorageError(e));
   };
 
   // --- Prep Batch List for Dropdown Navigation ---
@@ -977,7 +939,7 @@ const App: React.FC = () => {
       id: b.id,
       label: b.label || `Batch ${i + 1}`,
       timestamp: b.timestamp,
-      winRate: b.stats.totalSimulations > 0 ? b.stats.wins / b.stats.totalSimulations : 0,
+      winRate: b.stats.totalSimulations > 0 ? b.stats.profitableRuns / b.stats.totalSimulations : 0,
       netProfit: b.stats.avgFinalBankroll - b.settings.startingBankroll
   })), [batches]);
 
@@ -1017,6 +979,36 @@ const App: React.FC = () => {
 
             <div className="w-px h-3 bg-slate-700/50 hidden sm:block"></div>
             
+            {/* Wheel */}
+            <div className="flex items-center gap-2 px-2">
+                <span className="text-[10px] uppercase font-bold text-slate-500">Wheel</span>
+                <select value={settings.wheelType}
+                    onChange={(e) => setSettings({ ...settings, wheelType: e.target.value as WheelType })}
+                    className="bg-transparent text-white text-xs font-bold focus:outline-none cursor-pointer" disabled={simStatus !== 'IDLE'}
+                >
+                    {(Object.keys(WHEEL_LABELS) as WheelType[]).map(w => (
+                        <option key={w} value={w} className="bg-slate-900">{WHEEL_LABELS[w]}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="w-px h-3 bg-slate-700/50 hidden sm:block"></div>
+
+            {/* Zero Rule (even-money bets on 0) */}
+            <div className="flex items-center gap-2 px-2" title="What happens to even-money bets when a zero hits">
+                <span className="text-[10px] uppercase font-bold text-slate-500">Zero Rule</span>
+                <select value={settings.zeroRule}
+                    onChange={(e) => setSettings({ ...settings, zeroRule: e.target.value as ZeroRule })}
+                    className="bg-transparent text-white text-xs font-bold focus:outline-none cursor-pointer" disabled={simStatus !== 'IDLE'}
+                >
+                    {(Object.keys(ZERO_RULE_LABELS) as ZeroRule[]).map(r => (
+                        <option key={r} value={r} className="bg-slate-900">{ZERO_RULE_LABELS[r]}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="w-px h-3 bg-slate-700/50 hidden sm:block"></div>
+            
             {/* # Sims */}
             <div className="flex items-center gap-2 px-2">
                 <span className="text-[10px] uppercase font-bold text-orange-400"># Sims</span>
@@ -1043,6 +1035,100 @@ const App: React.FC = () => {
                 </div>
             </div>
 
+            <div className="w-px h-3 bg-slate-700/50 hidden sm:block"></div>
+
+            {/* Stop Loss */}
+            <div className="flex items-center gap-2 px-2">
+                <div className="flex items-center gap-1.5">
+                    <input type="checkbox" checked={settings.useStopLoss} onChange={(e) => setSettings({...settings, useStopLoss: e.target.checked})} className="w-3 h-3 accent-red-500 rounded-sm" disabled={simStatus !== 'IDLE'} />
+                    <span className={`text-[10px] uppercase font-bold ${settings.useStopLoss ? 'text-red-400' : 'text-slate-500'}`}>Stop</span>
+                </div>
+                <div className="flex items-center gap-0.5">
+                    <button
+                        onClick={() => setSettings({ ...settings, stopLossMode: (settings.stopLossMode === 'ABSOLUTE' ? 'PERCENT' : 'ABSOLUTE') as StopLossMode })}
+                        className={`text-xs font-bold ${settings.useStopLoss ? 'text-slate-400 hover:text-white' : 'text-slate-700'}`}
+                        title="Toggle between a dollar amount and a percent of the starting bankroll"
+                        disabled={simStatus !== 'IDLE' || !settings.useStopLoss}
+                    >
+                        {settings.stopLossMode === 'PERCENT' ? '%' : '$'}
+                    </button>
+                    <input type="number" value={settings.stopLoss}
+                        onChange={(e) => setSettings({ ...settings, stopLoss: Math.max(0, parseFloat(e.target.value) || 0) })}
+                        className={`w-14 bg-transparent text-xs font-mono font-bold focus:outline-none text-right ${settings.useStopLoss ? 'text-white' : 'text-slate-600'}`} disabled={simStatus !== 'IDLE' || !settings.useStopLoss}
+                    />
+                </div>
+            </div>
+
+            <div className="w-px h-3 bg-slate-700/50 hidden sm:block"></div>
+
+            {/* Session Time Limit (table time) */}
+            <div className="flex items-center gap-2 px-2" title="Cap each session by table time. Converted to spins using the table pace.">
+                <div className="flex items-center gap-1.5">
+                    <input type="checkbox" checked={settings.useTimeLimit} onChange={(e) => setSettings({...settings, useTimeLimit: e.target.checked})} className="w-3 h-3 accent-amber-500 rounded-sm" disabled={simStatus !== 'IDLE'} />
+                    <span className={`text-[10px] uppercase font-bold ${settings.useTimeLimit ? 'text-amber-400' : 'text-slate-500'}`}>Time</span>
+                </div>
+                <div className="flex items-center gap-1">
+                    <input type="number" value={settings.timeLimitMinutes}
+                        onChange={(e) => setSettings({ ...settings, timeLimitMinutes: Math.max(1, parseInt(e.target.value) || 1) })}
+                        className={`w-10 bg-transparent text-xs font-mono font-bold focus:outline-none text-right ${settings.useTimeLimit ? 'text-white' : 'text-slate-600'}`} disabled={simStatus !== 'IDLE' || !settings.useTimeLimit}
+                    />
+                    <span className={`text-[10px] ${settings.useTimeLimit ? 'text-slate-500' : 'text-slate-700'}`}>min @</span>
+                    <input type="number" value={settings.spinsPerHour}
+                        onChange={(e) => setSettings({ ...settings, spinsPerHour: Math.max(1, parseInt(e.target.value) || 1) })}
+                        className={`w-8 bg-transparent text-xs font-mono font-bold focus:outline-none text-right ${settings.useTimeLimit ? 'text-white' : 'text-slate-600'}`} disabled={simStatus !== 'IDLE' || !settings.useTimeLimit}
+                    />
+                    <span className={`text-[10px] ${settings.useTimeLimit ? 'text-slate-500' : 'text-slate-700'}`}>/hr</span>
+                </div>
+            </div>
+
+            <div className="w-px h-3 bg-slate-700/50 hidden sm:block"></div>
+
+            {/* Seed */}
+            <div className="flex items-center gap-2 px-2" title="Pin the random seed to reproduce a batch. Unchecked = new seed every batch.">
+                <div className="flex items-center gap-1.5">
+                    <input type="checkbox" checked={settings.useFixedSeed} onChange={(e) => setSettings({...settings, useFixedSeed: e.target.checked})} className="w-3 h-3 accent-cyan-500 rounded-sm" disabled={simStatus !== 'IDLE'} />
+                    <span className={`text-[10px] uppercase font-bold ${settings.useFixedSeed ? 'text-cyan-400' : 'text-slate-500'}`}>Seed</span>
+                </div>
+                <input type="number" value={settings.seed}
+                    onChange={(e) => setSettings({ ...settings, seed: normalizeSeed(parseInt(e.target.value)) })}
+                    className={`w-20 bg-transparent text-xs font-mono font-bold focus:outline-none text-right ${settings.useFixedSeed ? 'text-white' : 'text-slate-600'}`} disabled={simStatus !== 'IDLE' || !settings.useFixedSeed}
+                />
+            </div>
+
+            <div className="w-px h-3 bg-slate-700/50 hidden sm:block"></div>
+
+            {/* Retention: full step history vs per-run aggregates */}
+            <div className="flex items-center gap-2 px-2" title="Summary Only keeps final bankroll, peak, drawdown, spins and ending per run, plus a few sample runs in full detail">
+                <span className="text-[10px] uppercase font-bold text-slate-500">Keep</span>
+                <select value={settings.retentionMode}
+                    onChange={(e) => setSettings({ ...settings, retentionMode: e.target.value as BatchRetention })}
+                    className="bg-transparent text-white text-xs font-bold focus:outline-none cursor-pointer" disabled={simStatus !== 'IDLE'}
+                >
+                    {(Object.keys(RETENTION_LABELS) as BatchRetention[]).map(r => (
+                        <option key={r} value={r} className="bg-slate-900">{RETENTION_LABELS[r]}</option>
+                    ))}
+                </select>
+                {settings.retentionMode === 'SUMMARY' && (
+                    <>
+                        <input type="number" min={0} value={settings.sampleRuns}
+                            onChange={(e) => setSettings({ ...settings, sampleRuns: Math.max(0, parseInt(e.target.value) || 0) })}
+                            className="w-8 bg-transparent text-white text-xs font-mono font-bold focus:outline-none text-right" disabled={simStatus !== 'IDLE'}
+                            title="Sample runs kept with full detail"
+                        />
+                        <span className="text-[10px] text-slate-500">samples</span>
+                    </>
+                )}
+                <div className="flex items-center gap-1.5" title="Record a downsampled equity curve for every run">
+                    <input type="checkbox" checked={settings.useEquityCurve} onChange={(e) => setSettings({...settings, useEquityCurve: e.target.checked})} className="w-3 h-3 accent-indigo-500 rounded-sm" disabled={simStatus !== 'IDLE'} />
+                    <span className={`text-[10px] uppercase font-bold ${settings.useEquityCurve ? 'text-indigo-400' : 'text-slate-500'}`}>Curve</span>
+                </div>
+                <input type="number" min={2} value={settings.equityCurvePoints}
+                    onChange={(e) => setSettings({ ...settings, equityCurvePoints: Math.max(2, parseInt(e.target.value) || 2) })}
+                    className={`w-10 bg-transparent text-xs font-mono font-bold focus:outline-none text-right ${settings.useEquityCurve ? 'text-white' : 'text-slate-600'}`} disabled={simStatus !== 'IDLE' || !settings.useEquityCurve}
+                    title="Max points per curve"
+                />
+            </div>
+
             <div className="flex-1"></div>
 
             {/* Test Toggle Button */}
@@ -1113,8 +1199,8 @@ const App: React.FC = () => {
                 </h1>
                 {currentBatchStats && (
                     <div className="flex gap-2 text-[10px] bg-slate-900/50 px-2 py-0.5 rounded border border-slate-800 items-center">
-                        <span className={currentBatchStats.wins > currentBatchStats.losses ? "text-green-400 font-bold" : "text-red-400 font-bold"}>
-                            WR {((currentBatchStats.wins / currentBatchStats.totalSimulations) * 100).toFixed(0)}%
+                        <span className={currentBatchStats.profitableRuns * 2 > currentBatchStats.totalSimulations ? "text-green-400 font-bold" : "text-red-400 font-bold"} title="Runs that finished in profit">
+                            WR {((currentBatchStats.profitableRuns / currentBatchStats.totalSimulations) * 100).toFixed(0)}%
                         </span>
                         <span className="text-slate-600">|</span>
                         <span className={currentBatchStats.avgFinalBankroll >= settings.startingBankroll ? "text-green-400" : "text-red-400"}>
@@ -1207,6 +1293,8 @@ const App: React.FC = () => {
                 // Triggers
                 triggerBets={activeLane.triggerBets}
                 setTriggerBets={handleUpdateTriggerBets}
+                onUpdateBetProgression={handleUpdateBetProgression}
+                onUpdateLaneRules={handleUpdateLaneRules}
                 
                 // Pass Saved Layouts and Handler
                 savedLayouts={savedLayouts}
@@ -1266,7 +1354,7 @@ const App: React.FC = () => {
                             
                             {/* Reset Simulation Button */}
                             <button 
-                                onClick={() => { setBankroll(settings.startingBankroll); setDisplayHistory([]); setBatches([]); setActiveBatchId(null); setUndoStack(p => [...p, lanes]); }} 
+                                onClick={() => { setBankroll(settings.startingBankroll); setDisplayHistory([]); resetBatches(); setUndoStack(p => [...p, lanes]); }} 
                                 disabled={simStatus !== 'IDLE'} 
                                 className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors disabled:opacity-30"
                                 title="Reset Simulation Data"
@@ -1294,6 +1382,7 @@ const App: React.FC = () => {
                             onBetSelect={handleBetSelect}
                             onStackDelete={handleRemoveBet}
                             triggerMode={false}
+                            wheelType={settings.wheelType}
                             // New Props for Movement
                             onStackMove={handleStackMove}
                             onStackSelectForMove={handleStackSelectForMove}
@@ -1419,6 +1508,7 @@ const App: React.FC = () => {
                     onPause={() => setSimStatus('PAUSED')}
                     onResume={() => { setSimStatus('RUNNING'); if (pauseResolverRef.current) pauseResolverRef.current(); }}
                     onStop={handleStop}
+                    batchProgress={batchProgress}
                     speed={speed}
                     onSpeedChange={setSpeed}
                     isFullScreen={isGraphFullScreen}
@@ -1462,6 +1552,20 @@ const App: React.FC = () => {
             }}
             onDeleteBatch={handleDeleteBatch}
             onClearHistory={handleClearAllBatches}
+            onReplayBatch={handleReplayBatch}
+            canReplay={simStatus === 'IDLE'}
+            activeBatchRuns={activeBatchRuns}
+            storageUsage={storageUsage}
+        />
+
+        {/* Quota Prompt */}
+        <StorageFullModal
+            isOpen={isStorageFull}
+            onClose={() => setIsStorageFull(false)}
+            usage={storageUsage}
+            batches={batches.filter(b => b.id !== unsavedBatch?.id)}
+            pendingLabel={unsavedBatch?.label}
+            onPrune={handlePruneBatches}
         />
 
       </div>
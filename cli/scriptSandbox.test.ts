@@ -0,0 +1,135 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { BetType, Lane, SimulationSettings } from '../core/types';
+import { DEFAULT_SIMULATION_SETTINGS, createDefaultConfig } from '../core/constants';
+import { createScriptSandbox, runLaneScript, ScriptContext } from '../core/script';
+import { playSession } from '../core/runner';
+import { getOutsidePlacement } from '../core/game';
+import { installVmScriptSandbox } from './scriptSandbox';
+
+installVmScriptSandbox();
+
+const settings: SimulationSettings = { ...DEFAULT_SIMULATION_SETTINGS, wheelType: 'EUROPEAN' };
+const context: ScriptContext = { spins: [], balance: 1000, bankroll: 1000, spin: 1 };
+
+const run = (source: string, timeLimitMs = 50) =>
+  runLaneScript(createScriptSandbox(source), context, settings, timeLimitMs, 'test');
+
+test('scripts cannot reach the host through a function constructor', () => {
+  const escapes = [
+    "(() => {}).constructor('return globalThis')().process",
+    "bet.constructor('return process')()",
+    "history.constructor.constructor('return require')()",
+    "Object.getPrototypeOf(async () => {}).constructor('return process')",
+    "(function () { return this; }).call(undefined)",
+    "eval('globalThis').process"
+  ];
+  for (const expression of escapes) {
+    // A reached process / require throws "is not defined" or reads as undefined; neither yields a bet
+    const bets = (() => {
+      try {
+        return run(`const found = ${expression}; return found && (found.pid || found.cache) ? [bet('red', 10)] : [];`);
+      } catch (e: any) {
+        return e.message.startsWith('Script error:') ? [] : [e.message];
+      }
+    })();
+    assert.deepEqual(bets, [], expression);
+  }
+});
+
+test('calls that loop guards cannot see are stopped at the time limit', () => {
+  const stuck = [
+    "/(a+)+$/.test('a'.repeat(40) + 'b'); return [];",
+    "eval('while (true) {}');",
+    "while (true) {}"
+  ];
+  for (const source of stuck) {
+    const started = Date.now();
+    assert.throws(() => run(source), { message: 'Script ran longer than 50ms' }, source);
+    assert.ok(Date.now() - started < 2000, `${source} was not stopped in time`);
+  }
+});
+
+test('an endless chain of promise jobs is stopped at the time limit', () => {
+  // Runs in a plain process: the test runner enables async hooks, which do not survive interrupted promise jobs
+  const child = `
+    import { installVmScriptSandbox } from './cli/scriptSandbox.ts';
+    import { createScriptSandbox, runLaneScript } from './core/script.ts';
+    import { DEFAULT_SIMULATION_SETTINGS } from './core/constants.ts';
+    installVmScriptSandbox();
+    try {
+      runLaneScript(createScriptSandbox(process.argv[1]), ${JSON.stringify(context)}, DEFAULT_SIMULATION_SETTINGS, 50, 'test');
+    } catch (e) {
+      console.log(e.message);
+    }`;
+  const output = execFileSync(
+    process.execPath,
+    ['--import', 'tsx', '--input-type=module', '-e', child, 'Promise.resolve().then(function spin() { return Promise.resolve().then(spin); }); return [];'],
+    { cwd: new URL('..', import.meta.url), encoding: 'utf8', timeout: 20000 }
+  );
+  assert.equal(output.trim(), 'Script ran longer than 50ms');
+});
+
+test('a thrown object is reported without running its getters', () => {
+  assert.throws(() => run('throw { get message() { while (true) {} } };'), { message: 'Script error: [object Object]' });
+});
+
+test('state and history persist between calls of one sandbox', () => {
+  const sandbox = createScriptSandbox("state.calls = (state.calls || 0) + 1; return [bet('red', 5 * state.calls + history.length)];");
+  const spin = { number: 7, display: '7', color: 'red' as const, profit: 5, balance: 1005 };
+  const amounts = [1, 2, 3].map(() => runLaneScript(sandbox, { ...context, spins: [spin] }, settings, 50, 'test')[0].amount);
+  assert.deepEqual(amounts, [6, 12, 18]);
+});
+
+test('inside bets must be real placements on the wheel\'s table', () => {
+  const place = (type: string, numbers: number[], wheelType: SimulationSettings['wheelType'] = 'EUROPEAN') =>
+    runLaneScript(createScriptSandbox(`return [{ placement: { type: '${type}', numbers: ${JSON.stringify(numbers)} }, amount: 10 }];`), context, { ...settings, wheelType }, 50, 'test');
+
+  assert.throws(() => place('SPLIT', [1, 36]), { message: 'Bet 1 (1/36) is not a SPLIT on the European (0) table' });
+  assert.throws(() => place('CORNER', [1, 2, 3, 4]), /is not a CORNER/);
+  assert.throws(() => place('STREET', [2, 3, 4]), /is not a STREET/);
+  assert.throws(() => place('BASKET', [-1, 0, 2], 'TRIPLE_ZERO'), /is not a BASKET/);
+  assert.throws(() => place('CORNER', [0, 1, 2, 3], 'AMERICAN'), /is not a CORNER/);
+
+  assert.equal(place('SPLIT', [36, 33]).length, 1);
+  assert.equal(place('CORNER', [5, 6, 8, 9]).length, 1);
+  assert.equal(place('SIX_LINE', [31, 32, 33, 34, 35, 36]).length, 1);
+  assert.equal(place('CORNER', [0, 1, 2, 3]).length, 1);
+  assert.equal(place('SPLIT', [-1, -2], 'TRIPLE_ZERO').length, 1);
+  assert.equal(place('TOP_LINE', [0, -1, 1, 2, 3], 'AMERICAN').length, 1);
+});
+
+const scriptLane = (script: string): Lane => ({
+  id: 'script', name: 'Lane 1', color: '#6366f1', enabled: true, bets: [], triggerBets: [],
+  config: { ...createDefaultConfig(), strategyMode: 'SCRIPT', script }
+});
+
+const redLane: Lane = {
+  id: 'red', name: 'Lane 2', color: '#ef4444', enabled: true, triggerBets: [],
+  bets: [{ id: 'red-bet', amount: 10, placement: getOutsidePlacement(BetType.RED) }],
+  config: createDefaultConfig()
+};
+
+const sessionSettings: SimulationSettings = { ...settings, spinsPerSimulation: 30, retentionMode: 'FULL', useStopLoss: false, useTotalProfitGoal: false };
+
+test('a session keeps going after a script is stopped, with a fresh realm and the full history', () => {
+  const lane = scriptLane("state.calls = (state.calls || 0) + 1; if (spin === 2) eval('for (;;) {}'); return [bet('red', 10 * state.calls + history.length)];");
+  const { history } = playSession([lane], { ...sessionSettings, spinsPerSimulation: 3 }, 0, 1);
+  assert.deepEqual(history.map(step => step.betAmount), [10, 0, 12]);
+  assert.equal(history[1].laneDetails[0].scriptError, 'Script ran longer than 50ms');
+});
+
+test('a script that rewrites built-ins cannot change another lane', () => {
+  const tampering = scriptLane([
+    "const realm = (() => {}).constructor('return this')();",
+    'realm.Array.prototype.includes = () => true;',
+    'realm.Array.prototype.reduce = () => 0;',
+    'realm.Math.floor = () => 1e6;',
+    "return [bet('black', 5)];"
+  ].join('\n'));
+  const alone = playSession([redLane], sessionSettings, 0, 7).history;
+  const together = playSession([redLane, tampering], sessionSettings, 0, 7).history;
+  assert.deepEqual(together.map(step => step.laneBankrolls.red), alone.map(step => step.laneBankrolls.red));
+  assert.ok(together.every(step => step.laneDetails[1].wager === 5));
+});
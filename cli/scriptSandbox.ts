@@ -0,0 +1,57 @@
+// node:vm sandbox for SCRIPT lanes in the CLI (see core/script.ts).
+//
+// Each lane gets its own context with no host objects in it: the context global has a null prototype, so
+// `this.constructor.constructor` and friends only lead back to the context's own Function. Every call goes
+// through vm with a timeout (a little past the script's own limit, see SCRIPT_STOP_GRACE_MS), which stops anything
+// the script does, not just loops; promise jobs run inside that same timeout. A stopped call drops the context, as
+// the app drops its worker. Only strings go in and come out. Node cannot interrupt promise jobs while async hooks are
+// enabled (the process aborts), so the host must not enable them; the CLI does not.
+import vm from 'node:vm';
+import { types } from 'node:util';
+import { ScriptSandbox } from '../core/types';
+import { getScriptRuntimeExpression, setScriptSandboxFactory, SCRIPT_STOP_GRACE_MS } from '../core/script';
+
+// Setting up the realm runs no user code, but it still gets a limit
+const SETUP_TIME_LIMIT_MS = 1000;
+
+const TIMEOUT_REPLY = JSON.stringify({ timeout: true });
+
+// vm's timeout error is made in the context's realm, so it is recognised by its code. That code is read from the
+// property descriptor of a non-proxy object: nothing the script might have thrown gets to run in the host.
+const isTimeoutError = (e: unknown): boolean => {
+  if (typeof e !== 'object' || e === null || types.isProxy(e)) return false;
+  const code = Object.getOwnPropertyDescriptor(e, 'code');
+  return !!code && code.value === 'ERR_SCRIPT_EXECUTION_TIMEOUT';
+};
+
+export const createVmScriptSandbox = (source: string): ScriptSandbox => {
+  let context: vm.Context | null = vm.createContext(Object.create(null), {
+    name: 'lane script',
+    microtaskMode: 'afterEvaluate',
+    codeGeneration: { strings: true, wasm: false }
+  });
+  vm.runInContext(`globalThis.__call = ${getScriptRuntimeExpression(source)};`, context, { timeout: SETUP_TIME_LIMIT_MS });
+
+  return {
+    get stopped() {
+      return context === null;
+    },
+    run(request, timeLimitMs) {
+      if (!context) return TIMEOUT_REPLY;
+      // The request goes in as a literal: writing to the context could run a setter the script left there
+      try {
+        const reply = vm.runInContext(`__call(${JSON.stringify(request)})`, context, { timeout: timeLimitMs + SCRIPT_STOP_GRACE_MS });
+        return typeof reply === 'string' ? reply : JSON.stringify({ error: 'the script replaced its sandbox' });
+      } catch (e) {
+        if (!isTimeoutError(e)) return JSON.stringify({ error: 'the script broke its sandbox' });
+        context = null;
+        return TIMEOUT_REPLY;
+      }
+    },
+    dispose() {
+      context = null;
+    }
+  };
+};
+
+export const installVmScriptSandbox = () => setScriptSandboxFactory(createVmScriptSandbox);
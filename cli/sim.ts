@@ -0,0 +1,195 @@
+// Headless batch runner for saved strategy files.
+//
+//   npm run sim -- strategy.json --sims 1000 --seed 42 --wheel european --spins 200 --csv runs.csv
+//
+// Uses the same core runner as the app, so a seed gives the same numbers here and in the browser.
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { SavedStrategy, SimulationSettings, WheelType, TerminationReason, RunSummary, BatchStats } from '../core/types';
+import { DEFAULT_SIMULATION_SETTINGS, WHEEL_LABELS, ZERO_RULE_LABELS, TERMINATION_LABELS, createDefaultConfig } from '../core/constants';
+import { normalizeSeed } from '../core/rng';
+import { validateSimulation, resolveBatchSeed, getBatchRunCount, simulateBatch, BatchEvent, BatchResult } from '../core/runner';
+import { installVmScriptSandbox } from './scriptSandbox';
+
+const USAGE = `Usage: npm run sim -- <strategy.json> [options]
+
+Options:
+  -n, --sims <N>        Number of sessions (default: from file, else ${DEFAULT_SIMULATION_SETTINGS.numberOfSimulations})
+  -s, --seed <N>        Batch seed (default: from file if pinned, else random)
+  -w, --wheel <type>    european | american | triple
+      --spins <N>       Max spins per session
+      --curve <N>       Record a downsampled equity curve with up to N points per run
+      --csv <file>      Write one CSV row per run
+      --json <file>     Write stats and per-run summaries as JSON
+  -q, --quiet           No progress output
+  -h, --help            Show this help`;
+
+const WHEEL_ALIASES: Record<string, WheelType> = {
+  european: 'EUROPEAN',
+  american: 'AMERICAN',
+  triple: 'TRIPLE_ZERO',
+  triple_zero: 'TRIPLE_ZERO'
+};
+
+const fail = (message: string): never => {
+  console.error(`Error: ${message}`);
+  process.exit(1);
+};
+
+const parsePositiveInt = (value: string, flag: string): number => {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) fail(`${flag} must be a positive integer, got "${value}"`);
+  return n;
+};
+
+const loadStrategy = (file: string): SavedStrategy => {
+  let strategy: SavedStrategy;
+  try {
+    strategy = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (e: any) {
+    return fail(`could not read ${file}: ${e.message}`);
+  }
+  if (!strategy || !Array.isArray(strategy.lanes)) fail(`${file} is not a saved strategy (no lanes)`);
+  // Same backfill as loading a strategy in the app
+  strategy.lanes = strategy.lanes.map(l => ({
+    ...l,
+    config: {
+      ...createDefaultConfig(),
+      ...l.config,
+      chainSteps: l.config.chainSteps || []
+    }
+  }));
+  return strategy;
+};
+
+const formatMoney = (n: number) => `$${n.toFixed(0)}`;
+const formatPct = (count: number, total: number) => (total > 0 ? ((count / total) * 100).toFixed(1) : '0.0') + '%';
+
+const printStats = (strategy: SavedStrategy, settings: SimulationSettings, seed: number, stats: BatchStats) => {
+  const endings = (Object.keys(TERMINATION_LABELS) as TerminationReason[])
+    .filter(r => stats.terminations[r] > 0)
+    .map(r => `${TERMINATION_LABELS[r]} ${stats.terminations[r]} (${formatPct(stats.terminations[r], stats.totalSimulations)})`)
+    .join(' | ');
+
+  const enabledLanes = strategy.lanes.filter(l => l.enabled).length;
+  console.log(`Strategy:        ${strategy.name || 'Untitled'} (${enabledLanes} enabled lane${enabledLanes === 1 ? '' : 's'})`);
+  console.log(`Wheel:           ${WHEEL_LABELS[settings.wheelType]} | Zero rule: ${ZERO_RULE_LABELS[settings.zeroRule]}`);
+  console.log(`Seed:            ${seed}`);
+  console.log(`Sessions:        ${stats.totalSimulations} x up to ${settings.spinsPerSimulation} spins`);
+  console.log(`Bankroll:        ${formatMoney(settings.startingBankroll)}`);
+  console.log(`Profitable:      ${formatPct(stats.profitableRuns, stats.totalSimulations)} (${stats.profitableRuns})`);
+  console.log(`Avg end balance: ${formatMoney(stats.avgFinalBankroll)} (${stats.avgFinalBankroll - settings.startingBankroll >= 0 ? '+' : ''}${(stats.avgFinalBankroll - settings.startingBankroll).toFixed(0)})`);
+  console.log(`Best / Worst:    ${formatMoney(stats.bestRun)} / ${formatMoney(stats.worstRun)}`);
+  console.log(`Avg peak:        ${formatMoney(stats.avgPeakBankroll)}`);
+  console.log(`Max drawdown:    avg ${formatMoney(stats.avgMaxDrawdown)} | worst ${formatMoney(stats.worstDrawdown)}`);
+  console.log(`Avg spins:       ${stats.avgSpinsToFinish.toFixed(1)}`);
+  console.log(`Endings:         ${endings || '-'}`);
+};
+
+const toCsv = (summaries: RunSummary[], settings: SimulationSettings): string => {
+  const header = ['Run', 'Final_Bankroll', 'Profit', 'Peak_Bankroll', 'Max_Drawdown', 'Spins', 'Termination'];
+  const rows = summaries.map((r, i) => [
+    i + 1,
+    r.finalBankroll,
+    r.finalBankroll - settings.startingBankroll,
+    r.peakBankroll,
+    r.maxDrawdown,
+    r.spins,
+    r.terminationReason
+  ].join(','));
+  return [header.join(','), ...rows].join('\n') + '\n';
+};
+
+const main = () => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        sims: { type: 'string', short: 'n' },
+        seed: { type: 'string', short: 's' },
+        wheel: { type: 'string', short: 'w' },
+        spins: { type: 'string' },
+        curve: { type: 'string' },
+        csv: { type: 'string' },
+        json: { type: 'string' },
+        quiet: { type: 'boolean', short: 'q' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+  } catch (e: any) {
+    return fail(`${e.message}\n\n${USAGE}`);
+  }
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length !== 1) fail(`expected one strategy file\n\n${USAGE}`);
+
+  const strategy = loadStrategy(positionals[0]);
+  // Strategy files are shared: their scripts only ever run in an isolated vm context
+  installVmScriptSandbox();
+
+  // File settings over app defaults, then command-line overrides
+  const settings: SimulationSettings = {
+    ...DEFAULT_SIMULATION_SETTINGS,
+    ...strategy.settings,
+    // Per-run aggregates only; full step histories would not fit for large batches
+    retentionMode: 'SUMMARY',
+    sampleRuns: 0,
+    useEquityCurve: false,
+    fixedOutcomeSequence: ''
+  };
+  if (values.sims !== undefined) settings.numberOfSimulations = parsePositiveInt(values.sims, '--sims');
+  if (values.spins !== undefined) settings.spinsPerSimulation = parsePositiveInt(values.spins, '--spins');
+  if (values.curve !== undefined) {
+    settings.useEquityCurve = true;
+    settings.equityCurvePoints = Math.max(2, parsePositiveInt(values.curve, '--curve'));
+  }
+  if (values.wheel !== undefined) {
+    const wheel = WHEEL_ALIASES[values.wheel.toLowerCase()] || (values.wheel.toUpperCase() as WheelType);
+    if (!WHEEL_LABELS[wheel]) fail(`unknown wheel "${values.wheel}" (use european, american or triple)`);
+    settings.wheelType = wheel;
+  }
+  if (values.seed !== undefined) {
+    const seed = Number(values.seed);
+    if (!Number.isFinite(seed)) fail(`--seed must be a number, got "${values.seed}"`);
+    settings.seed = normalizeSeed(seed);
+    settings.useFixedSeed = true;
+  }
+
+  const validationError = validateSimulation(strategy.lanes, settings);
+  if (validationError) fail(validationError);
+
+  const seed = resolveBatchSeed(settings);
+  const total = getBatchRunCount(settings);
+  const showProgress = !values.quiet && process.stderr.isTTY;
+
+  const batch = simulateBatch(strategy.lanes, settings, seed);
+  let event = batch.next();
+  while (!event.done) {
+    const batchEvent = event.value as BatchEvent;
+    if (showProgress && batchEvent.type === 'RUN_COMPLETE' && (batchEvent.runIndex % 100 === 0 || batchEvent.runIndex === total - 1)) {
+      process.stderr.write(`\rRunning sessions... ${batchEvent.runIndex + 1}/${total}`);
+    }
+    event = batch.next();
+  }
+  if (showProgress) process.stderr.write('\n');
+
+  const { runSummaries: summaries, stats } = event.value as BatchResult;
+  printStats(strategy, settings, seed, stats);
+
+  if (values.csv) {
+    writeFileSync(values.csv, toCsv(summaries, settings));
+    console.log(`Wrote ${summaries.length} runs to ${values.csv}`);
+  }
+  if (values.json) {
+    const { retentionMode, sampleRuns, ...recordedSettings } = settings;
+    writeFileSync(values.json, JSON.stringify({ strategy: strategy.name, seed, settings: recordedSettings, stats, runs: summaries }, null, 2));
+    console.log(`Wrote ${summaries.length} runs to ${values.json}`);
+  }
+};
+
+main();
@@ -1,7 +1,9 @@
 
 import React from 'react';
 import { X, ArrowDown, Play, Zap, Calculator, TrendingUp, DollarSign, Wallet } from 'lucide-react';
-import { Lane, BetType } from '../core/types';
+import { Lane, BetType, ProgressionConfig, ProgressionAction } from '../core/types';
+import { PROGRESSION_SYSTEM_LABELS, LADDER_TOP_LABELS, SIZING_MODE_LABELS, WIN_DEFINITION_LABELS, SEQUENCE_1326 } from '../core/constants';
+import { describeTriggerCondition, describeTriggerBets, describeTriggerStaking } from '../utils/triggers';
 
 interface LogicFlowModalProps {
   isOpen: boolean;
@@ -9,11 +11,33 @@ interface LogicFlowModalProps {
   lane: Lane;
 }
 
+// Win / loss branches for the cycle-based STATIC systems; null when the plain on-win / on-loss actions apply
+const getSystemFlow = (config: ProgressionConfig): { win: string; loss: string; detail: string } | null => {
+  if (config.strategyMode !== 'STATIC') return null;
+  switch (config.progressionSystem) {
+    case 'LABOUCHERE':
+      return { win: 'Cross off first + last', loss: 'Append lost units', detail: `Line [${config.labouchereLine}], restart above ${config.labouchereMaxLength} numbers` };
+    case 'OSCARS_GRIND':
+      return { win: '+1 unit (capped at what finishes the cycle)', loss: 'Same bet', detail: 'Cycle ends at +1 unit profit' };
+    case 'PAROLI':
+      return { win: 'Double', loss: 'Reset to 1x', detail: `Cycle ends after ${config.paroliWins} wins` };
+    case 'ONE_THREE_TWO_SIX':
+      return { win: 'Next in sequence', loss: 'Reset to 1x', detail: `Units ${SEQUENCE_1326.join(' → ')}, then reset` };
+    case 'RECOVERY':
+      return { win: `Reset once cycle is +$${config.recoveryTarget}`, loss: 'Resize to recover losses + target', detail: config.recoveryMaxLosses > 0 ? `Give up after ${config.recoveryMaxLosses} losses` : 'Never gives up' };
+    default:
+      return null;
+  }
+};
+
 const LogicFlowModal: React.FC<LogicFlowModalProps> = ({ isOpen, onClose, lane }) => {
   if (!isOpen) return null;
 
   const { config, bets, triggerBets } = lane;
   const totalBaseBet = bets.reduce((sum, b) => sum + b.amount, 0);
+  const systemFlow = getSystemFlow(config);
+  const usesLadder = !systemFlow && config.strategyMode === 'STATIC' &&
+    (config.onWinAction === ProgressionAction.LADDER || config.onLossAction === ProgressionAction.LADDER);
 
   // Helper for connecting lines
   const Connector = () => (
@@ -66,7 +90,10 @@ const LogicFlowModal: React.FC<LogicFlowModalProps> = ({ isOpen, onClose, lane }
                             <div className="space-y-1">
                                 {bets.slice(0, 3).map((b, i) => (
                                     <div key={i} className="flex justify-between text-slate-300">
-                                        <span>{b.placement.displayName}</span>
+                                        <span>
+                                            {b.placement.displayName}
+                                            {b.progression && <span className="ml-1 text-[9px] text-amber-300 font-mono">own: W {b.progression.onWinAction} / L {b.progression.onLossAction}</span>}
+                                        </span>
                                         <span className="font-mono text-indigo-300">${b.amount}</span>
                                     </div>
                                 ))}
@@ -75,6 +102,30 @@ const LogicFlowModal: React.FC<LogicFlowModalProps> = ({ isOpen, onClose, lane }
                                     <span>Base Total</span>
                                     <span>${totalBaseBet}</span>
                                 </div>
+                                {systemFlow && (
+                                    <div className="flex justify-between text-[10px] text-slate-400">
+                                        <span>{PROGRESSION_SYSTEM_LABELS[config.progressionSystem]}</span>
+                                        <span className="font-mono">{systemFlow.detail}</span>
+                                    </div>
+                                )}
+                                {config.sizingMode && config.sizingMode !== 'FIXED' && (
+                                    <div className="flex justify-between text-[10px] text-sky-300">
+                                        <span>Sized as</span>
+                                        <span className="font-mono">{config.sizingPercent}{SIZING_MODE_LABELS[config.sizingMode]}</span>
+                                    </div>
+                                )}
+                                {usesLadder && (
+                                    <div className="flex justify-between text-[10px] text-slate-400">
+                                        <span>Ladder [{config.ladderSequence}]</span>
+                                        <span className="font-mono">Past top: {LADDER_TOP_LABELS[config.ladderTopAction]}</span>
+                                    </div>
+                                )}
+                                {config.useShadow && (
+                                    <div className="flex justify-between text-[10px] text-cyan-300">
+                                        <span>Shadow: live after {config.shadowLossesToGoLive} virtual losses</span>
+                                        <span className="font-mono">{config.shadowWinsToGoVirtual > 0 ? `back after ${config.shadowWinsToGoVirtual} win${config.shadowWinsToGoVirtual === 1 ? '' : 's'}` : 'stays live'}</span>
+                                    </div>
+                                )}
                             </div>
                         ) : (
                             <span className="text-slate-500 italic">No base bets configured</span>
@@ -97,13 +148,15 @@ const LogicFlowModal: React.FC<LogicFlowModalProps> = ({ isOpen, onClose, lane }
                                     <div key={i} className="flex flex-col gap-1 p-1.5 bg-slate-800/80 rounded border border-slate-700/50">
                                         <div className="flex items-center gap-1.5 text-orange-200">
                                             <span className="font-mono font-bold uppercase text-[10px] bg-orange-900/40 px-1 rounded">
-                                                IF {t.rule === 'HIT_STREAK' ? 'HIT' : 'MISS'} {t.threshold}x
+                                                IF {describeTriggerCondition(t)}
                                             </span>
-                                            <span className="text-[10px] text-slate-400">on {t.triggerPlacement.displayName}</span>
+                                            {!t.condition && <span className="text-[10px] text-slate-400">on {t.triggerPlacement.displayName}</span>}
                                         </div>
                                         <div className="flex items-center gap-2 pl-2 border-l border-slate-600 ml-1">
                                             <span className="text-[10px] text-slate-400">Then Bet</span>
                                             <span className="font-mono text-emerald-400 font-bold">${t.betAmount}</span>
+                                            <span className="text-[10px] text-slate-400 truncate">on {describeTriggerBets(t)}</span>
+                                            {describeTriggerStaking(t) && <span className="text-[9px] text-amber-300 font-mono">{describeTriggerStaking(t)}</span>}
                                         </div>
                                     </div>
                                 ))}
@@ -130,8 +183,11 @@ const LogicFlowModal: React.FC<LogicFlowModalProps> = ({ isOpen, onClose, lane }
                         </div>
                         <div className="bg-slate-900/50 p-2 rounded text-center border border-slate-700">
                              <span className="block text-slate-500 font-bold uppercase mb-1">Logic</span>
-                             <div className="text-emerald-400">Win = Profit &ge; 0</div>
-                             <div className="text-red-400">Loss = Profit &lt; 0</div>
+                             <div className="text-emerald-400">Win = {WIN_DEFINITION_LABELS[config.winDefinition || 'NET_NON_NEGATIVE']}</div>
+                             {(config.winDefinition || 'NET_NON_NEGATIVE') !== 'NET_NON_NEGATIVE' && (
+                                 <div className="text-slate-300">Push = Profit = 0 ({config.onPushAction && config.onPushAction !== ProgressionAction.DO_NOTHING && !systemFlow ? config.onPushAction : 'hold'})</div>
+                             )}
+                             <div className="text-red-400">Loss = otherwise</div>
                         </div>
                     </div>
                 </div>
@@ -144,8 +200,14 @@ const LogicFlowModal: React.FC<LogicFlowModalProps> = ({ isOpen, onClose, lane }
                     <div className="bg-slate-800/80 border border-emerald-500/30 rounded-lg p-3 flex flex-col gap-1 relative">
                         <div className="absolute -top-3 left-1/2 -translate-x-1/2 bg-slate-900 px-2 text-[10px] font-bold text-emerald-500 uppercase">If Win</div>
                         <div className="text-center mt-1">
-                             <div className="text-xs font-bold text-white">{config.onWinAction}</div>
-                             {config.onWinValue !== 0 && <div className="text-[10px] font-mono text-emerald-300">Value: {config.onWinValue}</div>}
+                             {systemFlow ? (
+                                 <div className="text-xs font-bold text-white">{systemFlow.win}</div>
+                             ) : (
+                                 <>
+                                     <div className="text-xs font-bold text-white">{config.onWinAction}</div>
+                                     {config.onWinValue !== 0 && <div className="text-[10px] font-mono text-emerald-300">Value: {config.onWinValue}</div>}
+                                 </>
+                             )}
                         </div>
                     </div>
                     
@@ -153,8 +215,14 @@ const LogicFlowModal: React.FC<LogicFlowModalProps> = ({ isOpen, onClose, lane }
                     <div className="bg-slate-800/80 border border-red-500/30 rounded-lg p-3 flex flex-col gap-1 relative">
                         <div className="absolute -top-3 left-1/2 -translate-x-1/2 bg-slate-900 px-2 text-[10px] font-bold text-red-500 uppercase">If Loss</div>
                         <div className="text-center mt-1">
-                             <div className="text-xs font-bold text-white">{config.onLossAction}</div>
-                             {config.onLossValue !== 0 && <div className="text-[10px] font-mono text-red-300">Value: {config.onLossValue}</div>}
+                             {systemFlow ? (
+                                 <div className="text-xs font-bold text-white">{systemFlow.loss}</div>
+                             ) : (
+                                 <>
+                                     <div className="text-xs font-bold text-white">{config.onLossAction}</div>
+                                     {config.onLossValue !== 0 && <div className="text-[10px] font-mono text-red-300">Value: {config.onLossValue}</div>}
+                                 </>
+                             )}
                         </div>
                     </div>
                 </div>
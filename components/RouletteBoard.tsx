@@ -1,9 +1,9 @@
 
 // DO NOT WRITE OVER
 import React, { useMemo, useState, useCallback } from 'react';
-import { BetType, BetPlacement, Bet } from '../core/types';
+import { BetType, BetPlacement, Bet, WheelType } from '../core/types';
 import { getPlacementIdentifier } from '../utils/placements';
-import { CHIP_COLORS, BLACK_NUMBERS } from '../core/constants';
+import { CHIP_COLORS, BLACK_NUMBERS, ZERO_POCKETS, ZERO_DISPLAY } from '../core/constants';
 
 interface RouletteTableProps {
   onBetSelect: (betPlacement: BetPlacement) => void;
@@ -18,6 +18,7 @@ interface RouletteTableProps {
   onStackDragEnd?: () => void;
   triggerMode?: boolean;
   triggerHighlightIds?: string[];
+  wheelType?: WheelType;
 }
 
 const redNumbers = new Set([1, 3, 5, 7, 9, 12, 14, 16, 18, 19, 21, 23, 25, 27, 30, 32, 34, 36]);
@@ -68,7 +69,7 @@ const EVEN_MONEY_TYPES = new Set<BetType>([
 ]);
 
 const getNumberColor = (n: number) => {
-  if (n === 0 || n === -1) return 'bg-green-700 hover:bg-green-600';
+  if (n <= 0) return 'bg-green-700 hover:bg-green-600';
   if (redNumbers.has(n)) return 'bg-red-700 hover:bg-red-600';
   return 'bg-gray-800 hover:bg-gray-700';
 };
@@ -119,18 +120,8 @@ const zeroBasketHotspot: HotspotConfig = { width: formatPercent(vSplitHotspotWid
 // --- Bet Definitions ---
 const BET_DEFINITIONS: BetDefinition[] = [];
 
-// Zeros
+// Zeros are wheel-specific, see getBetDefinitions below
 const zeroAreaHeight = numberRowHeightPercent * NUMBER_ROWS;
-BET_DEFINITIONS.push({ type: BetType.STRAIGHT_UP, numbers: [0], displayName: '0', chipPosition: { top: formatPercent(zeroAreaHeight * 0.25), left: formatPercent(zeroColumnWidthPercent / 2) }, hotspot: straightHotspot });
-BET_DEFINITIONS.push({ type: BetType.STRAIGHT_UP, numbers: [-1], displayName: '00', chipPosition: { top: formatPercent(zeroAreaHeight * 0.75), left: formatPercent(zeroColumnWidthPercent / 2) }, hotspot: straightHotspot });
-BET_DEFINITIONS.push({ type: BetType.SPLIT, numbers: [-1, 0].sort(), displayName: 'Split 0/00', chipPosition: { top: formatPercent(zeroAreaHeight * 0.5), left: formatPercent(zeroColumnWidthPercent / 2) }, hotspot: { ...horizontalSplitHotspot, height: formatPercent(numberRowHeightPercent * 0.8) } });
-BET_DEFINITIONS.push({
-  type: BetType.BASKET,
-  numbers: [-1, 0, 2],
-  displayName: 'Basket 0/00/2',
-  chipPosition: { top: formatPercent(getRowCenterPercent(1)), left: formatPercent(getColumnBoundaryPercent(0)) },
-  hotspot: zeroBasketHotspot,
-});
 
 // Numbers & Complex Bets (Straights, Splits, Corners, Streets, Six Lines)
 for (let i = 0; i < NUMBER_COLUMNS; i++) {
@@ -188,15 +179,6 @@ for (let i = 0; i < NUMBER_COLUMNS; i++) {
   }
 }
 
-// Top Line (5-number) Bet: 0, 00, 1, 2, 3
-BET_DEFINITIONS.push({
-  type: BetType.TOP_LINE, // Updated to new type
-  numbers: [-1, 0, 1, 2, 3],
-  displayName: 'Top Line (0,00,1,2,3)',
-  chipPosition: { top: formatPercent(getRowBoundaryPercent(3)), left: formatPercent(getColumnBoundaryPercent(0)) },
-  hotspot: topLineHotspot,
-});
-
 // Outside Bets
 // Columns
 const columnBetLeft = formatPercent(getColumnBoundaryPercent(12) + outsideColumnWidthPercent / 2);
@@ -219,6 +201,100 @@ BET_DEFINITIONS.push({ type: BetType.BLACK, numbers: Array.from(BLACK_NUMBERS),
 BET_DEFINITIONS.push({ type: BetType.ODD, numbers: Array.from({ length: 18 }, (_, i) => i * 2 + 1), displayName: 'Odd', chipPosition: { top: evenMoneyBetTop, left: formatPercent(getColumnBoundaryPercent(8) + numberColumnWidthPercent * 1) } });
 BET_DEFINITIONS.push({ type: BetType.HIGH_19_36, numbers: Array.from({ length: 18 }, (_, i) => i + 19), displayName: '19 to 36', chipPosition: { top: evenMoneyBetTop, left: formatPercent(getColumnBoundaryPercent(10) + numberColumnWidthPercent * 1) } });
 
+// --- Zero Column (per wheel type) ---
+// Single zero fills the column; 0/00 and 0/00/000 stack top to bottom.
+const buildZeroDefinitions = (wheelType: WheelType): BetDefinition[] => {
+  const zeros = ZERO_POCKETS[wheelType];
+  const cellHeight = zeroAreaHeight / zeros.length;
+  const zeroLeft = formatPercent(zeroColumnWidthPercent / 2);
+  const defs: BetDefinition[] = zeros.map((value, idx) => ({
+    type: BetType.STRAIGHT_UP,
+    numbers: [value],
+    displayName: ZERO_DISPLAY[value],
+    chipPosition: { top: formatPercent(cellHeight * (idx + 0.5)), left: zeroLeft },
+    hotspot: straightHotspot,
+  }));
+
+  if (wheelType === 'EUROPEAN') {
+    // First Four (0,1,2,3) pays as a corner; trios 0/1/2 and 0/2/3 pay as baskets
+    defs.push({
+      type: BetType.CORNER,
+      numbers: [0, 1, 2, 3],
+      displayName: 'First Four (0,1,2,3)',
+      chipPosition: { top: formatPercent(getRowBoundaryPercent(3)), left: formatPercent(getColumnBoundaryPercent(0)) },
+      hotspot: topLineHotspot,
+    });
+    defs.push({
+      type: BetType.BASKET,
+      numbers: [0, 2, 3],
+      displayName: 'Basket 0/2/3',
+      chipPosition: { top: formatPercent(getRowBoundaryPercent(1)), left: formatPercent(getColumnBoundaryPercent(0)) },
+      hotspot: cornerHotspot,
+    });
+    defs.push({
+      type: BetType.BASKET,
+      numbers: [0, 1, 2],
+      displayName: 'Basket 0/1/2',
+      chipPosition: { top: formatPercent(getRowBoundaryPercent(2)), left: formatPercent(getColumnBoundaryPercent(0)) },
+      hotspot: cornerHotspot,
+    });
+    return defs;
+  }
+
+  // Splits between stacked zeros
+  for (let idx = 0; idx < zeros.length - 1; idx++) {
+    const pair = [zeros[idx], zeros[idx + 1]].sort();
+    defs.push({
+      type: BetType.SPLIT,
+      numbers: pair,
+      displayName: `Split ${ZERO_DISPLAY[zeros[idx]]}/${ZERO_DISPLAY[zeros[idx + 1]]}`,
+      chipPosition: { top: formatPercent(cellHeight * (idx + 1)), left: zeroLeft },
+      hotspot: { ...horizontalSplitHotspot, height: formatPercent(numberRowHeightPercent * (wheelType === 'AMERICAN' ? 0.8 : 0.3)) },
+    });
+  }
+
+  if (wheelType === 'AMERICAN') {
+    defs.push({
+      type: BetType.BASKET,
+      numbers: [-1, 0, 2],
+      displayName: 'Basket 0/00/2',
+      chipPosition: { top: formatPercent(getRowCenterPercent(1)), left: formatPercent(getColumnBoundaryPercent(0)) },
+      hotspot: zeroBasketHotspot,
+    });
+    // Top Line (5-number) Bet: 0, 00, 1, 2, 3
+    defs.push({
+      type: BetType.TOP_LINE,
+      numbers: [-1, 0, 1, 2, 3],
+      displayName: 'Top Line (0,00,1,2,3)',
+      chipPosition: { top: formatPercent(getRowBoundaryPercent(3)), left: formatPercent(getColumnBoundaryPercent(0)) },
+      hotspot: topLineHotspot,
+    });
+  } else {
+    // Triple zero: the 0/00/000 street
+    defs.push({
+      type: BetType.BASKET,
+      numbers: [-2, -1, 0],
+      displayName: 'Basket 0/00/000',
+      chipPosition: { top: formatPercent(getRowBoundaryPercent(3)), left: formatPercent(zeroColumnWidthPercent / 2) },
+      hotspot: streetHotspot,
+    });
+  }
+  return defs;
+};
+
+const BET_DEFINITIONS_BY_WHEEL: Partial<Record<WheelType, BetDefinition[]>> = {};
+
+// Full bet catalogue for a wheel: the shared number/outside bets plus that wheel's zero column
+export const getBetDefinitions = (wheelType: WheelType): BetDefinition[] => {
+  if (!BET_DEFINITIONS_BY_WHEEL[wheelType]) {
+    BET_DEFINITIONS_BY_WHEEL[wheelType] = [...buildZeroDefinitions(wheelType), ...BET_DEFINITIONS];
+  }
+  return BET_DEFINITIONS_BY_WHEEL[wheelType]!;
+};
+
+// Grid row classes must be literal strings for Tailwind
+const ZERO_GRID_ROWS: Record<number, string> = { 1: 'grid-rows-1', 2: 'grid-rows-2', 3: 'grid-rows-3' };
+
 // --- Dozen Highlight Overlay Calculation ---
 const DOZEN_OVERLAY_HEIGHT_PERCENT = dozenRowHeightPercent;
 const DOZEN_OVERLAY_TOP_PERCENT = getRowBoundaryPercent(3) + dozenRowHeightPercent / 2;
@@ -368,7 +444,10 @@ const RouletteTable: React.FC<RouletteTableProps> = ({
   onStackDragEnd,
   triggerMode = false,
   triggerHighlightIds = [],
+  wheelType,
 }) => {
+    const wheel: WheelType = wheelType || 'AMERICAN';
+    const betDefinitions = useMemo(() => getBetDefinitions(wheel), [wheel]);
     const [hoveredHotspot, setHoveredHotspot] = useState<BetPlacement | null>(null);
     const [activeDragMode, setActiveDragMode] = useState<DragMode | null>(null);
   const triggerSet = useMemo(() => new Set(triggerHighlightIds), [triggerHighlightIds]);
@@ -413,7 +492,7 @@ const RouletteTable: React.FC<RouletteTableProps> = ({
     const betsOnBoard = useMemo(() => {
         const groupedBets: Record<string, { bets: Bet[], totalAmount: number, position: {top: string, left: string}, placement: BetPlacement }> = {};
         bets.forEach(bet => {
-            const definition = BET_DEFINITIONS.find(def => getPlacementIdentifier(def) === getPlacementIdentifier(bet.placement));
+            const definition = betDefinitions.find(def => getPlacementIdentifier(def) === getPlacementIdentifier(bet.placement));
             if (!definition) return;
 
             const id = getPlacementIdentifier(bet.placement);
@@ -424,15 +503,17 @@ const RouletteTable: React.FC<RouletteTableProps> = ({
             groupedBets[id].totalAmount += bet.amount;
         });
         return Object.values(groupedBets);
-    }, [bets]);
+    }, [bets, betDefinitions]);
 
     const numberRows = [
         [3, 6, 9, 12, 15, 18, 21, 24, 27, 30, 33, 36], // Top row (3rd Column)
         [2, 5, 8, 11, 14, 17, 20, 23, 26, 29, 32, 35], // Middle row (2nd Column)
         [1, 4, 7, 10, 13, 16, 19, 22, 25, 28, 31, 34], // Bottom row (1st Column progression)
     ];
-    const zeroPlacement = BET_DEFINITIONS.find(b => b.displayName === '0')!;
-    const doubleZeroPlacement = BET_DEFINITIONS.find(b => b.displayName === '00')!;
+    const zeroPlacements = useMemo(
+        () => ZERO_POCKETS[wheel].map(value => betDefinitions.find(b => b.type === BetType.STRAIGHT_UP && b.numbers[0] === value)!),
+        [betDefinitions, wheel],
+    );
 
     const sharedHighlightStyle = useMemo(
       () =>
@@ -517,7 +598,7 @@ const RouletteTable: React.FC<RouletteTableProps> = ({
             .filter(group => OUTLINE_ELIGIBLE_TYPES.has(group.placement.type))
             .map(group => {
                 const placementId = getPlacementIdentifier(group.placement);
-                const definition = BET_DEFINITIONS.find(def => getPlacementIdentifier(def) === placementId);
+                const definition = betDefinitions.find(def => getPlacementIdentifier(def) === placementId);
                 if (!definition) return null;
 
                 if (EVEN_MONEY_TYPES.has(group.placement.type)) {
@@ -696,56 +777,42 @@ const RouletteTable: React.FC<RouletteTableProps> = ({
         >
             {/* Main Table Structure */}
             <div className="h-full w-full grid grid-cols-[5fr_repeat(12,6fr)_5fr] grid-rows-[repeat(3,0.8fr)_0.45fr_0.45fr] gap-px bg-green-900">
-                {/* 0 and 00 */}
-                <div className="col-start-1 row-start-1 row-span-3 grid grid-rows-2 gap-px bg-green-900">
-                    <div
-                        onClick={(event) => handleBetClick(zeroPlacement, event)}
-                        onMouseEnter={() => setHoveredHotspot(zeroPlacement)}
-                        onMouseLeave={() => setHoveredHotspot(null)}
-                        onDragOver={(event) => handleDragOver(event, zeroPlacement)}
-                        onDragLeave={(event) => handleDragLeave(event, zeroPlacement)}
-                        onDrop={(event) => handleDropOnPlacement(event, zeroPlacement)}
-                        className={`flex items-center justify-center cursor-pointer transition-colors ${getNumberColor(0)} ${
-                          (isNumberHighlighted(0) || numbersCoveredByStraightUps.has(0)) ? 'relative' : ''
-                        }`}
-                        style={
-                          (isNumberHighlighted(0) || numbersCoveredByStraightUps.has(0))
-                            ? {
-                                ...(numbersCoveredByStraightUps.has(0) ? chipOutlineStyle : {}),
-                                ...(isNumberHighlighted(0) ? sharedHighlightStyle : {}),
-                              }
-                            : undefined
-                        }
-                    >
-                        0
-                    </div>
-                    <div
-                        onClick={(event) => handleBetClick(doubleZeroPlacement, event)}
-                        onMouseEnter={() => setHoveredHotspot(doubleZeroPlacement)}
-                        onMouseLeave={() => setHoveredHotspot(null)}
-                        onDragOver={(event) => handleDragOver(event, doubleZeroPlacement)}
-                        onDragLeave={(event) => handleDragLeave(event, doubleZeroPlacement)}
-                        onDrop={(event) => handleDropOnPlacement(event, doubleZeroPlacement)}
-                        className={`flex items-center justify-center cursor-pointer transition-colors ${getNumberColor(-1)} ${
-                          (isNumberHighlighted(-1) || numbersCoveredByStraightUps.has(-1)) ? 'relative' : ''
-                        }`}
-                        style={
-                          (isNumberHighlighted(-1) || numbersCoveredByStraightUps.has(-1))
-                            ? {
-                                ...(numbersCoveredByStraightUps.has(-1) ? chipOutlineStyle : {}),
-                                ...(isNumberHighlighted(-1) ? sharedHighlightStyle : {}),
-                              }
-                            : undefined
-                        }
-                    >
-                        00
-                    </div>
+                {/* Zero column: 0 / 0,00 / 0,00,000 depending on wheel */}
+                <div className={`col-start-1 row-start-1 row-span-3 grid ${ZERO_GRID_ROWS[zeroPlacements.length]} gap-px bg-green-900`}>
+                    {zeroPlacements.map(placement => {
+                        const value = placement.numbers[0];
+                        const isMarked = isNumberHighlighted(value) || numbersCoveredByStraightUps.has(value);
+                        return (
+                            <div
+                                key={value}
+                                onClick={(event) => handleBetClick(placement, event)}
+                                onMouseEnter={() => setHoveredHotspot(placement)}
+                                onMouseLeave={() => setHoveredHotspot(null)}
+                                onDragOver={(event) => handleDragOver(event, placement)}
+                                onDragLeave={(event) => handleDragLeave(event, placement)}
+                                onDrop={(event) => handleDropOnPlacement(event, placement)}
+                                className={`flex items-center justify-center cursor-pointer transition-colors ${getNumberColor(value)} ${
+                                  isMarked ? 'relative' : ''
+                                }`}
+                                style={
+                                  isMarked
+                                    ? {
+                                        ...(numbersCoveredByStraightUps.has(value) ? chipOutlineStyle : {}),
+                                        ...(isNumberHighlighted(value) ? sharedHighlightStyle : {}),
+                                      }
+                                    : undefined
+                                }
+                            >
+                                {placement.displayName}
+                            </div>
+                        );
+                    })}
                 </div>
 
                 {/* Number Grid */}
                 {numberRows.map((row, rowIndex) =>
                     row.map((num, colIndex) => {
-                        const def = BET_DEFINITIONS.find(b => b.type === BetType.STRAIGHT_UP && b.numbers[0] === num)!;
+                        const def = betDefinitions.find(b => b.type === BetType.STRAIGHT_UP && b.numbers[0] === num)!;
                         const isHighlighted = isNumberHighlighted(num);
                         return (
                             <div
@@ -769,7 +836,7 @@ const RouletteTable: React.FC<RouletteTableProps> = ({
 
                 {/* Column Bets */}
                 {[BetType.COLUMN_3RD, BetType.COLUMN_2ND, BetType.COLUMN_1ST].map((type, rowIndex) => {
-                    const def = BET_DEFINITIONS.find(b => b.type === type)!;
+                    const def = betDefinitions.find(b => b.type === type)!;
                     const isHighlighted = isOutsideBetHighlighted(def.type, def.numbers);
                     const hasChip = placementIdsWithChips.has(getPlacementIdentifier(def));
                     return (
@@ -798,7 +865,7 @@ const RouletteTable: React.FC<RouletteTableProps> = ({
 
                 {/* Dozen Bets */}
                 {[BetType.DOZEN_1ST, BetType.DOZEN_2ND, BetType.DOZEN_3RD].map((type, i) => {
-                    const def = BET_DEFINITIONS.find(b => b.type === type)!;
+                    const def = betDefinitions.find(b => b.type === type)!;
                     const isHighlighted = isOutsideBetHighlighted(def.type, def.numbers);
                     return (
                       <div
@@ -819,7 +886,7 @@ const RouletteTable: React.FC<RouletteTableProps> = ({
 
                 {/* Outside Bets */}
                 {[BetType.LOW_1_18, BetType.EVEN, BetType.RED, BetType.BLACK, BetType.ODD, BetType.HIGH_19_36].map((type, i) => {
-                    const def = BET_DEFINITIONS.find(b => b.type === type)!;
+                    const def = betDefinitions.find(b => b.type === type)!;
                     const color = type === BetType.RED ? getNumberColor(1) : type === BetType.BLACK ? getNumberColor(2) : 'bg-green-700 hover:bg-green-600';
                     const isHighlighted = isOutsideBetHighlighted(def.type, def.numbers);
                     const hasChip = placementIdsWithChips.has(getPlacementIdentifier(def));
@@ -851,7 +918,7 @@ const RouletteTable: React.FC<RouletteTableProps> = ({
             
             {/* Interaction Layer for complex bets */}
             <div className="absolute top-0 left-0 w-full h-full pointer-events-none z-10">
-                {BET_DEFINITIONS.filter(def => def.hotspot && def.type !== BetType.STRAIGHT_UP).map(def => {
+                {betDefinitions.filter(def => def.hotspot && def.type !== BetType.STRAIGHT_UP).map(def => {
                     const hotspot = def.hotspot!;
                     const placementId = getPlacementIdentifier(def);
                     const isHighlighted = placementId === highlightedPlacementId;
@@ -895,7 +962,7 @@ const RouletteTable: React.FC<RouletteTableProps> = ({
             {/* Highlight overlays for dozens (visual only, no pointer capture) */}
             <div className="absolute top-0 left-0 w-full h-full pointer-events-none z-[9]">
               {DOZEN_OVERLAY_CONFIG.map(config => {
-                const def = BET_DEFINITIONS.find(b => b.type === config.type)!;
+                const def = betDefinitions.find(b => b.type === config.type)!;
                 const isHighlighted = isOutsideBetHighlighted(def.type, def.numbers);
                 const hasChip = placementIdsWithChips.has(getPlacementIdentifier(def));
                 const baseStyle = {
@@ -927,7 +994,7 @@ const RouletteTable: React.FC<RouletteTableProps> = ({
             
             {/* Trigger Highlight Overlays */}
             {triggerMode &&
-              BET_DEFINITIONS.map((def, idx) => {
+              betDefinitions.map((def, idx) => {
                 const placement: BetPlacement = { type: def.type, numbers: def.numbers, displayName: def.displayName };
                 // Only allow straight numbers and outside bets in trigger mode
                 if (!TRIGGER_ALLOWED_TYPES.has(placement.type)) return null;
@@ -1,18 +1,28 @@
 
 import React, { useMemo } from 'react';
-import { BatchSession } from '../core/types';
-import { X, Trash2, Calendar, TrendingUp, DollarSign, ArrowRight, Play, History, CheckCircle2, Clock } from 'lucide-react';
+import { BatchMeta, BatchRunDetails, TerminationReason } from '../core/types';
+import { TERMINATION_LABELS } from '../core/constants';
+import { StorageUsage, formatBytes } from '../services/storage';
+import { X, Trash2, Calendar, TrendingUp, DollarSign, ArrowRight, Play, History, CheckCircle2, Clock, RotateCcw, HardDrive, Loader2 } from 'lucide-react';
 
 interface SimulationHistoryProps {
   isOpen: boolean;
   onClose: () => void;
-  batches: BatchSession[];
+  batches: BatchMeta[];
   activeBatchId: string | null;
+  activeBatchRuns?: BatchRunDetails | null; // Loaded lazily; null while loading
+  storageUsage?: StorageUsage | null;
   onSelectBatch: (id: string) => void;
   onDeleteBatch: (id: string) => void;
   onClearHistory: () => void;
+  onReplayBatch?: (batch: BatchMeta) => void;
+  canReplay?: boolean;
 }
 
+const MAX_DRAWN_CURVES = 50;
+const CURVE_WIDTH = 400;
+const CURVE_HEIGHT = 100;
+
 const SimulationHistory: React.FC<SimulationHistoryProps> = ({
   isOpen,
   onClose,
@@ -20,7 +30,11 @@ const SimulationHistory: React.FC<SimulationHistoryProps> = ({
   activeBatchId,
   onSelectBatch,
   onDeleteBatch,
-  onClearHistory
+  onClearHistory,
+  onReplayBatch,
+  canReplay = true,
+  activeBatchRuns,
+  storageUsage
 }) => {
   // Sort batches by timestamp descending (newest first)
   const sortedBatches = useMemo(() => {
@@ -29,6 +43,23 @@ const SimulationHistory: React.FC<SimulationHistoryProps> = ({
 
   const activeBatch = batches.find(b => b.id === activeBatchId);
 
+  // Curves recorded with the batch (capped so huge batches stay cheap to draw)
+  const equityCurves = useMemo(() => {
+    return (activeBatchRuns?.runSummaries || [])
+      .filter(r => r.equityCurve && r.equityCurve.length > 0)
+      .slice(0, MAX_DRAWN_CURVES)
+      .map(r => r.equityCurve as number[]);
+  }, [activeBatchRuns]);
+
+  const curveScale = useMemo(() => {
+    const all = equityCurves.flat();
+    const start = activeBatch?.settings.startingBankroll || 0;
+    const min = Math.min(start, ...all);
+    const max = Math.max(start, ...all);
+    const range = max - min || 1;
+    return { toY: (v: number) => CURVE_HEIGHT - ((v - min) / range) * CURVE_HEIGHT };
+  }, [equityCurves, activeBatch]);
+
   if (!isOpen) return null;
 
   return (
@@ -49,6 +80,16 @@ const SimulationHistory: React.FC<SimulationHistoryProps> = ({
             </div>
           </div>
           <div className="flex items-center gap-3">
+            {storageUsage && storageUsage.quota > 0 && (
+                <div className="flex items-center gap-2 px-2" title="Browser storage used by saved strategies, layouts and batches">
+                    <HardDrive size={14} className="text-slate-500" />
+                    <div className="w-20 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                        <div className={`h-full ${storageUsage.usage / storageUsage.quota > 0.9 ? 'bg-red-500' : 'bg-indigo-500'}`}
+                             style={{ width: `${Math.min(100, (storageUsage.usage / storageUsage.quota) * 100)}%` }} />
+                    </div>
+                    <span className="text-[10px] font-mono text-slate-400">{formatBytes(storageUsage.usage)} / {formatBytes(storageUsage.quota)}</span>
+                </div>
+            )}
             {batches.length > 0 && (
                 <button 
                     onClick={() => { if(window.confirm("Clear all history?")) onClearHistory(); }}
@@ -162,10 +203,10 @@ const SimulationHistory: React.FC<SimulationHistoryProps> = ({
                                <div className="absolute top-0 right-0 p-3 opacity-10 group-hover:opacity-20 transition-opacity">
                                   <TrendingUp size={40} />
                               </div>
-                              <div className="text-xs text-slate-500 uppercase font-bold tracking-wider mb-1">Win Rate</div>
+                              <div className="text-xs text-slate-500 uppercase font-bold tracking-wider mb-1">Profitable Runs</div>
                               <div className="text-2xl font-mono font-bold text-white">
                                   {activeBatch.stats.totalSimulations > 0 
-                                    ? ((activeBatch.stats.wins / activeBatch.stats.totalSimulations) * 100).toFixed(1) 
+                                    ? ((activeBatch.stats.profitableRuns / activeBatch.stats.totalSimulations) * 100).toFixed(1) 
                                     : 0}%
                               </div>
                           </div>
@@ -200,6 +241,14 @@ const SimulationHistory: React.FC<SimulationHistoryProps> = ({
                                       <span className="text-slate-500">Worst Run</span>
                                       <span className="font-mono text-red-400">${activeBatch.stats.worstRun}</span>
                                   </div>
+                                  <div className="flex justify-between">
+                                      <span className="text-slate-500">Avg. Peak</span>
+                                      <span className="font-mono text-emerald-300">${activeBatch.stats.avgPeakBankroll.toFixed(0)}</span>
+                                  </div>
+                                  <div className="flex justify-between">
+                                      <span className="text-slate-500">Seed</span>
+                                      <span className="font-mono text-cyan-300" title={activeBatch.seed === undefined ? 'Not recorded: saved by an older version' : undefined}>{activeBatch.seed ?? 'none'}</span>
+                                  </div>
                               </div>
                               <div className="p-4 space-y-3">
                                   <div className="flex justify-between">
@@ -211,13 +260,71 @@ const SimulationHistory: React.FC<SimulationHistoryProps> = ({
                                       <span className="font-mono text-white">${activeBatch.stats.avgFinalBankroll.toFixed(0)}</span>
                                   </div>
                                   <div className="flex justify-between">
-                                      <span className="text-slate-500">Wins / Losses</span>
-                                      <span className="font-mono text-slate-300">{activeBatch.stats.wins} / {activeBatch.stats.losses}</span>
+                                      <span className="text-slate-500">Avg. Spins</span>
+                                      <span className="font-mono text-slate-300">{activeBatch.stats.avgSpinsToFinish.toFixed(0)}</span>
+                                  </div>
+                                  <div className="flex justify-between">
+                                      <span className="text-slate-500">Avg. / Worst Drawdown</span>
+                                      <span className="font-mono text-red-400">${activeBatch.stats.avgMaxDrawdown.toFixed(0)} / ${activeBatch.stats.worstDrawdown.toFixed(0)}</span>
+                                  </div>
+                                  <div className="flex justify-between">
+                                      <span className="text-slate-500">Detail Kept</span>
+                                      <span className="font-mono text-slate-300">
+                                          {activeBatch.retention === 'SUMMARY'
+                                            ? `${activeBatch.keptRuns} of ${activeBatch.stats.totalSimulations} runs`
+                                            : 'All runs'}
+                                      </span>
                                   </div>
                               </div>
                           </div>
                       </div>
 
+                      {!activeBatchRuns && (
+                          <div className="flex items-center gap-2 text-xs text-slate-500">
+                              <Loader2 size={14} className="animate-spin" /> Loading run details...
+                          </div>
+                      )}
+
+                      {/* Downsampled equity curves */}
+                      {equityCurves.length > 0 && (
+                          <div className="bg-slate-900 rounded-xl border border-slate-800 overflow-hidden">
+                              <div className="px-4 py-3 border-b border-slate-800 bg-slate-900/50 text-xs font-bold text-slate-400 uppercase tracking-wider flex justify-between">
+                                  <span>Equity Curves</span>
+                                  <span className="text-slate-600 normal-case font-mono">{equityCurves.length} of {activeBatch.stats.totalSimulations} runs</span>
+                              </div>
+                              <svg viewBox={`0 0 ${CURVE_WIDTH} ${CURVE_HEIGHT}`} preserveAspectRatio="none" className="w-full h-32 p-2">
+                                  <line x1={0} x2={CURVE_WIDTH} y1={curveScale.toY(activeBatch.settings.startingBankroll)} y2={curveScale.toY(activeBatch.settings.startingBankroll)} stroke="#475569" strokeDasharray="4 4" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+                                  {equityCurves.map((curve, idx) => (
+                                      <polyline key={idx} fill="none" strokeWidth={1} vectorEffect="non-scaling-stroke"
+                                          stroke={curve[curve.length - 1] >= activeBatch.settings.startingBankroll ? '#10b981' : '#ef4444'} strokeOpacity={0.5}
+                                          points={curve.map((v, i) => `${curve.length > 1 ? (i / (curve.length - 1)) * CURVE_WIDTH : 0},${curveScale.toY(v)}`).join(' ')}
+                                      />
+                                  ))}
+                              </svg>
+                          </div>
+                      )}
+
+                      {/* Why sessions ended */}
+                      <div className="bg-slate-900 rounded-xl border border-slate-800 overflow-hidden">
+                          <div className="px-4 py-3 border-b border-slate-800 bg-slate-900/50 text-xs font-bold text-slate-400 uppercase tracking-wider">
+                              Session Endings
+                          </div>
+                          <div className="grid grid-cols-5 text-sm divide-x divide-slate-800">
+                              {(Object.keys(TERMINATION_LABELS) as TerminationReason[]).map(reason => {
+                                  const count = activeBatch.stats.terminations[reason] || 0;
+                                  return (
+                                      <div key={reason} className="p-3 text-center">
+                                          <div className="text-[10px] text-slate-500 uppercase font-bold">{TERMINATION_LABELS[reason]}</div>
+                                          <div className={`font-mono font-bold ${count > 0 ? 'text-white' : 'text-slate-600'}`}>{count}</div>
+                                          <div className="text-[10px] font-mono text-slate-600">
+                                              {activeBatch.stats.totalSimulations > 0 ? ((count / activeBatch.stats.totalSimulations) * 100).toFixed(0) : 0}%
+                                          </div>
+                                      </div>
+                                  );
+                              })}
+                          </div>
+                      </div>
+
                       {/* Action Bar */}
                       <div className="flex items-center gap-3 pt-4 border-t border-slate-800/50">
                           <button 
@@ -229,6 +336,18 @@ const SimulationHistory: React.FC<SimulationHistoryProps> = ({
                               <ArrowRight size={16} className="group-hover:translate-x-1 transition-transform" />
                           </button>
                           
+                          {onReplayBatch && (
+                              <button 
+                                  onClick={() => onReplayBatch(activeBatch)}
+                                  disabled={!canReplay || activeBatch.seed === undefined}
+                                  className="px-4 py-3 bg-slate-800 hover:bg-cyan-900/30 text-slate-300 hover:text-cyan-300 border border-slate-700 hover:border-cyan-500/30 rounded-xl transition-all font-bold flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+                                  title={activeBatch.seed === undefined ? "Saved before seeds were recorded, so this batch cannot be replayed"
+                                      : activeBatch.lanes ? "Replay with the same seed, settings and lanes" : "Replay with the same seed and settings (current lanes)"}
+                              >
+                                  <RotateCcw size={18} /> Replay
+                              </button>
+                          )}
+
                           <button 
                               onClick={() => onDeleteBatch(activeBatch.id)}
                               className="px-4 py-3 bg-slate-800 hover:bg-red-900/30 text-slate-400 hover:text-red-400 border border-slate-700 hover:border-red-500/30 rounded-xl transition-all font-bold flex items-center gap-2"
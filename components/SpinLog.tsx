@@ -1,9 +1,16 @@
 
 import React, { useState, useMemo } from 'react';
-import { SimulationStep, Lane } from '../core/types';
+import { SimulationStep, Lane, ZeroRuleOutcome } from '../core/types';
 import { getNumberColor } from '../core/constants';
 import { History, Maximize2, Minimize2, Download, ArrowLeft, CornerDownRight, AlertTriangle, Calculator, TrendingUp, PieChart, Wallet } from 'lucide-react';
 
+const ZERO_RULE_OUTCOME_LABELS: Record<ZeroRuleOutcome, string> = {
+  HALF_RETURNED: 'Half returned',
+  IMPRISONED: 'Imprisoned',
+  RELEASED: 'Released',
+  FORFEITED: 'Forfeited',
+};
+
 interface SpinLogProps {
   history: SimulationStep[];
   lanes: Lane[];
@@ -30,7 +37,7 @@ const SpinLog: React.FC<SpinLogProps> = ({ history, lanes, activeLaneId, classNa
   const handleExportCSV = () => {
       if (history.length === 0) return;
 
-      let headers = ['Spin', 'Number', 'Result_Color', 'Lane', 'Progression', 'Wager', 'Lane_PL', 'Lane_Balance_After', 'Global_Balance_After'];
+      let headers = ['Spin', 'Number', 'Result_Color', 'Lane', 'Progression', 'Wager', 'Lane_PL', 'Lane_Balance_After', 'Global_Balance_After', 'Lane_Imprisoned', 'Virtual_Wager', 'Virtual_PL'];
       let filename = `roulette_sim_detailed_${Date.now()}`;
 
       // Flat map so each lane gets a row
@@ -41,7 +48,7 @@ const SpinLog: React.FC<SpinLogProps> = ({ history, lanes, activeLaneId, classNa
               // Fallback for empty/bankruptcy rows
               const reason = step.activeTriggers?.join(' | ') || step.betDescriptions?.join(' | ') || 'BLOCKED';
               rows.push([
-                  step.spinIndex, step.result.display, step.result.color, 'GLOBAL', `"${reason}"`, step.betAmount, step.outcome, step.bankroll, step.bankroll
+                  step.spinIndex, step.result.display, step.result.color, 'GLOBAL', `"${reason}"`, step.betAmount, step.outcome, step.bankroll, step.bankroll, 0, 0, 0
               ].join(','));
           } else {
               step.laneDetails.forEach(d => {
@@ -50,11 +57,14 @@ const SpinLog: React.FC<SpinLogProps> = ({ history, lanes, activeLaneId, classNa
                       step.result.display,
                       step.result.color,
                       d.laneName,
-                      `"${d.progressionLabel}"`,
+                      `"${d.resetReason ? `${d.progressionLabel} (reset: ${d.resetReason})` : d.progressionLabel}"`,
                       d.wager,
                       d.profit,
                       d.balanceAfter,
-                      step.bankroll
+                      step.bankroll,
+                      d.imprisonedAmount || 0,
+                      d.virtualWager || 0,
+                      d.virtualProfit || 0
                   ].join(','));
               });
           }
@@ -131,7 +141,9 @@ const SpinLog: React.FC<SpinLogProps> = ({ history, lanes, activeLaneId, classNa
           const plSign = d.profit > 0 ? '+' : ''; 
           
           let meta = '';
-          if (d.wasReset) {
+          if (d.resetReason) {
+              meta = `(reset: ${d.resetReason})`;
+          } else if (d.wasReset) {
               meta = '(reset)';
           } else if (d.progressionLabel) {
              meta = `(${d.progressionLabel})`;
@@ -149,10 +161,20 @@ const SpinLog: React.FC<SpinLogProps> = ({ history, lanes, activeLaneId, classNa
                       {plSign}{d.profit}
                   </span>
                   {meta && (
-                      <span className={`ml-0.5 text-[9px] ${d.wasReset ? 'text-purple-400 font-bold uppercase' : 'text-slate-500'}`}>
+                      <span className={`ml-0.5 text-[9px] ${d.wasReset || d.resetReason ? 'text-purple-400 font-bold uppercase' : 'text-slate-500'}`}>
                           {meta}
                       </span>
                   )}
+                  {!!d.imprisonedAmount && (
+                      <span className="ml-0.5 text-[9px] text-amber-400 font-bold" title="Held in prison">
+                          [P${d.imprisonedAmount}]
+                      </span>
+                  )}
+                  {d.virtualWager !== undefined && (
+                      <span className="ml-0.5 text-[9px] text-cyan-400 font-bold" title="Virtual (shadow) result, no money moved">
+                          [V{d.virtualProfit! > 0 ? '+' : ''}{d.virtualProfit}]
+                      </span>
+                  )}
                   {i < step.laneDetails.length - 1 && <span className="mx-1.5 text-slate-600">/</span>}
               </span>
           );
@@ -317,7 +339,8 @@ const SpinLog: React.FC<SpinLogProps> = ({ history, lanes, activeLaneId, classNa
                                                         </thead>
                                                         <tbody className="divide-y divide-slate-800/50">
                                                             {step.laneDetails.map((detail, dIdx) => {
-                                                                const isWin = detail.profit >= 0;
+                                                                // The progression's own verdict when recorded; older logs fall back to the P/L sign
+                                                                const outcome = detail.outcome || (detail.profit > 0 ? 'WIN' : detail.profit < 0 ? 'LOSS' : 'PUSH');
                                                                 const statusColor = detail.profit > 0 ? 'text-emerald-400' : detail.profit < 0 ? 'text-red-400' : 'text-slate-500';
                                                                 const laneColor = lanes.find(l => l.id === detail.laneId)?.color || '#64748b';
                                                                 
@@ -330,13 +353,17 @@ const SpinLog: React.FC<SpinLogProps> = ({ history, lanes, activeLaneId, classNa
                                                                         <td className="px-3 py-2 text-[10px] font-mono text-slate-400">
                                                                             {detail.progressionLabel}
                                                                             {detail.wasReset && <span className="ml-2 text-purple-400 font-bold text-[9px] px-1 py-0.5 bg-purple-900/30 rounded border border-purple-500/20">RESET</span>}
+                                                                            {detail.scriptError && <span className="ml-2 text-red-300 font-bold text-[9px] px-1 py-0.5 bg-red-900/30 rounded border border-red-500/20" title={detail.scriptError}>SCRIPT ERROR: {detail.scriptError}</span>}
+                                                                            {detail.resetReason && <span className="ml-2 text-purple-300 font-bold text-[9px] px-1 py-0.5 bg-purple-900/30 rounded border border-purple-500/20" title="Reset condition that fired before this spin">RESET: {detail.resetReason}</span>}
+                                                                            {!!detail.imprisonedAmount && <span className="ml-2 text-amber-400 font-bold text-[9px] px-1 py-0.5 bg-amber-900/30 rounded border border-amber-500/20">IN PRISON ${detail.imprisonedAmount}</span>}
+                                                                            {detail.virtualWager !== undefined && <span className="ml-2 text-cyan-300 font-bold text-[9px] px-1 py-0.5 bg-cyan-900/30 rounded border border-cyan-500/20" title="Shadow spin: played for the progression only">VIRTUAL ${detail.virtualWager} ({detail.virtualProfit! > 0 ? '+' : ''}{detail.virtualProfit})</span>}
                                                                         </td>
                                                                         <td className="px-3 py-2 text-right text-xs font-mono text-slate-300">
                                                                             ${detail.wager}
                                                                         </td>
                                                                         <td className="px-3 py-2 text-center">
-                                                                            <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${isWin ? (detail.profit === 0 ? 'bg-slate-700 text-slate-300' : 'bg-emerald-900/30 text-emerald-400 border border-emerald-500/20') : 'bg-red-900/30 text-red-400 border border-red-500/20'}`}>
-                                                                                {detail.profit > 0 ? 'WIN' : detail.profit < 0 ? 'LOSS' : 'PUSH'}
+                                                                            <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${outcome === 'PUSH' || outcome === 'NO_BET' ? 'bg-slate-700 text-slate-300' : outcome === 'WIN' ? 'bg-emerald-900/30 text-emerald-400 border border-emerald-500/20' : 'bg-red-900/30 text-red-400 border border-red-500/20'}`}>
+                                                                                {outcome === 'NO_BET' ? 'NO BET' : outcome}
                                                                             </span>
                                                                         </td>
                                                                         <td className={`px-3 py-2 text-right text-xs font-mono font-bold ${statusColor}`}>
@@ -351,6 +378,17 @@ const SpinLog: React.FC<SpinLogProps> = ({ history, lanes, activeLaneId, classNa
                                                         </tbody>
                                                     </table>
                                                 </div>
+                                                {/* Zero-rule bets (La Partage / En Prison / Surrender) */}
+                                                {(step.bets || []).some(b => b.zeroRuleOutcome) && (
+                                                    <div className="px-3 py-2 border-t border-slate-800/50 flex flex-wrap gap-2">
+                                                        {(step.bets || []).filter(b => b.zeroRuleOutcome).map((b, bIdx) => (
+                                                            <span key={bIdx} className="text-[9px] font-mono px-1.5 py-0.5 rounded bg-amber-900/20 text-amber-300 border border-amber-500/20">
+                                                                {b.laneName} · {b.placement.displayName} ${b.amount} · {ZERO_RULE_OUTCOME_LABELS[b.zeroRuleOutcome!]}
+                                                                {b.payout > 0 && ` (+$${b.payout} back)`}
+                                                            </span>
+                                                        ))}
+                                                    </div>
+                                                )}
                                             </div>
                                         </td>
                                     </tr>
@@ -433,7 +471,7 @@ const SpinLog: React.FC<SpinLogProps> = ({ history, lanes, activeLaneId, classNa
                           {Object.keys(stats.laneProfits).length === 0 ? (
                               <span className="text-[10px] text-slate-600 italic">No lanes active</span>
                           ) : (
-                              Object.entries(stats.laneProfits).map(([id, profit]) => {
+                              Object.entries<number>(stats.laneProfits).map(([id, profit]) => {
                                   const lane = lanes.find(l => l.id === id);
                                   const label = lane ? lane.name : id;
                                   const match = label.match(/Lane (\d+)/);
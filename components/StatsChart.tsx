@@ -26,6 +26,8 @@ interface StatsChartProps {
   onPause?: () => void;
   onResume?: () => void;
   onStop?: () => void;
+  // Runs finished so far when a batch is running in the worker pool
+  batchProgress?: { completed: number; total: number } | null;
   
   speed?: SimulationSpeed;
   onSpeedChange?: (speed: SimulationSpeed) => void;
@@ -69,6 +71,7 @@ const StatsChart: React.FC<StatsChartProps> = ({
   onPause,
   onResume,
   onStop,
+  batchProgress,
   speed = 'FAST',
   onSpeedChange,
   isFullScreen: propIsFullScreen, 
@@ -331,6 +334,20 @@ const StatsChart: React.FC<StatsChartProps> = ({
   };
 
   // --- BATCH LIST RENDERER (Shared) ---
+  // Parallel batch progress (sessions completed / total)
+  const renderBatchProgress = () => {
+      if (!batchProgress || simStatus === 'IDLE') return null;
+      const pct = batchProgress.total > 0 ? (batchProgress.completed / batchProgress.total) * 100 : 0;
+      return (
+          <div className="flex items-center gap-2 px-2 py-1 bg-slate-800/80 border border-slate-600 rounded backdrop-blur" title="Sessions completed">
+              <div className="w-20 h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500 transition-all" style={{ width: `${pct}%` }} />
+              </div>
+              <span className="text-[10px] font-mono font-bold text-slate-300">{batchProgress.completed}/{batchProgress.total}</span>
+          </div>
+      );
+  };
+
   const renderBatchList = () => (
       <div className="absolute top-full left-0 mt-2 w-72 bg-slate-900 border border-slate-700 rounded-lg shadow-xl z-50 overflow-hidden flex flex-col max-h-[300px] animate-in slide-in-from-top-2">
            <div className="px-3 py-2 bg-slate-950 border-b border-slate-800 text-[10px] font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
@@ -449,6 +466,7 @@ const StatsChart: React.FC<StatsChartProps> = ({
              
              {/* Controls Group */}
              <div className="flex items-center gap-2 pointer-events-auto">
+                 {renderBatchProgress()}
                  {/* Run/Stop Button */}
                  {onRunSimulation && (
                      <button 
@@ -719,6 +737,7 @@ const StatsChart: React.FC<StatsChartProps> = ({
 
          {/* Right Actions */}
          <div className="flex items-center gap-3 ml-auto flex-shrink-0">
+             {renderBatchProgress()}
              {onRunSimulation && (
                  <button onClick={() => { if(simStatus === 'RUNNING' && onStop) onStop(); else onRunSimulation(); }} 
                     className={`flex items-center gap-2 px-4 sm:px-6 py-2 ${simStatus === 'RUNNING' ? 'bg-red-600 hover:bg-red-500' : 'bg-emerald-600 hover:bg-emerald-500'} text-white text-xs font-bold rounded shadow-lg transition-all`}>
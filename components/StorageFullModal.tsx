@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { X, HardDrive, Trash2, AlertOctagon } from 'lucide-react';
+import { BatchMeta } from '../core/types';
+import { StorageUsage, formatBytes } from '../services/storage';
+
+interface StorageFullModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  usage: StorageUsage | null;
+  batches: BatchMeta[]; // Saved batches, oldest first
+  pendingLabel?: string; // Batch that failed to save, if any
+  onPrune: (count: number) => void;
+}
+
+const StorageFullModal: React.FC<StorageFullModalProps> = ({ isOpen, onClose, usage, batches, pendingLabel, onPrune }) => {
+  const [pruneCount, setPruneCount] = useState(1);
+
+  // Suggest clearing half of the archive each time the prompt opens
+  useEffect(() => {
+    if (isOpen) setPruneCount(Math.max(1, Math.ceil(batches.length / 2)));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const toPrune = batches.slice(0, pruneCount);
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-red-900/50 rounded-2xl shadow-2xl w-full max-w-md flex flex-col">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-slate-800 bg-slate-900/50">
+          <div className="flex items-center gap-3">
+             <div className="p-2 bg-red-500/10 rounded-lg">
+                <HardDrive size={18} className="text-red-400" />
+             </div>
+             <div>
+                <h2 className="text-lg font-bold text-white leading-none">Storage Full</h2>
+                {usage && (
+                    <span className="text-[10px] text-slate-500 font-mono">{formatBytes(usage.usage)} of {formatBytes(usage.quota)} used</span>
+                )}
+             </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+            <div className="flex gap-3 p-3 bg-red-950/30 border border-red-900/40 rounded-lg text-xs text-red-200">
+                <AlertOctagon size={16} className="shrink-0 text-red-400" />
+                <span>
+                    {pendingLabel
+                        ? <><b>{pendingLabel}</b> could not be saved. It stays available until you reload the page.</>
+                        : 'Your latest changes could not be saved.'}
+                    {' '}Delete old batches to free up space.
+                </span>
+            </div>
+
+            {batches.length > 0 ? (
+                <>
+                    <div className="flex items-center justify-between gap-3">
+                        <span className="text-xs text-slate-400">Delete the oldest</span>
+                        <input type="number" min={1} max={batches.length} value={pruneCount}
+                            onChange={(e) => setPruneCount(Math.min(batches.length, Math.max(1, parseInt(e.target.value) || 1)))}
+                            className="w-16 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-white text-xs font-mono text-right focus:border-red-500 outline-none"
+                        />
+                        <span className="text-xs text-slate-400">of {batches.length} batches</span>
+                    </div>
+                    <div className="max-h-32 overflow-y-auto custom-scrollbar bg-slate-950 border border-slate-800 rounded divide-y divide-slate-800/50">
+                        {toPrune.map(b => (
+                            <div key={b.id} className="flex justify-between px-3 py-1.5 text-[11px]">
+                                <span className="text-slate-300 truncate">{b.label || 'Untitled Run'}</span>
+                                <span className="text-slate-500 font-mono shrink-0">{new Date(b.timestamp).toLocaleString()}</span>
+                            </div>
+                        ))}
+                    </div>
+                </>
+            ) : (
+                <p className="text-xs text-slate-500">There are no saved batches to delete. Try Summary Only mode for large batches.</p>
+            )}
+        </div>
+
+        <div className="flex gap-3 p-4 border-t border-slate-800">
+            <button onClick={onClose} className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs font-bold rounded transition-colors">
+                Keep Unsaved
+            </button>
+            {batches.length > 0 && (
+                <button onClick={() => onPrune(pruneCount)} className="flex-1 py-2 bg-red-600 hover:bg-red-500 text-white text-xs font-bold rounded transition-colors flex items-center justify-center gap-2">
+                    <Trash2 size={14} /> Delete & Retry
+                </button>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StorageFullModal;
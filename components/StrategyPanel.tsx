@@ -1,9 +1,12 @@
 
 import React, { useState } from 'react';
-import { ProgressionConfig, ProgressionAction, SimulationSettings, SimulationSpeed, SimulationStatus, TriggerBet, TriggerRule, BetPlacement, Lane, SavedStrategy, SavedLayout } from '../core/types';
-import { Brain, Save, FolderOpen, Plus, Trash2, Zap, Pencil, RotateCw, Layers, FilePlus, ChevronDown, Folder, X, AlertTriangle, Upload, Link2, ArrowRight, CornerDownLeft, FastForward, Play, ArrowDown, Edit3, Download, Workflow } from 'lucide-react';
+import { ProgressionConfig, ProgressionAction, ProgressionSystem, LadderTopAction, BetSizingMode, BetProgression, WinDefinition, ResetCondition, ResetConditionType, LaneRule, LaneRuleCondition, LaneRuleAction, SimulationSettings, SimulationSpeed, SimulationStatus, TriggerBet, TriggerRule, BetPlacement, Bet, Lane, SavedStrategy, SavedLayout, ChainStep } from '../core/types';
+import { Brain, Save, FolderOpen, Plus, Trash2, Zap, Pencil, RotateCw, Layers, FilePlus, ChevronDown, Folder, X, AlertTriangle, Upload, Link2, ArrowRight, CornerDownLeft, FastForward, Play, ArrowDown, Edit3, Download, Workflow, Code } from 'lucide-react';
 import TriggerSetupModal from './TriggerSetupModal';
 import LogicFlowModal from './LogicFlowModal';
+import { PROGRESSION_SYSTEM_LABELS, LADDER_TOP_LABELS, SIZING_MODE_LABELS, WIN_DEFINITION_LABELS, RESET_CONDITION_LABELS, LANE_RULE_CONDITION_LABELS, LANE_RULE_ACTION_LABELS, DEFAULT_LANE_SCRIPT } from '../core/constants';
+import { compileLaneScript } from '../core/script';
+import { describeTriggerCondition, describeTriggerBets, describeTriggerStaking } from '../utils/triggers';
 
 interface StrategyPanelProps {
   // Strategy Management
@@ -42,6 +45,8 @@ interface StrategyPanelProps {
   
   triggerBets: TriggerBet[];
   setTriggerBets: (bets: TriggerBet[] | ((prev: TriggerBet[]) => TriggerBet[])) => void;
+  onUpdateBetProgression?: (betId: string, progression?: BetProgression) => void;
+  onUpdateLaneRules?: (rules: LaneRule[], startsPaused: boolean) => void;
 
   // Layouts for Chain Mode
   savedLayouts?: SavedLayout[]; 
@@ -56,7 +61,7 @@ export const StrategyPanel: React.FC<StrategyPanelProps> = ({
   lanes, activeLaneId, onSelectLane, onAddLane, onDeleteLane, onRenameLane, onToggleLane,
   config, setConfig, settings, setSettings, onSimulate,
   speed, setSpeed, simStatus, onPause, onResume, onStop, onNextSpin,
-  triggerBets, setTriggerBets,
+  triggerBets, setTriggerBets, onUpdateBetProgression, onUpdateLaneRules,
   savedLayouts = [],
   onSaveCurrentLayout,
   children
@@ -84,16 +89,64 @@ export const StrategyPanel: React.FC<StrategyPanelProps> = ({
       if (type === 'win') {
           let newVal = config.onWinValue;
           if (action === ProgressionAction.FIBONACCI && newVal === 0) newVal = 2; 
+          if (action === ProgressionAction.LADDER && newVal === 0) newVal = -1;
           setConfig({ ...config, onWinAction: action, onWinValue: newVal });
       } else {
           let newVal = config.onLossValue;
           if (action === ProgressionAction.FIBONACCI && newVal === 0) newVal = 1; 
+          if (action === ProgressionAction.LADDER && newVal === 0) newVal = 1;
           setConfig({ ...config, onLossAction: action, onLossValue: newVal });
       }
   };
 
   const activeLane = lanes.find(l => l.id === activeLaneId) || lanes[0];
 
+  // Script mode: surface syntax errors while editing
+  let scriptCompileError: string | null = null;
+  if (config.strategyMode === 'SCRIPT') {
+      try {
+          compileLaneScript(config.script || '');
+      } catch (e: any) {
+          scriptCompileError = e.message;
+      }
+  }
+
+  // Lane rules
+  const laneRules = activeLane.rules || [];
+  const handleAddLaneRule = () => {
+      onUpdateLaneRules?.([...laneRules, { id: Date.now().toString(), condition: 'LOSS_STREAK', value: 4, action: 'RESET_PROGRESSION' }], !!activeLane.startsPaused);
+  };
+  const handleUpdateLaneRule = (id: string, changes: Partial<LaneRule>) => {
+      onUpdateLaneRules?.(laneRules.map(r => r.id === id ? { ...r, ...changes } : r), !!activeLane.startsPaused);
+  };
+  const handleRemoveLaneRule = (id: string) => {
+      onUpdateLaneRules?.(laneRules.filter(r => r.id !== id), !!activeLane.startsPaused);
+  };
+
+  // Reset conditions
+  const resetConditions = config.resetConditions || [];
+  const handleAddResetCondition = (type: ResetConditionType) => {
+      const defaults: Record<ResetConditionType, number> = { NEW_PEAK: 0, CYCLE_SPINS: 10, STEP_ABOVE: 5, LANE_DRAWDOWN: 200, BANKROLL_ABOVE: settings.startingBankroll * 1.5, BANKROLL_BELOW: settings.startingBankroll / 2 };
+      setConfig({ ...config, resetConditions: [...resetConditions, { id: Date.now().toString(), type, value: defaults[type] }] });
+  };
+  const handleUpdateResetCondition = (id: string, changes: Partial<ResetCondition>) => {
+      setConfig({ ...config, resetConditions: resetConditions.map(c => c.id === id ? { ...c, ...changes } : c) });
+  };
+  const handleRemoveResetCondition = (id: string) => {
+      setConfig({ ...config, resetConditions: resetConditions.filter(c => c.id !== id) });
+  };
+
+  // Per-bet progression (STATIC layouts)
+  const handleToggleBetProgression = (bet: Bet, enabled: boolean) => {
+      onUpdateBetProgression?.(bet.id, enabled
+          ? { onWinAction: ProgressionAction.RESET, onWinValue: 0, onLossAction: ProgressionAction.MULTIPLY, onLossValue: 2 }
+          : undefined);
+  };
+
+  const handleChangeBetProgression = (bet: Bet, changes: Partial<BetProgression>) => {
+      if (bet.progression) onUpdateBetProgression?.(bet.id, { ...bet.progression, ...changes });
+  };
+
   // Lane renaming
   const handleStartRename = (lane: Lane) => {
       setEditingNameId(lane.id);
@@ -147,6 +200,13 @@ export const StrategyPanel: React.FC<StrategyPanelProps> = ({
     });
   };
 
+  const handleUpdateChainStep = (index: number, changes: Partial<ChainStep>) => {
+    setConfig({
+        ...config,
+        chainSteps: (config.chainSteps || []).map((step, i) => i === index ? { ...step, ...changes } : step)
+    });
+  };
+
   const handleRemoveChainStep = (index: number) => {
     const newSteps = [...(config.chainSteps || [])];
     newSteps.splice(index, 1);
@@ -322,6 +382,7 @@ export const StrategyPanel: React.FC<StrategyPanelProps> = ({
                 <button onClick={() => setConfig({ ...config, strategyMode: 'STATIC' })} disabled={simStatus !== 'IDLE'} className={`flex-1 py-1 text-[10px] font-bold rounded transition-all disabled:opacity-70 ${config.strategyMode === 'STATIC' ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-slate-300'}`}>BOARD LAYOUT</button>
                 <button onClick={() => setConfig({ ...config, strategyMode: 'ROTATING' })} disabled={simStatus !== 'IDLE'} className={`flex-1 flex items-center justify-center gap-1 py-1 text-[10px] font-bold rounded transition-all disabled:opacity-70 ${config.strategyMode === 'ROTATING' ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-slate-300'}`}><RotateCw size={10} />ROTATING</button>
                 <button onClick={() => setConfig({ ...config, strategyMode: 'CHAIN' })} disabled={simStatus !== 'IDLE'} className={`flex-1 flex items-center justify-center gap-1 py-1 text-[10px] font-bold rounded transition-all disabled:opacity-70 ${config.strategyMode === 'CHAIN' ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-slate-300'}`}><Link2 size={10} />CHAIN</button>
+                <button onClick={() => setConfig({ ...config, strategyMode: 'SCRIPT' })} disabled={simStatus !== 'IDLE'} className={`flex-1 flex items-center justify-center gap-1 py-1 text-[10px] font-bold rounded transition-all disabled:opacity-70 ${config.strategyMode === 'SCRIPT' ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-slate-300'}`}><Code size={10} />SCRIPT</button>
             </div>
 
             {hasBaseBets && hasTriggers && config.strategyMode === 'STATIC' && (
@@ -333,35 +394,176 @@ export const StrategyPanel: React.FC<StrategyPanelProps> = ({
 
             {/* STATIC MODE SETTINGS */}
             {config.strategyMode === 'STATIC' && (
-            <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
                 <div className="space-y-1">
-                    <label className="block text-[10px] font-bold text-green-400 uppercase">On Win</label>
-                    <select value={config.onWinAction} onChange={(e) => handleChangeAction('win', e.target.value)} disabled={simStatus !== 'IDLE'} className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50">
-                        <option value={ProgressionAction.RESET}>Reset</option>
-                        <option value={ProgressionAction.MULTIPLY}>Multiply</option>
-                        <option value={ProgressionAction.ADD_UNITS}>Add Unit</option>
-                        <option value={ProgressionAction.SUBTRACT_UNITS}>Sub Unit</option>
-                        <option value={ProgressionAction.FIBONACCI}>Fibonacci</option>
-                        <option value={ProgressionAction.DO_NOTHING}>Flat</option>
+                    <label className="block text-[10px] font-bold text-indigo-400 uppercase">Progression</label>
+                    <select value={config.progressionSystem || 'ACTIONS'} onChange={(e) => setConfig({ ...config, progressionSystem: e.target.value as ProgressionSystem })} disabled={simStatus !== 'IDLE'} className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50">
+                        {(Object.keys(PROGRESSION_SYSTEM_LABELS) as ProgressionSystem[]).map(sys => (
+                            <option key={sys} value={sys}>{PROGRESSION_SYSTEM_LABELS[sys]}</option>
+                        ))}
                     </select>
-                    {config.onWinAction !== ProgressionAction.RESET && config.onWinAction !== ProgressionAction.DO_NOTHING && (
-                        <input type="number" placeholder="Value" value={config.onWinValue} onChange={(e) => setConfig({ ...config, onWinValue: parseFloat(e.target.value) })} disabled={simStatus !== 'IDLE'} className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50"/>
-                    )}
                 </div>
+
+                {config.progressionSystem === 'LABOUCHERE' && (
+                <div className="space-y-2">
+                    <div className="space-y-1">
+                        <label className="block text-[10px] font-bold text-slate-400 uppercase">Line (Units)</label>
+                        <input type="text" value={config.labouchereLine} onChange={(e) => setConfig({ ...config, labouchereLine: e.target.value })} disabled={simStatus !== 'IDLE'} placeholder="1,2,3,4" className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white font-mono disabled:opacity-50"/>
+                        <p className="text-[9px] text-slate-500">Bet first + last &times; layout. Win crosses them off, loss adds the lost units.</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <span className="text-[10px] text-slate-400">Restart if line exceeds</span>
+                        <input type="number" min={1} value={config.labouchereMaxLength} onChange={(e) => setConfig({ ...config, labouchereMaxLength: Number(e.target.value) })} disabled={simStatus !== 'IDLE'} className="w-14 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-xs text-white disabled:opacity-50 font-mono text-center"/>
+                        <span className="text-[10px] text-slate-400">numbers</span>
+                    </div>
+                </div>
+                )}
+
+                {config.progressionSystem === 'OSCARS_GRIND' && (
+                    <p className="text-[9px] text-slate-500">Unit = layout. Aims for +1 unit per cycle: adds a unit after a win, never more than needed to finish the cycle.</p>
+                )}
+
+                {config.progressionSystem === 'PAROLI' && (
                 <div className="space-y-1">
-                    <label className="block text-[10px] font-bold text-red-400 uppercase">On Loss</label>
-                    <select value={config.onLossAction} onChange={(e) => handleChangeAction('loss', e.target.value)} disabled={simStatus !== 'IDLE'} className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50">
+                    <div className="flex items-center gap-2">
+                        <span className="text-[10px] text-slate-400">Double after a win, reset after</span>
+                        <input type="number" min={1} value={config.paroliWins} onChange={(e) => setConfig({ ...config, paroliWins: Number(e.target.value) })} disabled={simStatus !== 'IDLE'} className="w-14 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-xs text-white disabled:opacity-50 font-mono text-center"/>
+                        <span className="text-[10px] text-slate-400">wins</span>
+                    </div>
+                    <p className="text-[9px] text-slate-500">Any loss resets to 1x.</p>
+                </div>
+                )}
+
+                {config.progressionSystem === 'ONE_THREE_TWO_SIX' && (
+                    <p className="text-[9px] text-slate-500">Bets 1, 3, 2, 6 &times; layout on consecutive wins. Resets after the fourth win or any loss.</p>
+                )}
+
+                {config.progressionSystem === 'RECOVERY' && (
+                <div className="space-y-1">
+                    <div className="grid grid-cols-2 gap-2">
+                        <div className="space-y-0.5">
+                            <label className="block text-[9px] font-bold text-emerald-400 uppercase">Target ($)</label>
+                            <input type="number" min={1} value={config.recoveryTarget} onChange={(e) => setConfig({ ...config, recoveryTarget: Number(e.target.value) })} disabled={simStatus !== 'IDLE'} className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50"/>
+                        </div>
+                        <div className="space-y-0.5">
+                            <label className="block text-[9px] font-bold text-red-400 uppercase">Give Up After (Losses)</label>
+                            <input type="number" min={0} value={config.recoveryMaxLosses} onChange={(e) => setConfig({ ...config, recoveryMaxLosses: Number(e.target.value) })} disabled={simStatus !== 'IDLE'} className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50"/>
+                        </div>
+                    </div>
+                    <p className="text-[9px] text-slate-500">Scales the layout so any winning number recovers the cycle's losses plus the target. Also gives up when the bet would pass the table max or bankroll. 0 losses = never give up.</p>
+                </div>
+                )}
+
+                {(config.progressionSystem || 'ACTIONS') === 'ACTIONS' && (
+                <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                        <label className="block text-[10px] font-bold text-green-400 uppercase">On Win</label>
+                        <select value={config.onWinAction} onChange={(e) => handleChangeAction('win', e.target.value)} disabled={simStatus !== 'IDLE'} className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50">
+                            <option value={ProgressionAction.RESET}>Reset</option>
+                            <option value={ProgressionAction.MULTIPLY}>Multiply</option>
+                            <option value={ProgressionAction.ADD_UNITS}>Add Unit</option>
+                            <option value={ProgressionAction.SUBTRACT_UNITS}>Sub Unit</option>
+                            <option value={ProgressionAction.FIBONACCI}>Fibonacci</option>
+                            <option value={ProgressionAction.LADDER}>Ladder</option>
+                            <option value={ProgressionAction.DO_NOTHING}>Flat</option>
+                        </select>
+                        {config.onWinAction !== ProgressionAction.RESET && config.onWinAction !== ProgressionAction.DO_NOTHING && (
+                            <input type="number" placeholder="Value" title={config.onWinAction === ProgressionAction.LADDER ? 'Rungs to move (+ up, - down)' : undefined} value={config.onWinValue} onChange={(e) => setConfig({ ...config, onWinValue: parseFloat(e.target.value) })} disabled={simStatus !== 'IDLE'} className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50"/>
+                        )}
+                    </div>
+                    <div className="space-y-1">
+                        <label className="block text-[10px] font-bold text-red-400 uppercase">On Loss</label>
+                        <select value={config.onLossAction} onChange={(e) => handleChangeAction('loss', e.target.value)} disabled={simStatus !== 'IDLE'} className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50">
+                            <option value={ProgressionAction.RESET}>Reset</option>
+                            <option value={ProgressionAction.MULTIPLY}>Multiply</option>
+                            <option value={ProgressionAction.ADD_UNITS}>Add Unit</option>
+                            <option value={ProgressionAction.SUBTRACT_UNITS}>Sub Unit</option>
+                            <option value={ProgressionAction.FIBONACCI}>Fibonacci</option>
+                            <option value={ProgressionAction.LADDER}>Ladder</option>
+                            <option value={ProgressionAction.DO_NOTHING}>Flat</option>
+                        </select>
+                        {config.onLossAction !== ProgressionAction.RESET && config.onLossAction !== ProgressionAction.DO_NOTHING && (
+                            <input type="number" placeholder="Value" title={config.onLossAction === ProgressionAction.LADDER ? 'Rungs to move (+ up, - down)' : undefined} value={config.onLossValue} onChange={(e) => setConfig({ ...config, onLossValue: parseFloat(e.target.value) })} disabled={simStatus !== 'IDLE'} className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50"/>
+                        )}
+                    </div>
+                </div>
+                )}
+
+                {(config.progressionSystem || 'ACTIONS') === 'ACTIONS' && (config.winDefinition || 'NET_NON_NEGATIVE') !== 'NET_NON_NEGATIVE' && (
+                <div className="flex items-center gap-2">
+                    <label className="text-[10px] font-bold text-slate-400 uppercase shrink-0">On Push</label>
+                    <select value={config.onPushAction || ProgressionAction.DO_NOTHING} onChange={(e) => setConfig({ ...config, onPushAction: e.target.value as ProgressionAction })} disabled={simStatus !== 'IDLE'} className="flex-1 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50">
+                        <option value={ProgressionAction.DO_NOTHING}>Hold</option>
                         <option value={ProgressionAction.RESET}>Reset</option>
                         <option value={ProgressionAction.MULTIPLY}>Multiply</option>
                         <option value={ProgressionAction.ADD_UNITS}>Add Unit</option>
                         <option value={ProgressionAction.SUBTRACT_UNITS}>Sub Unit</option>
-                        <option value={ProgressionAction.FIBONACCI}>Fibonacci</option>
-                        <option value={ProgressionAction.DO_NOTHING}>Flat</option>
                     </select>
-                    {config.onLossAction !== ProgressionAction.RESET && config.onLossAction !== ProgressionAction.DO_NOTHING && (
-                        <input type="number" placeholder="Value" value={config.onLossValue} onChange={(e) => setConfig({ ...config, onLossValue: parseFloat(e.target.value) })} disabled={simStatus !== 'IDLE'} className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50"/>
+                    {config.onPushAction && config.onPushAction !== ProgressionAction.RESET && config.onPushAction !== ProgressionAction.DO_NOTHING && (
+                        <input type="number" placeholder="Value" value={config.onPushValue} onChange={(e) => setConfig({ ...config, onPushValue: parseFloat(e.target.value) })} disabled={simStatus !== 'IDLE'} className="w-14 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50"/>
                     )}
                 </div>
+                )}
+
+                {/* PER-BET PROGRESSIONS */}
+                {onUpdateBetProgression && activeLane.bets.length > 0 && (
+                <div className="space-y-1">
+                    <label className="block text-[10px] font-bold text-slate-400 uppercase">Per-Bet Progression</label>
+                    <div className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+                        {activeLane.bets.map(bet => (
+                            <div key={bet.id} className="bg-slate-900/50 rounded border border-slate-700 px-2 py-1 space-y-1">
+                                <label className="flex items-center gap-1.5 text-[10px] text-slate-300 cursor-pointer select-none">
+                                    <input type="checkbox" checked={!!bet.progression} onChange={(e) => handleToggleBetProgression(bet, e.target.checked)} disabled={simStatus !== 'IDLE'} className="rounded bg-slate-900 border-slate-600 text-indigo-500 focus:ring-0"/>
+                                    <span className="truncate flex-1" title={bet.placement.displayName}>{bet.placement.displayName}</span>
+                                    <span className="font-mono text-slate-500">${bet.amount}</span>
+                                    {!bet.progression && <span className="text-[9px] text-slate-500 italic">follows lane</span>}
+                                </label>
+                                {bet.progression && (
+                                    <div className="grid grid-cols-2 gap-1">
+                                        {(['win', 'loss'] as const).map(side => {
+                                            const action = side === 'win' ? bet.progression!.onWinAction : bet.progression!.onLossAction;
+                                            const value = side === 'win' ? bet.progression!.onWinValue : bet.progression!.onLossValue;
+                                            return (
+                                                <div key={side} className="flex gap-1">
+                                                    <select value={action} onChange={(e) => handleChangeBetProgression(bet, side === 'win' ? { onWinAction: e.target.value as ProgressionAction } : { onLossAction: e.target.value as ProgressionAction })} disabled={simStatus !== 'IDLE'} title={side === 'win' ? 'On this bet winning' : 'On this bet losing'} className={`flex-1 min-w-0 bg-slate-900 border rounded px-1 py-0.5 text-[10px] text-white disabled:opacity-50 ${side === 'win' ? 'border-green-700' : 'border-red-700'}`}>
+                                                        <option value={ProgressionAction.RESET}>Reset</option>
+                                                        <option value={ProgressionAction.MULTIPLY}>Multiply</option>
+                                                        <option value={ProgressionAction.ADD_UNITS}>Add Unit</option>
+                                                        <option value={ProgressionAction.SUBTRACT_UNITS}>Sub Unit</option>
+                                                        <option value={ProgressionAction.FIBONACCI}>Fibonacci</option>
+                                                        <option value={ProgressionAction.DO_NOTHING}>Flat</option>
+                                                    </select>
+                                                    {action !== ProgressionAction.RESET && action !== ProgressionAction.DO_NOTHING && (
+                                                        <input type="number" value={value} onChange={(e) => handleChangeBetProgression(bet, side === 'win' ? { onWinValue: parseFloat(e.target.value) } : { onLossValue: parseFloat(e.target.value) })} disabled={simStatus !== 'IDLE'} className="w-10 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-[10px] text-white disabled:opacity-50"/>
+                                                    )}
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+                )}
+
+                {(config.progressionSystem || 'ACTIONS') === 'ACTIONS' && (config.onWinAction === ProgressionAction.LADDER || config.onLossAction === ProgressionAction.LADDER) && (
+                <div className="space-y-2 p-2 bg-slate-900/50 rounded border border-slate-700">
+                    <div className="space-y-1">
+                        <label className="block text-[10px] font-bold text-slate-400 uppercase">Ladder (Multipliers)</label>
+                        <input type="text" value={config.ladderSequence} onChange={(e) => setConfig({ ...config, ladderSequence: e.target.value })} disabled={simStatus !== 'IDLE'} placeholder="1,1,2,3,5,8,12,18,27" className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white font-mono disabled:opacity-50"/>
+                        <p className="text-[9px] text-slate-500">Ladder values move that many rungs: +1 up, -1 down. Reset returns to the first rung.</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <span className="text-[10px] text-slate-400 shrink-0">Past top rung</span>
+                        <select value={config.ladderTopAction} onChange={(e) => setConfig({ ...config, ladderTopAction: e.target.value as LadderTopAction })} disabled={simStatus !== 'IDLE'} className="flex-1 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50">
+                            {(Object.keys(LADDER_TOP_LABELS) as LadderTopAction[]).map(a => (
+                                <option key={a} value={a}>{LADDER_TOP_LABELS[a]}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+                )}
             </div>
             )}
 
@@ -427,7 +629,7 @@ export const StrategyPanel: React.FC<StrategyPanelProps> = ({
                             <label className="text-[10px] font-bold text-indigo-400 uppercase">Progression Sequence</label>
                             <span className="text-[9px] font-mono text-slate-500">{config.chainSteps?.length || 0} Steps</span>
                          </div>
-                         <div className="relative flex flex-col gap-1 p-2 bg-slate-900/50 rounded border border-slate-700 min-h-[100px] max-h-[200px] overflow-y-auto custom-scrollbar">
+                         <div className="relative flex flex-col gap-1 p-2 bg-slate-900/50 rounded border border-slate-700 min-h-[100px] max-h-[320px] overflow-y-auto custom-scrollbar">
                              {(!config.chainSteps || config.chainSteps.length === 0) ? (
                                  <div className="flex flex-col items-center justify-center py-6 text-slate-600 text-[10px] italic">
                                      <Link2 size={16} className="mb-1 opacity-50" />
@@ -435,14 +637,47 @@ export const StrategyPanel: React.FC<StrategyPanelProps> = ({
                                  </div>
                              ) : (
                                  config.chainSteps.map((step, idx) => (
-                                     <div key={idx} className="flex items-center gap-2 animate-in fade-in slide-in-from-left-2">
-                                         <span className="font-mono text-[9px] text-slate-500 w-4 text-center">{idx+1}.</span>
-                                         <div className="flex-1 flex items-center justify-between px-2 py-1.5 bg-slate-800 border border-slate-600 rounded">
-                                             <div className="flex items-center gap-2">
-                                                <span className="text-[10px] font-bold text-white">{step.name}</span>
-                                                <span className="text-[9px] text-slate-500 bg-slate-900 px-1 rounded">${step.bets.reduce((a,b)=>a+b.amount,0)}</span>
+                                     <div key={idx} className="flex items-start gap-2 animate-in fade-in slide-in-from-left-2">
+                                         <span className="font-mono text-[9px] text-slate-500 w-4 text-center pt-2">{idx+1}.</span>
+                                         <div className="flex-1 px-2 py-1.5 bg-slate-800 border border-slate-600 rounded space-y-1">
+                                             <div className="flex items-center justify-between">
+                                                 <div className="flex items-center gap-2">
+                                                    <span className="text-[10px] font-bold text-white">{step.name}</span>
+                                                    <span className="text-[9px] text-slate-500 bg-slate-900 px-1 rounded">${step.bets.reduce((a,b)=>a+b.amount,0)}</span>
+                                                 </div>
+                                                 <div className="flex items-center gap-1">
+                                                     <span className="text-[9px] text-slate-500">x</span>
+                                                     <input type="number" min={0.1} step={0.5} value={step.multiplier ?? 1} onChange={(e) => handleUpdateChainStep(idx, { multiplier: parseFloat(e.target.value) })} disabled={simStatus !== 'IDLE'} title="Stake multiplier for this step" className="w-10 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-[10px] text-white disabled:opacity-50"/>
+                                                     <button onClick={() => handleRemoveChainStep(idx)} disabled={simStatus !== 'IDLE'} className="text-slate-500 hover:text-red-400"><X size={12} /></button>
+                                                 </div>
+                                             </div>
+                                             <div className="grid grid-cols-2 gap-1">
+                                                 {(['win', 'loss'] as const).map(side => {
+                                                     const action = side === 'win' ? step.onWinAction : step.onLossAction;
+                                                     const value = side === 'win' ? step.onWinValue : step.onLossValue;
+                                                     return (
+                                                         <div key={side} className="flex gap-1">
+                                                             <select value={action || ''} onChange={(e) => {
+                                                                 const next = (e.target.value || undefined) as ProgressionAction | undefined;
+                                                                 const nextValue = next === ProgressionAction.JUMP_CHAIN_STEP ? 1 : next === ProgressionAction.REPEAT_CHAIN_STEP ? 2 : undefined;
+                                                                 handleUpdateChainStep(idx, side === 'win' ? { onWinAction: next, onWinValue: nextValue } : { onLossAction: next, onLossValue: nextValue });
+                                                             }} disabled={simStatus !== 'IDLE'} title={side === 'win' ? 'On a win at this step' : 'On a loss at this step'} className={`flex-1 min-w-0 bg-slate-900 border rounded px-1 py-0.5 text-[10px] text-white disabled:opacity-50 ${side === 'win' ? 'border-green-700' : 'border-red-700'}`}>
+                                                                 <option value="">{side === 'win' ? 'Win' : 'Loss'}: Default</option>
+                                                                 <option value={ProgressionAction.NEXT_CHAIN_STEP}>Next Step</option>
+                                                                 <option value={ProgressionAction.PREV_CHAIN_STEP}>Previous Step</option>
+                                                                 <option value={ProgressionAction.RESTART_CHAIN}>Restart Chain</option>
+                                                                 <option value={ProgressionAction.DO_NOTHING}>Stay on Step</option>
+                                                                 <option value={ProgressionAction.JUMP_CHAIN_STEP}>Jump to Step</option>
+                                                                 <option value={ProgressionAction.REPEAT_CHAIN_STEP}>Repeat, then Next</option>
+                                                                 <option value={ProgressionAction.STOP_LANE}>Stop Lane</option>
+                                                             </select>
+                                                             {(action === ProgressionAction.JUMP_CHAIN_STEP || action === ProgressionAction.REPEAT_CHAIN_STEP) && (
+                                                                 <input type="number" min={1} value={value ?? 1} onChange={(e) => handleUpdateChainStep(idx, side === 'win' ? { onWinValue: parseInt(e.target.value) } : { onLossValue: parseInt(e.target.value) })} disabled={simStatus !== 'IDLE'} title={action === ProgressionAction.JUMP_CHAIN_STEP ? 'Step number to jump to' : 'Times to play this step before moving on'} className="w-10 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-[10px] text-white disabled:opacity-50"/>
+                                                             )}
+                                                         </div>
+                                                     );
+                                                 })}
                                              </div>
-                                             <button onClick={() => handleRemoveChainStep(idx)} disabled={simStatus !== 'IDLE'} className="text-slate-500 hover:text-red-400"><X size={12} /></button>
                                          </div>
                                          {idx < (config.chainSteps?.length || 0) - 1 && (
                                              <ArrowDown size={10} className="text-slate-600 mx-auto block md:hidden" />
@@ -456,7 +691,7 @@ export const StrategyPanel: React.FC<StrategyPanelProps> = ({
                     {/* 3. Logic Controls */}
                     <div className="grid grid-cols-2 gap-3 pt-1 border-t border-slate-700">
                         <div className="space-y-1">
-                            <label className="block text-[10px] font-bold text-green-400 uppercase">On Win</label>
+                            <label className="block text-[10px] font-bold text-green-400 uppercase">Default On Win</label>
                             <select value={config.chainOnWin} onChange={(e) => setConfig({...config, chainOnWin: e.target.value as ProgressionAction})} disabled={simStatus !== 'IDLE'} className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white">
                                 <option value={ProgressionAction.RESTART_CHAIN}>Restart Chain</option>
                                 <option value={ProgressionAction.NEXT_CHAIN_STEP}>Next Step</option>
@@ -465,7 +700,7 @@ export const StrategyPanel: React.FC<StrategyPanelProps> = ({
                             </select>
                         </div>
                         <div className="space-y-1">
-                            <label className="block text-[10px] font-bold text-red-400 uppercase">On Loss</label>
+                            <label className="block text-[10px] font-bold text-red-400 uppercase">Default On Loss</label>
                             <select value={config.chainOnLoss} onChange={(e) => setConfig({...config, chainOnLoss: e.target.value as ProgressionAction})} disabled={simStatus !== 'IDLE'} className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white">
                                 <option value={ProgressionAction.NEXT_CHAIN_STEP}>Next Step</option>
                                 <option value={ProgressionAction.RESTART_CHAIN}>Restart Chain</option>
@@ -523,6 +758,80 @@ export const StrategyPanel: React.FC<StrategyPanelProps> = ({
             </div>
             )}
 
+            {/* SCRIPT MODE SETTINGS */}
+            {config.strategyMode === 'SCRIPT' && (
+            <div className="space-y-2">
+                <div className="space-y-1">
+                    <div className="flex items-center justify-between">
+                        <label className="block text-[10px] font-bold text-indigo-400 uppercase">Script</label>
+                        <button onClick={() => setConfig({ ...config, script: DEFAULT_LANE_SCRIPT })} disabled={simStatus !== 'IDLE'} className="text-[9px] text-slate-400 hover:text-white disabled:opacity-50">Load Example</button>
+                    </div>
+                    <textarea value={config.script || ''} onChange={(e) => setConfig({ ...config, script: e.target.value })} disabled={simStatus !== 'IDLE'} spellCheck={false} className="w-full bg-slate-950 border border-slate-600 rounded px-2 py-1 text-[10px] text-emerald-200 font-mono disabled:opacity-50 min-h-[160px] whitespace-pre"/>
+                    {scriptCompileError && (
+                        <div className="flex items-start gap-1 p-1.5 bg-red-900/30 border border-red-600/30 rounded text-[10px] text-red-200">
+                            <AlertTriangle size={12} className="text-red-400 shrink-0 mt-0.5" />
+                            <span className="font-mono break-all">{scriptCompileError}</span>
+                        </div>
+                    )}
+                </div>
+                <div className="text-[9px] text-slate-500 space-y-0.5">
+                    <p>The script is the body of a function, run before every spin. It can read <span className="font-mono text-slate-400">history</span> (past spins: number, color, profit, balance), <span className="font-mono text-slate-400">balance</span>, <span className="font-mono text-slate-400">bankroll</span>, <span className="font-mono text-slate-400">spin</span> and <span className="font-mono text-slate-400">table</span>, and keep anything in <span className="font-mono text-slate-400">state</span>.</p>
+                    <p>Return a list of bets: <span className="font-mono text-slate-400">bet('red', 10)</span>, <span className="font-mono text-slate-400">bet(17, 5)</span>, <span className="font-mono text-slate-400">bet('dozen2', 5)</span> or <span className="font-mono text-slate-400">{'{ placement, amount }'}</span>. Errors skip the spin and show in the spin log.</p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <span className="text-[10px] text-slate-400">Time limit per spin</span>
+                    <input type="number" min={1} value={config.scriptTimeLimitMs} onChange={(e) => setConfig({ ...config, scriptTimeLimitMs: Number(e.target.value) })} disabled={simStatus !== 'IDLE'} className="w-14 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-xs text-white disabled:opacity-50 font-mono text-center"/>
+                    <span className="text-[10px] text-slate-400">ms</span>
+                </div>
+            </div>
+            )}
+
+            {/* WIN DEFINITION */}
+            <div className="pt-2 border-t border-slate-700 space-y-1">
+                <label className="block text-[10px] font-bold text-emerald-400 uppercase">Counts as Win</label>
+                <select value={config.winDefinition || 'NET_NON_NEGATIVE'} onChange={(e) => setConfig({ ...config, winDefinition: e.target.value as WinDefinition })} disabled={simStatus !== 'IDLE'} className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50">
+                    {(Object.keys(WIN_DEFINITION_LABELS) as WinDefinition[]).map(d => (
+                        <option key={d} value={d}>{WIN_DEFINITION_LABELS[d]}</option>
+                    ))}
+                </select>
+                {config.winDefinition === 'PRIMARY_HIT' && (
+                    config.strategyMode === 'STATIC' && activeLane.bets.length > 0 ? (
+                        <select value={config.primaryBetId || ''} onChange={(e) => setConfig({ ...config, primaryBetId: e.target.value || undefined })} disabled={simStatus !== 'IDLE'} className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50">
+                            <option value="">Choose primary bet...</option>
+                            {activeLane.bets.map(b => (
+                                <option key={b.id} value={b.id}>{b.placement.displayName} (${b.amount})</option>
+                            ))}
+                        </select>
+                    ) : (
+                        <p className="text-[9px] text-slate-500">Primary bet is picked from the board layout; other modes count any hit.</p>
+                    )
+                )}
+                {(config.winDefinition || 'NET_NON_NEGATIVE') !== 'NET_NON_NEGATIVE' && (
+                    <p className="text-[9px] text-slate-500">A spin netting exactly $0 is a push: progressions hold unless a push action is set.</p>
+                )}
+            </div>
+
+            {/* BET SIZING */}
+            <div className="pt-2 border-t border-slate-700 space-y-1">
+                <label className="block text-[10px] font-bold text-sky-400 uppercase">Bet Sizing</label>
+                <div className="flex items-center gap-2">
+                    <select value={config.sizingMode || 'FIXED'} onChange={(e) => setConfig({ ...config, sizingMode: e.target.value as BetSizingMode })} disabled={simStatus !== 'IDLE'} className="flex-1 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white disabled:opacity-50">
+                        {(Object.keys(SIZING_MODE_LABELS) as BetSizingMode[]).map(m => (
+                            <option key={m} value={m}>{SIZING_MODE_LABELS[m]}</option>
+                        ))}
+                    </select>
+                    {config.sizingMode && config.sizingMode !== 'FIXED' && (
+                        <div className="flex items-center gap-1">
+                            <input type="number" min={0.1} step={0.5} value={config.sizingPercent} onChange={(e) => setConfig({ ...config, sizingPercent: Number(e.target.value) })} disabled={simStatus !== 'IDLE'} className="w-14 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-xs text-white disabled:opacity-50 font-mono text-center"/>
+                            <span className="text-xs text-slate-400">%</span>
+                        </div>
+                    )}
+                </div>
+                {config.sizingMode && config.sizingMode !== 'FIXED' && (
+                    <p className="text-[9px] text-slate-500">Base wager follows the bankroll, rounded to table chips and kept within the table limits. Progressions multiply it as usual; trigger bets stay fixed.</p>
+                )}
+            </div>
+
             {/* RESET ON SESSION PROFIT */}
             <div className="pt-2 border-t border-slate-700">
                 <div className="flex items-center justify-between mb-1">
@@ -530,6 +839,7 @@ export const StrategyPanel: React.FC<StrategyPanelProps> = ({
                         <input type="checkbox" checked={config.useResetOnSessionProfit} onChange={(e) => setConfig({ ...config, useResetOnSessionProfit: e.target.checked })} disabled={simStatus !== 'IDLE'} className="rounded bg-slate-900 border-slate-600 text-emerald-500 focus:ring-0"/>
                         Reset on Profit
                     </label>
+                    {resetConditions.length > 0 && <span className="text-[9px] text-purple-300">+{resetConditions.length} condition{resetConditions.length === 1 ? '' : 's'}</span>}
                 </div>
                 {config.useResetOnSessionProfit && (
                      <div className="flex items-center gap-2 bg-emerald-900/20 px-2 py-1 rounded border border-emerald-500/30">
@@ -537,8 +847,105 @@ export const StrategyPanel: React.FC<StrategyPanelProps> = ({
                          <input type="number" value={config.resetOnSessionProfit} onChange={(e) => setConfig({ ...config, resetOnSessionProfit: Number(e.target.value) })} disabled={simStatus !== 'IDLE'} className="w-16 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-xs text-white disabled:opacity-50 font-mono text-center"/>
                      </div>
                 )}
+
+                {/* Additional reset conditions */}
+                <div className="mt-2 space-y-1">
+                    {resetConditions.map(c => (
+                        <div key={c.id} className="flex items-center gap-2 bg-purple-900/20 px-2 py-1 rounded border border-purple-500/30">
+                            <span className="text-xs text-purple-200 flex-1">Reset if {RESET_CONDITION_LABELS[c.type]}</span>
+                            {c.type !== 'NEW_PEAK' && (
+                                <input type="number" value={c.value} onChange={(e) => handleUpdateResetCondition(c.id, { value: Number(e.target.value) })} disabled={simStatus !== 'IDLE'} className="w-16 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-xs text-white disabled:opacity-50 font-mono text-center"/>
+                            )}
+                            <button onClick={() => handleRemoveResetCondition(c.id)} disabled={simStatus !== 'IDLE'} className="text-slate-500 hover:text-red-400 disabled:opacity-50" title="Remove condition"><X size={12} /></button>
+                        </div>
+                    ))}
+                    <select value="" onChange={(e) => { if (e.target.value) handleAddResetCondition(e.target.value as ResetConditionType); }} disabled={simStatus !== 'IDLE'} className="w-full bg-slate-900 border border-dashed border-slate-600 rounded px-2 py-1 text-[10px] text-slate-400 disabled:opacity-50">
+                        <option value="">+ Add reset condition...</option>
+                        {(Object.keys(RESET_CONDITION_LABELS) as ResetConditionType[]).map(t => (
+                            <option key={t} value={t}>{RESET_CONDITION_LABELS[t].replace(/\s*[≥>$]+$/, '')}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            {/* SHADOW BETTING */}
+            <div className="pt-2 border-t border-slate-700 space-y-1">
+                <label className="flex items-center gap-1.5 text-[10px] font-bold text-cyan-400 uppercase cursor-pointer select-none">
+                    <input type="checkbox" checked={!!config.useShadow} onChange={(e) => setConfig({ ...config, useShadow: e.target.checked })} disabled={simStatus !== 'IDLE'} className="rounded bg-slate-900 border-slate-600 text-cyan-500 focus:ring-0"/>
+                    Shadow Betting
+                </label>
+                {config.useShadow && (
+                    <>
+                        <div className="flex items-center gap-2 bg-cyan-900/20 px-2 py-1 rounded border border-cyan-500/30">
+                            <span className="text-xs text-cyan-200 flex-1">Go live after virtual losses</span>
+                            <input type="number" min={1} value={config.shadowLossesToGoLive} onChange={(e) => setConfig({ ...config, shadowLossesToGoLive: Math.max(1, parseInt(e.target.value) || 1) })} disabled={simStatus !== 'IDLE'} className="w-14 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-xs text-white disabled:opacity-50 font-mono text-center"/>
+                        </div>
+                        <div className="flex items-center gap-2 bg-cyan-900/20 px-2 py-1 rounded border border-cyan-500/30">
+                            <span className="text-xs text-cyan-200 flex-1">Back to shadow after live wins</span>
+                            <input type="number" min={0} value={config.shadowWinsToGoVirtual} onChange={(e) => setConfig({ ...config, shadowWinsToGoVirtual: Math.max(0, parseInt(e.target.value) || 0) })} disabled={simStatus !== 'IDLE'} className="w-14 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-xs text-white disabled:opacity-50 font-mono text-center"/>
+                        </div>
+                        <p className="text-[9px] text-slate-500">The lane starts virtual: its progression follows the real spins with no money staked. Losses count in a row; 0 live wins keeps it live for the rest of the session.</p>
+                    </>
+                )}
             </div>
 
+            {/* LANE RULES */}
+            {onUpdateLaneRules && (
+            <div className="pt-2 border-t border-slate-700 space-y-1">
+                <div className="flex items-center justify-between">
+                    <label className="text-[10px] font-bold text-orange-400 uppercase">Lane Rules</label>
+                    <button onClick={handleAddLaneRule} disabled={simStatus !== 'IDLE'} className="flex items-center gap-1 text-[9px] text-slate-400 hover:text-white disabled:opacity-50"><Plus size={10} /> Add Rule</button>
+                </div>
+                {laneRules.map(rule => (
+                    <div key={rule.id} className="bg-orange-900/10 rounded border border-orange-500/20 px-2 py-1 space-y-1">
+                        <div className="flex items-center gap-1">
+                            <span className="text-[9px] font-bold text-orange-300">IF</span>
+                            <select value={rule.condition} onChange={(e) => handleUpdateLaneRule(rule.id, { condition: e.target.value as LaneRuleCondition })} disabled={simStatus !== 'IDLE'} className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-[10px] text-white disabled:opacity-50">
+                                {(Object.keys(LANE_RULE_CONDITION_LABELS) as LaneRuleCondition[]).map(c => (
+                                    <option key={c} value={c}>{LANE_RULE_CONDITION_LABELS[c]}</option>
+                                ))}
+                            </select>
+                            <input type="number" value={rule.value} onChange={(e) => handleUpdateLaneRule(rule.id, { value: Number(e.target.value) })} disabled={simStatus !== 'IDLE'} title={rule.condition === 'TARGET_HITS' ? 'Hits needed' : undefined} className="w-12 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-[10px] text-white disabled:opacity-50 font-mono text-center"/>
+                            <button onClick={() => handleRemoveLaneRule(rule.id)} disabled={simStatus !== 'IDLE'} className="text-slate-500 hover:text-red-400 disabled:opacity-50" title="Remove rule"><X size={12} /></button>
+                        </div>
+                        {rule.condition === 'TARGET_HITS' && (
+                            <div className="flex items-center gap-1 pl-4">
+                                <input type="text" value={rule.target || ''} placeholder="red, dozen2, 17..." onChange={(e) => handleUpdateLaneRule(rule.id, { target: e.target.value })} disabled={simStatus !== 'IDLE'} className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-[10px] text-white disabled:opacity-50"/>
+                                <span className="text-[9px] text-slate-400">in last</span>
+                                <input type="number" min={1} value={rule.window ?? 10} onChange={(e) => handleUpdateLaneRule(rule.id, { window: Number(e.target.value) })} disabled={simStatus !== 'IDLE'} className="w-12 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-[10px] text-white disabled:opacity-50 font-mono text-center"/>
+                            </div>
+                        )}
+                        <div className="flex items-center gap-1">
+                            <span className="text-[9px] font-bold text-orange-300">THEN</span>
+                            <select value={rule.action} onChange={(e) => handleUpdateLaneRule(rule.id, { action: e.target.value as LaneRuleAction, actionValue: e.target.value === 'SCALE_BASE' ? 2 : e.target.value === 'GOTO_CHAIN_STEP' ? 1 : undefined })} disabled={simStatus !== 'IDLE'} className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-[10px] text-white disabled:opacity-50">
+                                {(Object.keys(LANE_RULE_ACTION_LABELS) as LaneRuleAction[]).map(a => (
+                                    <option key={a} value={a}>{LANE_RULE_ACTION_LABELS[a]}</option>
+                                ))}
+                            </select>
+                            {(rule.action === 'SCALE_BASE' || rule.action === 'GOTO_CHAIN_STEP') && (
+                                <input type="number" min={rule.action === 'GOTO_CHAIN_STEP' ? 1 : 0.1} step={rule.action === 'GOTO_CHAIN_STEP' ? 1 : 0.5} value={rule.actionValue ?? 1} onChange={(e) => handleUpdateLaneRule(rule.id, { actionValue: Number(e.target.value) })} disabled={simStatus !== 'IDLE'} title={rule.action === 'SCALE_BASE' ? 'Multiplier' : 'Step number'} className="w-12 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-[10px] text-white disabled:opacity-50 font-mono text-center"/>
+                            )}
+                            {(rule.action === 'ENABLE_LANE' || rule.action === 'DISABLE_LANE') && (
+                                <select value={rule.targetLaneId || ''} onChange={(e) => handleUpdateLaneRule(rule.id, { targetLaneId: e.target.value || undefined })} disabled={simStatus !== 'IDLE'} className="w-24 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-[10px] text-white disabled:opacity-50">
+                                    <option value="">This lane</option>
+                                    {lanes.filter(l => l.id !== activeLane.id).map(l => (
+                                        <option key={l.id} value={l.id}>{l.name}</option>
+                                    ))}
+                                </select>
+                            )}
+                        </div>
+                    </div>
+                ))}
+                {laneRules.length > 0 && (
+                    <p className="text-[9px] text-slate-500">Each rule fires once when its condition becomes true, checked before every spin. Lanes switched on or off by other lanes follow from the next spin.</p>
+                )}
+                <label className="flex items-center gap-1.5 text-[10px] text-slate-300 cursor-pointer select-none">
+                    <input type="checkbox" checked={!!activeLane.startsPaused} onChange={(e) => onUpdateLaneRules(laneRules, e.target.checked)} disabled={simStatus !== 'IDLE'} className="rounded bg-slate-900 border-slate-600 text-orange-500 focus:ring-0"/>
+                    Start paused (wait for an Enable Lane rule)
+                </label>
+            </div>
+            )}
+
             {/* 3. TRIGGER BETS */}
             <div className="pt-2 border-t border-slate-700 space-y-2">
                  <div className="flex items-center justify-between">
@@ -560,13 +967,16 @@ export const StrategyPanel: React.FC<StrategyPanelProps> = ({
                                  <div className={`w-1.5 h-full self-stretch rounded-full ${trigger.active ? 'bg-orange-500' : 'bg-slate-600'}`} />
                                  <div className="flex-1 min-w-0">
                                      <div className="flex items-center gap-1 text-[10px] text-slate-300">
-                                         <span className="font-bold text-orange-200">{trigger.rule === 'MISS_STREAK' ? 'Miss' : 'Hit'} {trigger.threshold}x</span>
+                                         <span className="font-bold text-orange-200">{describeTriggerCondition(trigger)}</span>
                                          <span className="text-slate-500">&rarr;</span>
-                                         <span className="truncate" title={trigger.betPlacement.displayName}>{trigger.betPlacement.displayName}</span>
+                                         <span className="truncate" title={describeTriggerBets(trigger)}>{describeTriggerBets(trigger)}</span>
                                      </div>
                                      <div className="text-[9px] text-slate-500 font-mono">
                                          Bet: ${trigger.betAmount}
                                      </div>
+                                     {describeTriggerStaking(trigger) && (
+                                         <div className="text-[9px] text-amber-300/80 truncate" title={describeTriggerStaking(trigger)}>{describeTriggerStaking(trigger)}</div>
+                                     )}
                                  </div>
                                  <div className="flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
                                      <button onClick={(e) => { e.stopPropagation(); setTriggerBets(prev => prev.filter(t => t.id !== trigger.id)); }} className="text-slate-600 hover:text-red-400"><X size={12} /></button>
@@ -586,6 +996,7 @@ export const StrategyPanel: React.FC<StrategyPanelProps> = ({
             onSave={handleSaveTrigger}
             existingTrigger={editingTrigger}
             laneColor={activeLane.color}
+            wheelType={settings.wheelType}
         />
 
         {/* LOGIC FLOW MODAL */}
@@ -595,6 +1006,7 @@ export const StrategyPanel: React.FC<StrategyPanelProps> = ({
             lane={activeLane}
         />
 
+      </div>
     </div>
   );
 };
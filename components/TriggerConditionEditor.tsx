@@ -0,0 +1,123 @@
+import React from 'react';
+import { X, Plus } from 'lucide-react';
+import { TriggerCondition, TriggerGroup, TriggerPredicate, TriggerRule } from '../core/types';
+import { TRIGGER_RULE_LABELS } from '../core/constants';
+import {
+  TRIGGER_RULE_DEFAULTS, isTargetlessTriggerRule, getTargetlessPlacement, createTriggerPredicate, createTriggerGroup,
+  updateConditionNode, removeConditionNode
+} from '../utils/triggers';
+
+interface TriggerConditionEditorProps {
+  root: TriggerCondition;
+  onChange: (root: TriggerCondition) => void;
+  selectedId: string | null; // Predicate whose target the table sets
+  onSelect: (id: string) => void;
+}
+
+const GROUP_KINDS: TriggerGroup['kind'][] = ['AND', 'OR', 'NOT'];
+
+const TriggerConditionEditor: React.FC<TriggerConditionEditorProps> = ({ root, onChange, selectedId, onSelect }) => {
+  const update = (id: string, changes: (node: TriggerCondition) => TriggerCondition) => onChange(updateConditionNode(root, id, changes));
+
+  const handleRuleChange = (predicate: TriggerPredicate, rule: TriggerRule) => {
+    const defaults = TRIGGER_RULE_DEFAULTS[rule];
+    let target = predicate.target;
+    if (isTargetlessTriggerRule(rule)) target = getTargetlessPlacement(rule);
+    else if (isTargetlessTriggerRule(predicate.rule)) target = createTriggerPredicate().target;
+    update(predicate.id, () => ({ ...predicate, rule, target, threshold: defaults.threshold, window: defaults.window }));
+  };
+
+  // NOT negates a single condition, so several children get wrapped in an AND first
+  const handleKindChange = (group: TriggerGroup, kind: TriggerGroup['kind']) => {
+    const children = kind === 'NOT' && group.children.length > 1 ? [createTriggerGroup('AND', group.children)] : group.children;
+    update(group.id, () => ({ ...group, kind, children }));
+  };
+
+  const handleAdd = (group: TriggerGroup, child: TriggerCondition) => {
+    update(group.id, () => ({ ...group, children: [...group.children, child] }));
+    if (child.kind === 'RULE') onSelect(child.id);
+  };
+
+  const renderPredicate = (predicate: TriggerPredicate, removable: boolean) => {
+    const targetless = isTargetlessTriggerRule(predicate.rule);
+    const usesWindow = predicate.rule === 'MISSED_OF_LAST' || predicate.rule === 'FREQUENCY_BELOW';
+    const isFloat = predicate.rule === 'FREQUENCY_BELOW';
+    return (
+      <div key={predicate.id} className="flex flex-wrap items-center gap-1 p-1.5 bg-slate-900 border border-slate-700 rounded">
+        <button
+          onClick={() => onSelect(predicate.id)}
+          disabled={targetless}
+          title={targetless ? 'This rule has no target' : 'Select, then click the table to change the target'}
+          className={`px-1.5 py-0.5 rounded text-[10px] font-bold truncate max-w-[6rem] border ${selectedId === predicate.id ? 'border-indigo-400 bg-indigo-900/40 text-indigo-200' : 'border-slate-600 text-slate-300'} disabled:opacity-50`}
+        >
+          {targetless ? 'Any' : predicate.target.displayName}
+        </button>
+        <select
+          value={predicate.rule}
+          onChange={(e) => handleRuleChange(predicate, e.target.value as TriggerRule)}
+          className="flex-1 min-w-0 bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-[10px] text-white"
+        >
+          {(Object.keys(TRIGGER_RULE_LABELS) as TriggerRule[]).map(r => (
+            <option key={r} value={r}>{TRIGGER_RULE_LABELS[r]}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          value={predicate.threshold}
+          step={isFloat ? 0.1 : 1}
+          onChange={(e) => update(predicate.id, () => ({ ...predicate, threshold: isFloat ? Math.max(0.1, parseFloat(e.target.value) || 0.1) : Math.max(1, parseInt(e.target.value) || 1) }))}
+          title="Threshold"
+          className="w-11 bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-[10px] text-white text-center"
+        />
+        {usesWindow && (
+          <input
+            type="number"
+            value={predicate.window ?? TRIGGER_RULE_DEFAULTS[predicate.rule].window}
+            onChange={(e) => update(predicate.id, () => ({ ...predicate, window: Math.max(1, parseInt(e.target.value) || 1) }))}
+            title="Over the last N spins"
+            className="w-11 bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-[10px] text-white text-center"
+          />
+        )}
+        {removable && (
+          <button onClick={() => onChange(removeConditionNode(root, predicate.id))} className="text-slate-500 hover:text-red-400"><X size={12} /></button>
+        )}
+      </div>
+    );
+  };
+
+  const renderNode = (node: TriggerCondition, removable: boolean): React.ReactNode => {
+    if (node.kind === 'RULE') return renderPredicate(node, removable);
+    const full = node.kind === 'NOT' && node.children.length >= 1;
+    return (
+      <div key={node.id} className="space-y-1">
+        <div className="flex items-center gap-1">
+          <select
+            value={node.kind}
+            onChange={(e) => handleKindChange(node, e.target.value as TriggerGroup['kind'])}
+            className="bg-slate-900 border border-amber-700 rounded px-1 py-0.5 text-[10px] font-bold text-amber-300"
+          >
+            {GROUP_KINDS.map(k => <option key={k} value={k}>{k}</option>)}
+          </select>
+          <button onClick={() => handleAdd(node, createTriggerPredicate())} disabled={full} className="flex items-center gap-0.5 px-1.5 py-0.5 text-[10px] text-slate-300 bg-slate-800 hover:bg-slate-700 rounded disabled:opacity-40">
+            <Plus size={10} /> Rule
+          </button>
+          <button onClick={() => handleAdd(node, createTriggerGroup('AND', [createTriggerPredicate()]))} disabled={full} className="flex items-center gap-0.5 px-1.5 py-0.5 text-[10px] text-slate-300 bg-slate-800 hover:bg-slate-700 rounded disabled:opacity-40">
+            <Plus size={10} /> Group
+          </button>
+          <div className="flex-1" />
+          {removable && (
+            <button onClick={() => onChange(removeConditionNode(root, node.id))} className="text-slate-500 hover:text-red-400"><X size={12} /></button>
+          )}
+        </div>
+        <div className="pl-2 ml-1 border-l border-amber-700/50 space-y-1">
+          {node.children.length === 0 && <div className="text-[10px] text-slate-500 italic">Add a rule or group</div>}
+          {node.children.map(child => renderNode(child, true))}
+        </div>
+      </div>
+    );
+  };
+
+  return <div className="space-y-1">{renderNode(root, false)}</div>;
+};
+
+export default TriggerConditionEditor;
@@ -1,8 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { X, Check, Target, AlertCircle } from 'lucide-react';
 import RouletteTable from './RouletteBoard';
-import { TriggerBet, BetPlacement, BetType, TriggerRule } from '../core/types';
+import TriggerConditionEditor from './TriggerConditionEditor';
+import { TriggerBet, Bet, BetPlacement, BetType, BetProgression, ProgressionAction, TriggerCondition, TriggerPersistence, TriggerRule, WheelType } from '../core/types';
 import { getPlacementIdentifier } from '../utils/placements';
+import {
+  TRIGGER_RULE_DEFAULTS, isTargetlessTriggerRule, getTargetlessPlacement, createTriggerPredicate, createTriggerGroup,
+  findConditionNode, findFirstPredicate, updateConditionNode, conditionHasTargets
+} from '../utils/triggers';
+import { TRIGGER_RULE_LABELS } from '../core/constants';
 
 interface TriggerSetupModalProps {
   isOpen: boolean;
@@ -10,58 +16,206 @@ interface TriggerSetupModalProps {
   onSave: (trigger: TriggerBet) => void;
   existingTrigger?: TriggerBet;
   laneColor: string;
+  wheelType?: WheelType;
 }
 
+// Text either side of the threshold input
+const thresholdText: Record<TriggerRule, [string, string]> = {
+  MISS_STREAK: ['For', 'Times'],
+  HIT_STREAK: ['For', 'Times'],
+  MISSED_OF_LAST: ['At least', 'Misses'],
+  SLEEPER: ['Absent for', 'Spins'],
+  DOZEN_REPEAT: ['Hit', 'Times in a Row'],
+  COLUMN_REPEAT: ['Hit', 'Times in a Row'],
+  COLOR_ALTERNATION: ['Alternated', 'Times'],
+  FREQUENCY_BELOW: ['At least', 'SD Below']
+};
+
+const ruleHelp: Record<TriggerRule, string> = {
+  MISS_STREAK: 'Fires after the target has missed this many spins in a row.',
+  HIT_STREAK: 'Fires after the target has hit this many spins in a row.',
+  MISSED_OF_LAST: 'Fires when the target missed at least this many of the recent spins.',
+  SLEEPER: 'Watches every number of the target. Pick a dozen, column or outside bet to watch several numbers.',
+  DOZEN_REPEAT: 'Fires when the same dozen lands this many times in a row. A zero breaks the run.',
+  COLUMN_REPEAT: 'Fires when the same column lands this many times in a row. A zero breaks the run.',
+  COLOR_ALTERNATION: 'Fires when red and black have switched this many times in a row. A zero breaks the run.',
+  FREQUENCY_BELOW: 'Fires when the target hit less often than the wheel odds predict, by this many standard deviations.'
+};
+
+type SetupStep = 'WATCH' | 'BET';
+
 const TriggerSetupModal: React.FC<TriggerSetupModalProps> = ({ 
-  isOpen, onClose, onSave, existingTrigger, laneColor 
+  isOpen, onClose, onSave, existingTrigger, laneColor, wheelType
 }) => {
   // State
+  const [step, setStep] = useState<SetupStep>('WATCH');
+  const [betMode, setBetMode] = useState<'TARGET' | 'LAYOUT'>('TARGET');
+  const [layout, setLayout] = useState<Bet[]>([]);
+  const [condition, setCondition] = useState<TriggerCondition | null>(null); // Compound mode when set
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [selectedPlacement, setSelectedPlacement] = useState<BetPlacement | null>(null);
   const [rule, setRule] = useState<TriggerRule>('MISS_STREAK');
   const [threshold, setThreshold] = useState<number>(3);
+  const [window, setWindow] = useState<number>(10);
   const [amount, setAmount] = useState<number>(5);
+  const [persistence, setPersistence] = useState<TriggerPersistence>('SPIN');
+  const [maxAttempts, setMaxAttempts] = useState<number>(0);
+  const [progression, setProgression] = useState<BetProgression | undefined>(undefined);
+  const [ladderSequence, setLadderSequence] = useState<string>('1,2,3,5,8');
+  const [cooldownSpins, setCooldownSpins] = useState<number>(0);
+  const [maxActivations, setMaxActivations] = useState<number>(0);
 
   useEffect(() => {
     if (isOpen) {
+      setStep('WATCH');
+      setSelectedNodeId(null);
       if (existingTrigger) {
+        setCondition(existingTrigger.condition || null);
+        setBetMode(existingTrigger.betLayout && existingTrigger.betLayout.length > 0 ? 'LAYOUT' : 'TARGET');
+        setLayout(existingTrigger.betLayout || []);
         setSelectedPlacement(existingTrigger.triggerPlacement);
         setRule(existingTrigger.rule);
         setThreshold(existingTrigger.threshold);
+        setWindow(existingTrigger.window ?? (existingTrigger.rule === 'FREQUENCY_BELOW' ? 37 : 10));
         setAmount(existingTrigger.betAmount);
+        setPersistence(existingTrigger.persistence || 'SPIN');
+        setMaxAttempts(existingTrigger.maxAttempts || 0);
+        setProgression(existingTrigger.progression);
+        setLadderSequence(existingTrigger.ladderSequence || '1,2,3,5,8');
+        setCooldownSpins(existingTrigger.cooldownSpins || 0);
+        setMaxActivations(existingTrigger.maxActivations || 0);
       } else {
         // Defaults
+        setCondition(null);
+        setBetMode('TARGET');
+        setLayout([]);
         setSelectedPlacement(null);
         setRule('MISS_STREAK');
         setThreshold(3);
+        setWindow(10);
         setAmount(5);
+        setPersistence('SPIN');
+        setMaxAttempts(0);
+        setProgression(undefined);
+        setLadderSequence('1,2,3,5,8');
+        setCooldownSpins(0);
+        setMaxActivations(0);
       }
     }
   }, [isOpen, existingTrigger]);
 
   if (!isOpen) return null;
 
+  const targetless = isTargetlessTriggerRule(rule);
+  const usesWindow = rule === 'MISSED_OF_LAST' || rule === 'FREQUENCY_BELOW';
+  // Sleeper and repeat rules choose their own bet, so they cannot take a layout. Compound conditions always bet one.
+  const picksOwnBet = !condition && (targetless || rule === 'SLEEPER');
+  const layoutMode = !!condition || (betMode === 'LAYOUT' && !picksOwnBet);
+  const layoutTotal = layout.reduce((s, b) => s + b.amount, 0);
+  const hasCondition = condition ? !!findFirstPredicate(condition) && conditionHasTargets(condition) : !!selectedPlacement || targetless;
+  const canSave = hasCondition && (!layoutMode || layout.length > 0);
+  const selectedNode = condition && selectedNodeId ? findConditionNode(condition, selectedNodeId) : null;
+
+  // Sensible starting values when switching rule
+  const handleRuleChange = (next: TriggerRule) => {
+    setRule(next);
+    setThreshold(TRIGGER_RULE_DEFAULTS[next].threshold);
+    if (TRIGGER_RULE_DEFAULTS[next].window) setWindow(TRIGGER_RULE_DEFAULTS[next].window!);
+  };
+
+  // Compound mode starts from the single rule: "<current rule> AND <new rule>"
+  const handleToggleCompound = (compound: boolean) => {
+    if (!compound) {
+      setCondition(null);
+      setSelectedNodeId(null);
+      return;
+    }
+    const first = { ...createTriggerPredicate(targetless ? getTargetlessPlacement(rule) : selectedPlacement || undefined), rule, threshold, window: usesWindow ? window : undefined };
+    const second = createTriggerPredicate();
+    setCondition(createTriggerGroup('AND', [first, second]));
+    setSelectedNodeId(second.id);
+  };
+
+  const usesLadder = !!progression && (progression.onWinAction === ProgressionAction.LADDER || progression.onLossAction === ProgressionAction.LADDER);
+
+  const handleToggleProgression = (enabled: boolean) => {
+    setProgression(enabled
+      ? { onWinAction: ProgressionAction.RESET, onWinValue: 0, onLossAction: ProgressionAction.MULTIPLY, onLossValue: 2 }
+      : undefined);
+  };
+
   const handleTableClick = (placement: BetPlacement) => {
-    setSelectedPlacement(placement);
+    if (!condition) {
+      setSelectedPlacement(placement);
+      return;
+    }
+    // Compound mode: the table sets the selected rule's target
+    if (selectedNode?.kind === 'RULE' && !isTargetlessTriggerRule(selectedNode.rule)) {
+      setCondition(updateConditionNode(condition, selectedNode.id, node => ({ ...node, target: placement })));
+    }
+  };
+
+  // Layout editing works like the main board: click adds a chip of the bet amount, right-click takes one off
+  const handleLayoutSelect = (placement: BetPlacement) => {
+    const id = getPlacementIdentifier(placement);
+    const index = layout.findIndex(b => getPlacementIdentifier(b.placement) === id);
+    if (index >= 0) {
+      setLayout(layout.map((b, i) => i === index ? { ...b, amount: b.amount + amount } : b));
+    } else {
+      setLayout([...layout, { id: Date.now().toString() + Math.random(), placement, amount }]);
+    }
+  };
+
+  const handleLayoutRemove = (placement: BetPlacement, removeAll: boolean) => {
+    const id = getPlacementIdentifier(placement);
+    const index = layout.findIndex(b => getPlacementIdentifier(b.placement) === id);
+    if (index === -1) return;
+    if (removeAll || layout[index].amount <= amount) {
+      setLayout(layout.filter((_, i) => i !== index));
+    } else {
+      setLayout(layout.map((b, i) => i === index ? { ...b, amount: b.amount - amount } : b));
+    }
   };
 
   const handleSave = () => {
-    if (!selectedPlacement) return;
+    if (!canSave) return;
+    // Compound triggers keep their first rule in the single-rule fields
+    const first = condition ? findFirstPredicate(condition) : null;
+    const target = first ? first.target : targetless ? getTargetlessPlacement(rule) : selectedPlacement!;
     
     const newTrigger: TriggerBet = {
       id: existingTrigger?.id || Date.now().toString(),
       active: true,
-      triggerPlacement: selectedPlacement,
-      rule,
-      threshold,
-      betAmount: amount,
-      betPlacement: selectedPlacement // Currently betting on the target itself
+      triggerPlacement: target,
+      rule: first ? first.rule : rule,
+      threshold: first ? first.threshold : threshold,
+      window: first ? first.window : usesWindow ? window : undefined,
+      condition: condition || undefined,
+      betAmount: layoutMode ? layoutTotal : amount,
+      betPlacement: layoutMode ? layout[0].placement : target, // Sleeper and repeat rules pick their own
+      betLayout: layoutMode ? layout : undefined,
+      persistence: persistence === 'UNTIL_HIT' ? persistence : undefined,
+      maxAttempts: maxAttempts || undefined,
+      progression,
+      ladderSequence: usesLadder ? ladderSequence : undefined,
+      cooldownSpins: cooldownSpins || undefined,
+      maxActivations: maxActivations || undefined
     };
     onSave(newTrigger);
     onClose();
   };
 
+  const highlightPlacement = condition
+    ? (selectedNode?.kind === 'RULE' && !isTargetlessTriggerRule(selectedNode.rule) ? selectedNode.target : null)
+    : selectedPlacement;
+
+  let overlayText: string | null = null;
+  if (step === 'BET' && layoutMode) overlayText = layout.length === 0 ? 'Place the bets to make when it fires' : null;
+  else if (condition) overlayText = !highlightPlacement ? 'Select a rule on the left, then click its target' : null;
+  else if (!selectedPlacement && !targetless) overlayText = 'Select a spot on the table to start';
+
   // Preview Chip for Table
-  const previewBets = selectedPlacement ? [{
+  const previewBets = selectedPlacement && !targetless ? [{
     id: 'preview',
     placement: selectedPlacement,
     amount: amount
@@ -90,81 +244,245 @@ const TriggerSetupModal: React.FC<TriggerSetupModalProps> = ({
           {/* Left: Configuration Panel */}
           <div className="w-full lg:w-80 bg-slate-800/50 p-6 border-r border-slate-700 flex flex-col gap-6 overflow-y-auto">
              
-             {/* 1. Target Selection Info */}
-             <div className="space-y-2">
-               <label className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
-                 <Target size={14} className="text-indigo-400" />
-                 Target Selection
-               </label>
-               {selectedPlacement ? (
-                 <div className="p-3 bg-indigo-900/20 border border-indigo-500/30 rounded-lg">
-                    <div className="text-indigo-300 font-bold text-lg">{selectedPlacement.displayName}</div>
-                    <div className="text-[10px] text-slate-500 mt-1">
-                      Covers {selectedPlacement.numbers.length} numbers
-                    </div>
+             {/* Steps: watch a target, then choose what to bet */}
+             <div className="flex bg-slate-900 rounded-lg p-1 border border-slate-700">
+                {(['WATCH', 'BET'] as SetupStep[]).map((st, i) => (
+                   <button key={st} onClick={() => setStep(st)} className={`flex-1 py-1.5 text-xs font-bold uppercase rounded transition-colors ${step === st ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}>
+                      {i + 1}. {st === 'WATCH' ? 'Watch' : 'Bet'}
+                   </button>
+                ))}
+             </div>
+
+             {step === 'WATCH' && (
+               <>
+               <div className="flex bg-slate-900 rounded-lg p-1 border border-slate-700">
+                  <button onClick={() => handleToggleCompound(false)} className={`flex-1 py-1.5 text-xs font-bold rounded transition-colors ${!condition ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}>
+                     Single Rule
+                  </button>
+                  <button onClick={() => !condition && handleToggleCompound(true)} className={`flex-1 py-1.5 text-xs font-bold rounded transition-colors ${condition ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}>
+                     AND / OR / NOT
+                  </button>
+               </div>
+
+               {condition ? (
+                 <div className="space-y-2">
+                    <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">Compound Condition</label>
+                    <TriggerConditionEditor root={condition} onChange={setCondition} selectedId={selectedNodeId} onSelect={setSelectedNodeId} />
+                    <p className="text-[10px] text-slate-500">Select a rule, then click the table to set what it watches. NOT holds while its condition does not. The spin log names the branches that fired.</p>
                  </div>
                ) : (
-                 <div className="p-4 bg-slate-800 border border-dashed border-slate-600 rounded-lg text-slate-500 text-sm italic text-center">
-                   Click on the table to select a trigger target (e.g. Red, #17, 1st Dozen)
+                 <>
+                 {/* 1. Target Selection Info */}
+                 <div className="space-y-2">
+                   <label className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+                     <Target size={14} className="text-indigo-400" />
+                     Target Selection
+                   </label>
+                   {targetless ? (
+                     <div className="p-3 bg-slate-800 border border-slate-600 rounded-lg text-slate-400 text-xs">
+                        No target needed: the bet goes on whichever {rule === 'DOZEN_REPEAT' ? 'dozen' : 'column'} is repeating.
+                     </div>
+                   ) : selectedPlacement ? (
+                     <div className="p-3 bg-indigo-900/20 border border-indigo-500/30 rounded-lg">
+                        <div className="text-indigo-300 font-bold text-lg">{selectedPlacement.displayName}</div>
+                        <div className="text-[10px] text-slate-500 mt-1">
+                          Covers {selectedPlacement.numbers.length} numbers
+                        </div>
+                     </div>
+                   ) : (
+                     <div className="p-4 bg-slate-800 border border-dashed border-slate-600 rounded-lg text-slate-500 text-sm italic text-center">
+                       Click on the table to select a trigger target (e.g. Red, #17, 1st Dozen)
+                     </div>
+                   )}
                  </div>
-               )}
-             </div>
 
-             {/* 2. Logic Rules */}
-             <div className="space-y-4">
-                <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">Logic Condition</label>
+                 {/* 2. Logic Rules */}
+                 <div className="space-y-4">
+                    <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">Logic Condition</label>
                 
-                <div className="flex flex-col gap-3">
-                   <div className="flex items-center gap-2">
-                      <select 
-                        value={rule} 
-                        onChange={(e) => setRule(e.target.value as TriggerRule)}
-                        className="flex-1 bg-slate-900 border border-slate-600 rounded px-3 py-2 text-white text-sm focus:border-indigo-500 outline-none"
-                      >
-                        <option value="MISS_STREAK">Has Missed (Streak)</option>
-                        <option value="HIT_STREAK">Has Hit (Streak)</option>
-                      </select>
-                   </div>
+                    <div className="flex flex-col gap-3">
+                       <div className="flex items-center gap-2">
+                          <select 
+                            value={rule} 
+                            onChange={(e) => handleRuleChange(e.target.value as TriggerRule)}
+                            className="flex-1 bg-slate-900 border border-slate-600 rounded px-3 py-2 text-white text-sm focus:border-indigo-500 outline-none"
+                          >
+                            {(Object.keys(TRIGGER_RULE_LABELS) as TriggerRule[]).map(r => (
+                              <option key={r} value={r}>{TRIGGER_RULE_LABELS[r]}</option>
+                            ))}
+                          </select>
+                       </div>
                    
-                   <div className="flex items-center gap-3">
-                      <span className="text-sm text-slate-400">For</span>
-                      <input 
-                        type="number" 
-                        value={threshold}
-                        onChange={(e) => setThreshold(Math.max(1, parseInt(e.target.value) || 1))}
-                        className="w-20 bg-slate-900 border border-slate-600 rounded px-3 py-2 text-white text-sm font-bold text-center"
-                      />
-                      <span className="text-sm text-slate-400">Times</span>
-                   </div>
-                </div>
-             </div>
+                       <div className="flex items-center gap-3">
+                          <span className="text-sm text-slate-400">{thresholdText[rule][0]}</span>
+                          <input 
+                            type="number" 
+                            value={threshold}
+                            step={rule === 'FREQUENCY_BELOW' ? 0.1 : 1}
+                            onChange={(e) => setThreshold(rule === 'FREQUENCY_BELOW' ? Math.max(0.1, parseFloat(e.target.value) || 0.1) : Math.max(1, parseInt(e.target.value) || 1))}
+                            className="w-20 bg-slate-900 border border-slate-600 rounded px-3 py-2 text-white text-sm font-bold text-center"
+                          />
+                          <span className="text-sm text-slate-400">{thresholdText[rule][1]}</span>
+                       </div>
 
-             {/* 3. Bet Action */}
-             <div className="space-y-4 pt-4 border-t border-slate-700/50">
-                <label className="text-xs font-bold text-emerald-400 uppercase tracking-wider">Action: Place Bet</label>
-                <div className="flex items-center gap-3 bg-slate-900 p-3 rounded-lg border border-slate-700">
-                   <span className="text-sm text-slate-400">Bet Amount:</span>
-                   <div className="flex items-center text-white font-mono">
-                      <span className="text-emerald-500 mr-1">$</span>
-                      <input 
-                        type="number" 
-                        value={amount}
-                        onChange={(e) => setAmount(Math.max(1, parseInt(e.target.value) || 1))}
-                        className="w-20 bg-transparent outline-none border-b border-slate-600 focus:border-emerald-500 text-center font-bold"
-                      />
-                   </div>
-                </div>
-                <div className="text-[10px] text-slate-500 text-center">
-                   Bet will be placed on <strong>{selectedPlacement?.displayName || 'Target'}</strong>
-                </div>
-             </div>
+                       {usesWindow && (
+                         <div className="flex items-center gap-3">
+                            <span className="text-sm text-slate-400">Over the last</span>
+                            <input 
+                              type="number" 
+                              value={window}
+                              onChange={(e) => setWindow(Math.max(1, parseInt(e.target.value) || 1))}
+                              className="w-20 bg-slate-900 border border-slate-600 rounded px-3 py-2 text-white text-sm font-bold text-center"
+                            />
+                            <span className="text-sm text-slate-400">Spins</span>
+                         </div>
+                       )}
+
+                       <p className="text-[10px] text-slate-500">{ruleHelp[rule]}</p>
+                    </div>
+                 </div>
+                 </>
+               )}
+
+               <button
+                 onClick={() => setStep('BET')}
+                 disabled={!hasCondition}
+                 className="w-full py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-white text-sm font-bold rounded-lg transition-colors"
+               >
+                 Next: Choose the Bet
+               </button>
+               </>
+             )}
+
+             {step === 'BET' && (
+               <>
+               {/* 3. Bet Action */}
+               <div className="space-y-4 pt-4 border-t border-slate-700/50">
+                  <label className="text-xs font-bold text-emerald-400 uppercase tracking-wider">Action: Place Bet</label>
+                  <div className="flex bg-slate-900 rounded-lg p-1 border border-slate-700">
+                     <button onClick={() => setBetMode('TARGET')} disabled={!!condition} title={condition ? 'Compound conditions bet a layout' : undefined} className={`flex-1 py-1.5 text-xs font-bold rounded transition-colors disabled:opacity-40 ${!layoutMode ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}>
+                        Watched Target
+                     </button>
+                     <button onClick={() => setBetMode('LAYOUT')} disabled={picksOwnBet} title={picksOwnBet ? 'This rule picks its own bet' : undefined} className={`flex-1 py-1.5 text-xs font-bold rounded transition-colors disabled:opacity-40 ${layoutMode ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}>
+                        Different Layout
+                     </button>
+                  </div>
+                  <div className="flex items-center gap-3 bg-slate-900 p-3 rounded-lg border border-slate-700">
+                     <span className="text-sm text-slate-400">{layoutMode ? 'Chip:' : 'Bet Amount:'}</span>
+                     <div className="flex items-center text-white font-mono">
+                        <span className="text-emerald-500 mr-1">$</span>
+                        <input 
+                          type="number" 
+                          value={amount}
+                          onChange={(e) => setAmount(Math.max(1, parseInt(e.target.value) || 1))}
+                          className="w-20 bg-transparent outline-none border-b border-slate-600 focus:border-emerald-500 text-center font-bold"
+                        />
+                     </div>
+                  </div>
+                  {layoutMode ? (
+                    <div className="space-y-1">
+                       {layout.length === 0 ? (
+                         <div className="p-3 bg-slate-800 border border-dashed border-slate-600 rounded-lg text-slate-500 text-xs italic text-center">
+                            Click the table to add chips. Right-click a stack to take one off.
+                         </div>
+                       ) : layout.map(b => (
+                         <div key={b.id} className="flex items-center gap-2 px-2 py-1 bg-slate-900 border border-slate-700 rounded text-xs">
+                            <span className="flex-1 truncate text-slate-300">{b.placement.displayName}</span>
+                            <span className="font-mono text-emerald-400">${b.amount}</span>
+                            <button onClick={() => handleLayoutRemove(b.placement, true)} className="text-slate-500 hover:text-red-400"><X size={12} /></button>
+                         </div>
+                       ))}
+                       {layout.length > 0 && (
+                         <div className="text-[10px] text-slate-500 text-right font-mono">Total ${layoutTotal}</div>
+                       )}
+                    </div>
+                  ) : (
+                  <div className="text-[10px] text-slate-500 text-center">
+                     {rule === 'SLEEPER'
+                       ? <>Bet goes straight up on the longest-sleeping number of <strong>{selectedPlacement?.displayName || 'Target'}</strong></>
+                       : targetless
+                         ? <>Bet goes on the repeating {rule === 'DOZEN_REPEAT' ? 'dozen' : 'column'}</>
+                         : <>Bet will be placed on <strong>{selectedPlacement?.displayName || 'Target'}</strong></>}
+                  </div>
+                  )}
+               </div>
+
+               {/* 4. Staking */}
+               <div className="space-y-3 pt-4 border-t border-slate-700/50">
+                  <label className="text-xs font-bold text-amber-400 uppercase tracking-wider">Staking</label>
+                  <select
+                    value={persistence}
+                    onChange={(e) => setPersistence(e.target.value as TriggerPersistence)}
+                    className="w-full bg-slate-900 border border-slate-600 rounded px-3 py-2 text-white text-sm focus:border-indigo-500 outline-none"
+                  >
+                    <option value="SPIN">Bet while the condition holds</option>
+                    <option value="UNTIL_HIT">Keep betting until it hits</option>
+                  </select>
+
+                  <div className="grid grid-cols-2 gap-2 text-xs text-slate-400">
+                     {([
+                       ['Max attempts', maxAttempts, setMaxAttempts],
+                       ['Cooldown (spins)', cooldownSpins, setCooldownSpins],
+                       ['Max per session', maxActivations, setMaxActivations]
+                     ] as [string, number, (n: number) => void][]).map(([text, value, setValue]) => (
+                       <label key={text} className="flex flex-col gap-1">
+                          <span>{text}</span>
+                          <input 
+                            type="number" 
+                            min={0}
+                            value={value}
+                            onChange={(e) => setValue(Math.max(0, parseInt(e.target.value) || 0))}
+                            className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-white text-sm font-bold text-center"
+                          />
+                       </label>
+                     ))}
+                  </div>
+                  <p className="text-[10px] text-slate-500">0 means no limit. The cooldown starts once the bet hits, runs out of attempts or its condition lapses.</p>
+
+                  <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer select-none">
+                     <input type="checkbox" checked={!!progression} onChange={(e) => handleToggleProgression(e.target.checked)} className="rounded bg-slate-900 border-slate-600 text-indigo-500 focus:ring-0"/>
+                     Own progression between attempts
+                  </label>
+                  {progression && (
+                    <div className="grid grid-cols-2 gap-2">
+                       {(['win', 'loss'] as const).map(side => {
+                         const action = side === 'win' ? progression.onWinAction : progression.onLossAction;
+                         const value = side === 'win' ? progression.onWinValue : progression.onLossValue;
+                         return (
+                           <div key={side} className="flex gap-1">
+                              <select value={action} onChange={(e) => setProgression({ ...progression, ...(side === 'win' ? { onWinAction: e.target.value as ProgressionAction } : { onLossAction: e.target.value as ProgressionAction }) })} title={side === 'win' ? 'On the trigger bet winning' : 'On the trigger bet losing'} className={`flex-1 min-w-0 bg-slate-900 border rounded px-1 py-1 text-xs text-white ${side === 'win' ? 'border-green-700' : 'border-red-700'}`}>
+                                 <option value={ProgressionAction.RESET}>Reset</option>
+                                 <option value={ProgressionAction.MULTIPLY}>Multiply</option>
+                                 <option value={ProgressionAction.ADD_UNITS}>Add Unit</option>
+                                 <option value={ProgressionAction.SUBTRACT_UNITS}>Sub Unit</option>
+                                 <option value={ProgressionAction.FIBONACCI}>Fibonacci</option>
+                                 <option value={ProgressionAction.LADDER}>Ladder</option>
+                                 <option value={ProgressionAction.DO_NOTHING}>Flat</option>
+                              </select>
+                              {action !== ProgressionAction.RESET && action !== ProgressionAction.DO_NOTHING && (
+                                <input type="number" value={value} onChange={(e) => setProgression({ ...progression, ...(side === 'win' ? { onWinValue: parseFloat(e.target.value) } : { onLossValue: parseFloat(e.target.value) }) })} className="w-12 bg-slate-900 border border-slate-600 rounded px-1 py-1 text-xs text-white"/>
+                              )}
+                           </div>
+                         );
+                       })}
+                    </div>
+                  )}
+                  {usesLadder && (
+                    <input type="text" value={ladderSequence} onChange={(e) => setLadderSequence(e.target.value)} placeholder="1,2,3,5,8" className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white font-mono"/>
+                  )}
+                  {progression && (
+                    <p className="text-[10px] text-slate-500">The stake is the bet x the multiplier, capped at the table maximum. Each new activation starts back at x1.</p>
+                  )}
+               </div>
+               </>
+             )}
 
              <div className="flex-1"></div>
 
              {/* Save Button */}
              <button 
                onClick={handleSave}
-               disabled={!selectedPlacement}
+               disabled={!canSave}
                className="w-full py-3 bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-700 disabled:text-slate-500 text-white font-bold rounded-xl shadow-lg transition-all flex items-center justify-center gap-2"
              >
                <Check size={18} />
@@ -176,19 +494,29 @@ const TriggerSetupModal: React.FC<TriggerSetupModalProps> = ({
           {/* Right: Table Area */}
           <div className="flex-1 bg-slate-950 p-8 flex items-center justify-center relative overflow-hidden">
              <div className="scale-90 lg:scale-100 xl:scale-110 transition-transform origin-center">
-                <RouletteTable 
-                  bets={previewBets}
-                  onBetSelect={handleTableClick}
-                  triggerMode={true}
-                  triggerHighlightIds={selectedPlacement ? [getPlacementIdentifier(selectedPlacement)] : []}
-                />
+                {step === 'BET' && layoutMode ? (
+                  <RouletteTable 
+                    bets={layout}
+                    onBetSelect={handleLayoutSelect}
+                    onStackDelete={handleLayoutRemove}
+                    wheelType={wheelType}
+                  />
+                ) : (
+                  <RouletteTable 
+                    bets={previewBets}
+                    onBetSelect={handleTableClick}
+                    triggerMode={true}
+                    wheelType={wheelType}
+                    triggerHighlightIds={highlightPlacement ? [getPlacementIdentifier(highlightPlacement)] : []}
+                  />
+                )}
              </div>
              
              {/* Instructions Overlay if empty */}
-             {!selectedPlacement && (
+             {overlayText && (
                <div className="absolute top-10 left-1/2 -translate-x-1/2 bg-slate-800/90 text-white px-4 py-2 rounded-full shadow-xl border border-slate-600 text-sm flex items-center gap-2 pointer-events-none animate-bounce">
                  <AlertCircle size={16} className="text-indigo-400" />
-                 Select a spot on the table to start
+                 {overlayText}
                </div>
              )}
           </div>
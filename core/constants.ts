@@ -1,14 +1,48 @@
 
 // CORE — DO NOT MODIFY WITHOUT INTENT
-import { BetType } from './types';
+import { BetType, WheelType, ZeroRule, TerminationReason, BatchRetention, ProgressionAction, ProgressionSystem, LadderTopAction, BetSizingMode, WinDefinition, ResetConditionType, LaneRuleCondition, LaneRuleAction, TriggerRule, ProgressionConfig, SimulationSettings } from './types';
 
+// American wheel order (clockwise from 0)
 export const NUMBERS = [
   '0', '28', '9', '26', '30', '11', '7', '20', '32', '17', '5', '22', '34', '15', '3', '24', '36', '13', '1', '00', '27', '10', '25', '29', '12', '8', '19', '31', '18', '6', '21', '33', '16', '4', '23', '35', '14', '2'
 ];
 
+export const EUROPEAN_NUMBERS = [
+  '0', '32', '15', '19', '4', '21', '2', '25', '17', '34', '6', '27', '13', '36', '11', '30', '8', '23', '10', '5', '24', '16', '33', '1', '20', '14', '31', '9', '22', '18', '29', '7', '28', '12', '35', '3', '26'
+];
+
+// American layout with the 000 pocket inserted after 00
+export const TRIPLE_ZERO_NUMBERS = [
+  '0', '28', '9', '26', '30', '11', '7', '20', '32', '17', '5', '22', '34', '15', '3', '24', '36', '13', '1', '00', '000', '27', '10', '25', '29', '12', '8', '19', '31', '18', '6', '21', '33', '16', '4', '23', '35', '14', '2'
+];
+
+// Physical wheel order per variant. Drives pocket generation.
+export const WHEEL_ORDERS: Record<WheelType, string[]> = {
+  EUROPEAN: EUROPEAN_NUMBERS,
+  AMERICAN: NUMBERS,
+  TRIPLE_ZERO: TRIPLE_ZERO_NUMBERS,
+};
+
+export const WHEEL_LABELS: Record<WheelType, string> = {
+  EUROPEAN: 'European (0)',
+  AMERICAN: 'American (0/00)',
+  TRIPLE_ZERO: 'Triple Zero (0/00/000)',
+};
+
+// Normalized values of the green pockets on each wheel (see SpinResult.value)
+export const ZERO_POCKETS: Record<WheelType, number[]> = {
+  EUROPEAN: [0],
+  AMERICAN: [0, -1],
+  TRIPLE_ZERO: [0, -1, -2],
+};
+
+export const ZERO_DISPLAY: Record<number, string> = { 0: '0', [-1]: '00', [-2]: '000' };
+
 export const RED_NUMBERS = [1, 3, 5, 7, 9, 12, 14, 16, 18, 19, 21, 23, 25, 27, 30, 32, 34, 36];
 export const BLACK_NUMBERS = [2, 4, 6, 8, 10, 11, 13, 15, 17, 20, 22, 24, 26, 28, 29, 31, 33, 35];
 
+export const SEQUENCE_1326 = [1, 3, 2, 6];
+
 export const FIB_SEQUENCE = [1, 1, 2, 3, 5, 8, 13, 21, 34, 55, 89, 144, 233, 377, 610, 987, 1597, 2584, 4181, 6765, 10946, 17711];
 
 export const OUTSIDE_BET_TYPES = new Set([
@@ -19,8 +53,101 @@ export const OUTSIDE_BET_TYPES = new Set([
   BetType.RED, BetType.BLACK
 ]);
 
+// Bets covered by La Partage / En Prison / Surrender
+export const EVEN_MONEY_BET_TYPES = new Set([
+  BetType.LOW_1_18, BetType.HIGH_19_36,
+  BetType.EVEN, BetType.ODD,
+  BetType.RED, BetType.BLACK
+]);
+
+export const ZERO_RULE_LABELS: Record<ZeroRule, string> = {
+  STANDARD: 'Standard',
+  LA_PARTAGE: 'La Partage',
+  EN_PRISON: 'En Prison',
+  SURRENDER: 'Surrender',
+};
+
+export const TERMINATION_LABELS: Record<TerminationReason, string> = {
+  GOAL_HIT: 'Goal Hit',
+  STOP_LOSS: 'Stop Loss',
+  BUST: 'Bust',
+  INSUFFICIENT_FUNDS: 'Insufficient Funds',
+  SPINS_EXHAUSTED: 'Spins Exhausted',
+};
+
+export const RETENTION_LABELS: Record<BatchRetention, string> = {
+  FULL: 'Full Detail',
+  SUMMARY: 'Summary Only',
+};
+
+export const PROGRESSION_SYSTEM_LABELS: Record<ProgressionSystem, string> = {
+  ACTIONS: 'Win / Loss Actions',
+  LABOUCHERE: 'Labouchère',
+  OSCARS_GRIND: "Oscar's Grind",
+  PAROLI: 'Paroli',
+  ONE_THREE_TWO_SIX: '1-3-2-6',
+  RECOVERY: 'Recovery Target',
+};
+
+export const LADDER_TOP_LABELS: Record<LadderTopAction, string> = {
+  HOLD: 'Hold Top Rung',
+  RESET: 'Reset to First Rung',
+  STOP: 'Stop Lane',
+};
+
+export const SIZING_MODE_LABELS: Record<BetSizingMode, string> = {
+  FIXED: 'Fixed Chips',
+  PERCENT_LANE: '% of Lane Bankroll',
+  PERCENT_GLOBAL: '% of Total Bankroll',
+};
+
+export const WIN_DEFINITION_LABELS: Record<WinDefinition, string> = {
+  NET_NON_NEGATIVE: 'Net ≥ 0',
+  NET_POSITIVE: 'Net > 0',
+  ANY_HIT: 'Any Bet Hits',
+  PRIMARY_HIT: 'Primary Bet Hits',
+};
+
+export const LANE_RULE_CONDITION_LABELS: Record<LaneRuleCondition, string> = {
+  LOSS_STREAK: 'Lane Loss Streak ≥',
+  WIN_STREAK: 'Lane Win Streak ≥',
+  LANE_PROFIT_ABOVE: 'Lane Profit ≥ $',
+  LANE_PROFIT_BELOW: 'Lane Profit ≤ $',
+  GLOBAL_PROFIT_ABOVE: 'Global Profit ≥ $',
+  GLOBAL_PROFIT_BELOW: 'Global Profit ≤ $',
+  TARGET_HITS: 'Target Hit in Last Spins',
+};
+
+export const LANE_RULE_ACTION_LABELS: Record<LaneRuleAction, string> = {
+  GOTO_CHAIN_STEP: 'Go to Chain Step',
+  SCALE_BASE: 'Multiply Base Unit',
+  RESET_PROGRESSION: 'Reset Progression',
+  DISABLE_LANE: 'Disable Lane',
+  ENABLE_LANE: 'Enable Lane',
+};
+
+export const TRIGGER_RULE_LABELS: Record<TriggerRule, string> = {
+  MISS_STREAK: 'Has Missed (Streak)',
+  HIT_STREAK: 'Has Hit (Streak)',
+  MISSED_OF_LAST: 'Missed N of Last M',
+  SLEEPER: 'Sleeper Number',
+  DOZEN_REPEAT: 'Same Dozen in a Row',
+  COLUMN_REPEAT: 'Same Column in a Row',
+  COLOR_ALTERNATION: 'Colours Alternating',
+  FREQUENCY_BELOW: 'Cold vs Expectation',
+};
+
+export const RESET_CONDITION_LABELS: Record<ResetConditionType, string> = {
+  NEW_PEAK: 'Lane Hits New Peak',
+  CYCLE_SPINS: 'Spins in Cycle ≥',
+  STEP_ABOVE: 'Progression Step >',
+  LANE_DRAWDOWN: 'Lane Drawdown > $',
+  BANKROLL_ABOVE: 'Bankroll Rises to $',
+  BANKROLL_BELOW: 'Bankroll Falls to $',
+};
+
 export const getNumberColor = (num: number | string): 'red' | 'black' | 'green' => {
-  if (num === '0' || num === '00' || num === 0 || num === -1) return 'green';
+  if (num === '0' || num === '00' || num === '000' || num === 0 || num === -1 || num === -2) return 'green';
   const n = Number(num);
   if (RED_NUMBERS.includes(n)) return 'red';
   if (BLACK_NUMBERS.includes(n)) return 'black';
@@ -46,7 +173,7 @@ export const PAYOUTS: Record<BetType, number> = {
   [BetType.CORNER]: 8,
   [BetType.SIX_LINE]: 5,
   [BetType.TOP_LINE]: 6, // 0, 00, 1, 2, 3
-  [BetType.BASKET]: 11,  // 0, 1, 2 OR 0, 00, 2 (Three numbers -> Street odds)
+  [BetType.BASKET]: 11,  // 0, 1, 2 OR 0, 00, 2 OR 0, 00, 000 (Three numbers -> Street odds)
   [BetType.COLUMN_1ST]: 2,
   [BetType.COLUMN_2ND]: 2,
   [BetType.COLUMN_3RD]: 2,
@@ -60,3 +187,81 @@ export const PAYOUTS: Record<BetType, number> = {
   [BetType.RED]: 1,
   [BetType.BLACK]: 1,
 };
+
+// Default lane config, also used to fill fields missing from older saved strategies
+// Starting point for new SCRIPT lanes: a red martingale
+export const DEFAULT_LANE_SCRIPT = `// Available: history, balance, bankroll, spin, state, table, bet(target, amount)
+// Return the bets for the next spin, or [] to sit out.
+const last = history[history.length - 1];
+if (!last || last.profit >= 0) state.units = 1;
+else state.units = (state.units || 1) * 2;
+return [bet('red', 10 * state.units)];
+`;
+
+export const createDefaultConfig = (): ProgressionConfig => ({
+  strategyMode: 'STATIC',
+  baseUnit: 5,
+  sizingMode: 'FIXED',
+  sizingPercent: 2,
+  winDefinition: 'NET_NON_NEGATIVE',
+  onWinAction: ProgressionAction.RESET,
+  onWinValue: 0,
+  onLossAction: ProgressionAction.MULTIPLY,
+  onLossValue: 2,
+  onPushAction: ProgressionAction.DO_NOTHING,
+  onPushValue: 0,
+  resetOnSessionProfit: 150,
+  useResetOnSessionProfit: false,
+  resetConditions: [],
+  progressionSystem: 'ACTIONS',
+  labouchereLine: "1,2,3,4",
+  labouchereMaxLength: 12,
+  ladderSequence: "1,1,2,3,5,8,12,18,27",
+  ladderTopAction: 'HOLD',
+  paroliWins: 3,
+  recoveryTarget: 10,
+  recoveryMaxLosses: 6,
+  sequence: "red, black",
+  onWinUnits: -1,
+  onLossUnits: 1,
+  minUnits: 1,
+  rotateOnWin: true,
+  rotateOnLoss: true,
+  // Chain Defaults
+  chainSteps: [],
+  chainOnWin: ProgressionAction.RESTART_CHAIN,
+  chainOnLoss: ProgressionAction.NEXT_CHAIN_STEP,
+  chainLoop: true,
+  // Script Defaults
+  script: DEFAULT_LANE_SCRIPT,
+  scriptTimeLimitMs: 50,
+  // Shadow Defaults
+  useShadow: false,
+  shadowLossesToGoLive: 3,
+  shadowWinsToGoVirtual: 1
+});
+
+export const DEFAULT_SIMULATION_SETTINGS: SimulationSettings = {
+  startingBankroll: 1000,
+  tableMin: 1,
+  tableMax: 1000,
+  spinsPerSimulation: 100,
+  numberOfSimulations: 1,
+  wheelType: 'AMERICAN',
+  zeroRule: 'STANDARD',
+  stopLoss: 500,
+  stopLossMode: 'ABSOLUTE',
+  useStopLoss: false,
+  useTimeLimit: false,
+  timeLimitMinutes: 120,
+  spinsPerHour: 40,
+  totalProfitGoal: 500,
+  useTotalProfitGoal: false,
+  fixedOutcomeSequence: '',
+  seed: 0,
+  useFixedSeed: false,
+  retentionMode: 'FULL',
+  sampleRuns: 3,
+  equityCurvePoints: 200,
+  useEquityCurve: false
+};
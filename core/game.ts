@@ -1,41 +1,24 @@
 
 // CORE — DO NOT MODIFY WITHOUT INTENT
-import { PlacedBet, SpinResult, BetType, BetPlacement } from './types';
-import { RED_NUMBERS, BLACK_NUMBERS } from './constants';
+import { PlacedBet, SpinResult, BetType, BetPlacement, WheelType } from './types';
+import { RED_NUMBERS, BLACK_NUMBERS, WHEEL_ORDERS, ZERO_POCKETS, ZERO_DISPLAY } from './constants';
+import { Rng } from './rng';
 
-export const spinWheel = (): SpinResult => {
-  // American Roulette: 1-36, 0, 00 (38 pockets)
-  const pocketIndex = Math.floor(Math.random() * 38);
-  
-  let value: number;
-  let display: string;
-  let color: 'red' | 'black' | 'green';
-
-  if (pocketIndex === 37) {
-    value = -1; // 00
-    display = '00';
-    color = 'green';
-  } else if (pocketIndex === 0) {
-    value = 0;
-    display = '0';
-    color = 'green';
-  } else {
-    value = pocketIndex;
-    display = value.toString();
-    color = RED_NUMBERS.includes(value) ? 'red' : 'black';
-  }
-
-  return { value, display, color };
+export const spinWheel = (rng: Rng = Math.random, wheelType: WheelType = 'AMERICAN'): SpinResult => {
+  // Pick a pocket uniformly from the physical wheel (37, 38 or 39 pockets)
+  const pockets = WHEEL_ORDERS[wheelType];
+  const pocketIndex = Math.floor(rng() * pockets.length);
+  return getSpinResult(pockets[pocketIndex]);
 };
 
 export const getSpinResult = (val: string | number): SpinResult => {
   const display = val.toString().trim();
-  const num = display === '00' ? -1 : Number(display);
+  const num = display === '000' ? -2 : display === '00' ? -1 : Number(display);
   
   let color: 'red' | 'black' | 'green';
   let value: number;
   
-  if (num === -1 || num === 0) {
+  if (num === -2 || num === -1 || num === 0) {
     color = 'green';
     value = num;
   } else {
@@ -50,6 +33,67 @@ export const getSpinResult = (val: string | number): SpinResult => {
   return { value, display, color };
 };
 
+export const isPocketOnWheel = (value: number, wheelType: WheelType): boolean => {
+  if (value >= 1 && value <= 36) return true;
+  return ZERO_POCKETS[wheelType].includes(value);
+};
+
+// Bet types that can be placed on each wheel. Top Line (0/00/1/2/3) only exists on the double-zero layout.
+export const getValidBetTypes = (wheelType: WheelType): BetType[] => {
+  return (Object.values(BetType) as BetType[]).filter(t => t !== BetType.TOP_LINE || wheelType === 'AMERICAN');
+};
+
+export const isPlacementValidForWheel = (placement: BetPlacement, wheelType: WheelType): boolean => {
+  if (!getValidBetTypes(wheelType).includes(placement.type)) return false;
+  // The 0/00/2 basket is double-zero only too; the triple-zero table has just the 0/00/000 basket
+  if (placement.type === BetType.BASKET && placement.numbers.includes(-1) && placement.numbers.some(n => n > 0) && wheelType !== 'AMERICAN') return false;
+  return placement.numbers.every(n => isPocketOnWheel(n, wheelType));
+};
+
+// Type and sorted numbers of a placement, e.g. "SPLIT:1,2"
+const getPlacementKey = (type: BetType, numbers: number[]): string => `${type}:${[...numbers].sort((a, b) => a - b).join(',')}`;
+
+// Inside bets the table layout offers on a wheel (the same ones the betting board draws)
+const buildInsidePlacementKeys = (wheelType: WheelType): Set<string> => {
+  const keys = new Set<string>();
+  const add = (type: BetType, numbers: number[]) => keys.add(getPlacementKey(type, numbers));
+
+  for (let n = 1; n <= 36; n++) {
+    add(BetType.STRAIGHT_UP, [n]);
+    if (n % 3 !== 0) add(BetType.SPLIT, [n, n + 1]);
+    if (n <= 33) add(BetType.SPLIT, [n, n + 3]);
+    if (n % 3 !== 0 && n <= 33) add(BetType.CORNER, [n, n + 1, n + 3, n + 4]);
+    if (n % 3 === 1) add(BetType.STREET, [n, n + 1, n + 2]);
+    if (n % 3 === 1 && n <= 31) add(BetType.SIX_LINE, [n, n + 1, n + 2, n + 3, n + 4, n + 5]);
+  }
+
+  const zeros = ZERO_POCKETS[wheelType];
+  zeros.forEach(z => add(BetType.STRAIGHT_UP, [z]));
+  for (let idx = 0; idx < zeros.length - 1; idx++) add(BetType.SPLIT, [zeros[idx], zeros[idx + 1]]);
+  if (wheelType === 'EUROPEAN') {
+    add(BetType.CORNER, [0, 1, 2, 3]);
+    add(BetType.BASKET, [0, 1, 2]);
+    add(BetType.BASKET, [0, 2, 3]);
+  } else if (wheelType === 'AMERICAN') {
+    add(BetType.BASKET, [-1, 0, 2]);
+    add(BetType.TOP_LINE, [-1, 0, 1, 2, 3]);
+  } else {
+    add(BetType.BASKET, [-2, -1, 0]);
+  }
+  return keys;
+};
+
+const INSIDE_PLACEMENT_KEYS: Partial<Record<WheelType, Set<string>>> = {};
+
+/**
+ * Whether an inside bet (straight up to six line) covers numbers that really form that bet on the wheel's table,
+ * e.g. a SPLIT of two neighbouring numbers. Outside bets are not checked here.
+ */
+export const isInsidePlacementOnTable = (placement: BetPlacement, wheelType: WheelType): boolean => {
+  if (!INSIDE_PLACEMENT_KEYS[wheelType]) INSIDE_PLACEMENT_KEYS[wheelType] = buildInsidePlacementKeys(wheelType);
+  return INSIDE_PLACEMENT_KEYS[wheelType]!.has(getPlacementKey(placement.type, placement.numbers));
+};
+
 export const parseSequence = (sequenceStr: string): BetPlacement[] => {
   if (!sequenceStr.trim()) return [];
 
@@ -94,3 +138,66 @@ export const parseSequence = (sequenceStr: string): BetPlacement[] => {
 
   return placements;
 };
+
+/**
+ * Parses a comma-separated list of whole units, e.g. "1,2,3,4". Throws on anything that is not a positive integer.
+ */
+export const parseUnitList = (listStr: string): number[] => {
+  if (!listStr.trim()) return [];
+
+  return listStr.split(',').map(s => s.trim()).filter(s => s.length > 0).map(token => {
+    const n = Number(token);
+    if (!Number.isInteger(n) || n < 1) {
+      throw new Error(`Invalid unit in list: "${token}". Use whole numbers of 1 or more, e.g. 1,2,3,4`);
+    }
+    return n;
+  });
+};
+
+const ALL_NUMBERS = Array.from({ length: 36 }, (_, i) => i + 1);
+
+// Standard numbers of every outside bet
+const OUTSIDE_PLACEMENTS: Record<string, BetPlacement> = {
+  [BetType.RED]: { type: BetType.RED, numbers: [...RED_NUMBERS], displayName: 'Red' },
+  [BetType.BLACK]: { type: BetType.BLACK, numbers: [...BLACK_NUMBERS], displayName: 'Black' },
+  [BetType.EVEN]: { type: BetType.EVEN, numbers: ALL_NUMBERS.filter(n => n % 2 === 0), displayName: 'Even' },
+  [BetType.ODD]: { type: BetType.ODD, numbers: ALL_NUMBERS.filter(n => n % 2 !== 0), displayName: 'Odd' },
+  [BetType.LOW_1_18]: { type: BetType.LOW_1_18, numbers: ALL_NUMBERS.filter(n => n <= 18), displayName: '1 to 18' },
+  [BetType.HIGH_19_36]: { type: BetType.HIGH_19_36, numbers: ALL_NUMBERS.filter(n => n >= 19), displayName: '19 to 36' },
+  [BetType.DOZEN_1ST]: { type: BetType.DOZEN_1ST, numbers: ALL_NUMBERS.filter(n => n <= 12), displayName: '1st 12' },
+  [BetType.DOZEN_2ND]: { type: BetType.DOZEN_2ND, numbers: ALL_NUMBERS.filter(n => n > 12 && n <= 24), displayName: '2nd 12' },
+  [BetType.DOZEN_3RD]: { type: BetType.DOZEN_3RD, numbers: ALL_NUMBERS.filter(n => n > 24), displayName: '3rd 12' },
+  [BetType.COLUMN_1ST]: { type: BetType.COLUMN_1ST, numbers: ALL_NUMBERS.filter(n => n % 3 === 1), displayName: '1st Column' },
+  [BetType.COLUMN_2ND]: { type: BetType.COLUMN_2ND, numbers: ALL_NUMBERS.filter(n => n % 3 === 2), displayName: '2nd Column' },
+  [BetType.COLUMN_3RD]: { type: BetType.COLUMN_3RD, numbers: ALL_NUMBERS.filter(n => n % 3 === 0), displayName: '3rd Column' }
+};
+
+// Names accepted by getNamedPlacement, besides pocket numbers for straight-up bets
+const TARGET_ALIASES: Record<string, BetType> = {
+  red: BetType.RED, black: BetType.BLACK, even: BetType.EVEN, odd: BetType.ODD,
+  low: BetType.LOW_1_18, '1-18': BetType.LOW_1_18, high: BetType.HIGH_19_36, '19-36': BetType.HIGH_19_36,
+  dozen1: BetType.DOZEN_1ST, dozen2: BetType.DOZEN_2ND, dozen3: BetType.DOZEN_3RD,
+  column1: BetType.COLUMN_1ST, column2: BetType.COLUMN_2ND, column3: BetType.COLUMN_3RD
+};
+
+export const NAMED_TARGETS_HINT = 'red, black, even, odd, low, high, dozen1-3, column1-3 or a number';
+
+// Standard placement of an outside bet type (a copy)
+export const getOutsidePlacement = (type: BetType): BetPlacement => {
+  const placement = OUTSIDE_PLACEMENTS[type];
+  return { ...placement, numbers: [...placement.numbers] };
+};
+
+/**
+ * Placement for a short name used by scripts and lane rules: an outside bet (red, dozen2, column3, ...)
+ * or a pocket number ("17", "0", "00") for a straight-up bet. Returns null for anything else.
+ */
+export const getNamedPlacement = (target: string | number): BetPlacement | null => {
+  const key = String(target).trim().toLowerCase();
+  const type = TARGET_ALIASES[key];
+  if (type) return getOutsidePlacement(type);
+
+  const pocket = key === '000' ? -2 : key === '00' ? -1 : Number(key);
+  if (key === '' || !Number.isInteger(pocket) || pocket < -2 || pocket > 36) return null;
+  return { type: BetType.STRAIGHT_UP, numbers: [pocket], displayName: ZERO_DISPLAY[pocket] ?? String(pocket) };
+};
@@ -0,0 +1,36 @@
+// CORE — DO NOT MODIFY WITHOUT INTENT
+
+// A random source returning floats in [0, 1), same contract as Math.random.
+export type Rng = () => number;
+
+/**
+ * Seedable PRNG (mulberry32). The same seed always produces the same spin sequence,
+ * which is what makes a batch replayable.
+ */
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fresh 32-bit seed for batches that don't pin one.
+export const generateSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
+
+/**
+ * Derives the seed of a single run from the batch seed, so every run in a batch
+ * has its own independent stream and can be reproduced on its own.
+ */
+export const deriveRunSeed = (batchSeed: number, runIndex: number): number => {
+  let h = (batchSeed ^ Math.imul(runIndex + 1, 0x9E3779B1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85EBCA6B);
+  h = Math.imul(h ^ (h >>> 13), 0xC2B2AE35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+// Seeds are entered by hand in the settings bar; accept any non-negative integer that fits in 32 bits.
+export const normalizeSeed = (value: number): number => (Number.isFinite(value) ? Math.abs(Math.floor(value)) >>> 0 : 0);
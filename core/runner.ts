@@ -0,0 +1,512 @@
+// CORE — DO NOT MODIFY WITHOUT INTENT
+// Headless simulation runner. Owns the session loop (runtime lane init, prepare/resolve phases,
+// bankroll guardrail, stop checks) and batch aggregation. Any consumer — the React UI, workers,
+// the CLI — drives the same generators, so the numbers cannot drift between paths.
+import { Lane, RuntimeLane, TriggerCondition, TriggerPredicate, ProgressionConfig, ProgressionAction, SimulationSettings, SimulationStep, SpinResult, LaneLogDetail, EvaluatedBet, RunSummary, BatchStats, TerminationReason, BetPlacement } from './types';
+import { WHEEL_LABELS } from './constants';
+import { spinWheel, parseSequence, parseUnitList, getSpinResult, isPlacementValidForWheel, isPocketOnWheel, getNamedPlacement, NAMED_TARGETS_HINT } from './game';
+import { prepareLaneForSpin, updateLaneAfterSpin, getLayoutWinProfit, checkStopConditions, computeBatchStats, getSessionSpinLimit } from './simulation';
+import { compileLaneScript } from './script';
+import { createRng, deriveRunSeed, generateSeed, normalizeSeed } from './rng';
+
+export type BatchEvent =
+  | { type: 'STEP'; runIndex: number; step: SimulationStep }
+  | { type: 'RUN_COMPLETE'; runIndex: number; summary: RunSummary; history: SimulationStep[] };
+
+export interface BatchResult {
+  seed: number;
+  runs: SimulationStep[][];
+  runSummaries: RunSummary[];
+  stats: BatchStats;
+}
+
+/**
+ * Splits the Test Mode sequence on commas, whitespace or newlines.
+ */
+export const parseFixedOutcomes = (sequenceStr: string = ''): string[] => {
+  return sequenceStr
+    .split(/[\s,]+/)
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+};
+
+// In Test Mode we run exactly 1 simulation, and the number of spins equals the sequence length
+export const getBatchRunCount = (settings: SimulationSettings): number => {
+  return parseFixedOutcomes(settings.fixedOutcomeSequence).length > 0 ? 1 : settings.numberOfSimulations;
+};
+
+export const resolveBatchSeed = (settings: SimulationSettings): number => {
+  return settings.useFixedSeed ? normalizeSeed(settings.seed) : generateSeed();
+};
+
+// Whether a run keeps its full SimulationStep history. SUMMARY batches keep only the first sampleRuns.
+export const isRunRetained = (settings: SimulationSettings, runIndex: number): boolean => {
+  return settings.retentionMode !== 'SUMMARY' || runIndex < settings.sampleRuns;
+};
+
+/**
+ * Streaming downsampler for the equity curve. Holds at most ~maxPoints values by dropping
+ * every other point and doubling the stride whenever the buffer fills, so memory stays flat
+ * no matter how long the session runs. The last value is always included.
+ */
+const createEquitySampler = (maxPoints: number) => {
+  const limit = Math.max(2, Math.floor(maxPoints));
+  let points: number[] = [];
+  let stride = 1;
+  let seen = 0;
+  let last = 0;
+  return {
+    push(value: number) {
+      if (seen % stride === 0) {
+        points.push(value);
+        if (points.length > limit) {
+          points = points.filter((_, idx) => idx % 2 === 0);
+          stride *= 2;
+        }
+      }
+      seen++;
+      last = value;
+    },
+    finish(): number[] {
+      return (seen - 1) % stride === 0 ? points : [...points, last];
+    }
+  };
+};
+
+// Triggers only read results from the session history, so SUMMARY runs keep a lightweight copy.
+const toLeanStep = (step: SimulationStep): SimulationStep => ({
+  ...step,
+  laneDetails: [],
+  activeTriggers: [],
+  betDescriptions: [],
+  bets: undefined
+});
+
+const usesLadder = (config: ProgressionConfig): boolean =>
+  config.strategyMode === 'STATIC' && (config.progressionSystem || 'ACTIONS') === 'ACTIONS' &&
+  (config.onWinAction === ProgressionAction.LADDER || config.onLossAction === ProgressionAction.LADDER);
+
+const getTriggerPredicates = (node?: TriggerCondition): TriggerPredicate[] =>
+  !node ? [] : node.kind === 'RULE' ? [node] : node.children.flatMap(getTriggerPredicates);
+
+// Message for the first group that cannot be evaluated as meant, or null
+const findInvalidTriggerGroup = (node?: TriggerCondition): string | null => {
+  if (!node || node.kind === 'RULE') return null;
+  if (node.kind === 'NOT' && node.children.length !== 1) return 'a NOT group needs exactly one condition';
+  if (node.children.length === 0) return `an ${node.kind} group has no conditions`;
+  for (const child of node.children) {
+    const message = findInvalidTriggerGroup(child);
+    if (message) return message;
+  }
+  return null;
+};
+
+export const createRuntimeLane = (lane: Lane): RuntimeLane => ({
+  ...lane,
+  multiplier: 1,
+  progressionIndex: 0,
+  rotatingIndex: 0,
+  rotatingUnits: 1,
+  sessionProfit: 0,
+  chainIndex: 0,
+  chainStepSpins: 0,
+  imprisonedBets: [],
+  labouchereLine: lane.config.progressionSystem === 'LABOUCHERE' ? parseUnitList(lane.config.labouchereLine || '') : [],
+  stakedUnits: 1,
+  unitWager: 0,
+  cycleProfit: 0,
+  cycleLosses: 0,
+  cycleWins: 0,
+  ladderRungs: usesLadder(lane.config) ? parseUnitList(lane.config.ladderSequence || '') : [],
+  laneStopped: !!lane.startsPaused,
+  betStates: {},
+  cycleSpins: 0,
+  lanePeak: 0,
+  scriptHistory: [],
+  winStreak: 0,
+  lossStreak: 0,
+  baseScale: 1,
+  ruleStates: {},
+  triggerStates: {},
+  shadowLive: !lane.config.useShadow,
+  shadowCount: 0
+});
+
+/**
+ * Checks that a lane setup can be simulated with these settings.
+ * Returns a user-facing message, or null when it is runnable.
+ */
+export function validateSimulation(lanes: Lane[], settings: SimulationSettings): string | null {
+  const enabledLanes = lanes.filter(l => l.enabled);
+  if (enabledLanes.length === 0) return "Enable at least one lane!";
+
+  const allLanesMissingBets = enabledLanes.every(l => {
+    if (l.config.strategyMode === 'CHAIN') return (l.config.chainSteps || []).length === 0;
+    if (l.config.strategyMode === 'STATIC') return l.bets.length === 0 && l.triggerBets.length === 0;
+    if (l.config.strategyMode === 'SCRIPT') return !(l.config.script || '').trim();
+    return false;
+  });
+  if (allLanesMissingBets) {
+    return "All enabled lanes are empty! Please configure at least one lane with bets or a chain sequence.";
+  }
+
+  // Bets must exist on the selected wheel (e.g. no 00 or Top Line on a single-zero table)
+  const invalidBets = enabledLanes.flatMap(l => [
+    ...l.bets.map(b => b.placement),
+    ...(l.config.strategyMode === 'CHAIN' ? (l.config.chainSteps || []).flatMap(step => step.bets.map(b => b.placement)) : []),
+    ...l.triggerBets.flatMap(tb => [
+      tb.triggerPlacement,
+      tb.betPlacement,
+      ...(tb.betLayout || []).map(b => b.placement),
+      ...getTriggerPredicates(tb.condition).map(p => p.target)
+    ])
+  ].filter(p => !isPlacementValidForWheel(p, settings.wheelType)).map(p => `${l.name}: ${p.displayName}`));
+  if (invalidBets.length > 0) {
+    return `These bets are not available on the ${WHEEL_LABELS[settings.wheelType]} wheel:\n${Array.from(new Set(invalidBets)).join('\n')}`;
+  }
+
+  for (const l of enabledLanes) {
+    if (l.config.strategyMode !== 'STATIC' || l.config.progressionSystem !== 'LABOUCHERE') continue;
+    try {
+      if (parseUnitList(l.config.labouchereLine || '').length === 0) return `${l.name}: enter a Labouchère line, e.g. 1,2,3,4`;
+    } catch (e: any) {
+      return `${l.name}: ${e.message}`;
+    }
+  }
+
+  const unrecoverable = enabledLanes.filter(l =>
+    l.config.strategyMode === 'STATIC' && l.config.progressionSystem === 'RECOVERY' && l.bets.length > 0 && getLayoutWinProfit(l.bets) <= 0
+  );
+  if (unrecoverable.length > 0) {
+    return `Recovery Target needs a layout that profits when it hits. No winning number shows a profit on: ${unrecoverable.map(l => l.name).join(', ')}`;
+  }
+
+  for (const l of enabledLanes) {
+    if (l.config.strategyMode !== 'CHAIN') continue;
+    const steps = l.config.chainSteps || [];
+    for (let i = 0; i < steps.length; i++) {
+      const transitions = [
+        { action: steps[i].onWinAction, value: steps[i].onWinValue },
+        { action: steps[i].onLossAction, value: steps[i].onLossValue }
+      ];
+      for (const { action, value } of transitions) {
+        if (action === ProgressionAction.JUMP_CHAIN_STEP && !(Number.isInteger(value) && value >= 1 && value <= steps.length)) {
+          return `${l.name}: chain step ${i + 1} jumps to step ${value}, but the chain has ${steps.length} step${steps.length === 1 ? '' : 's'}`;
+        }
+        if (action === ProgressionAction.REPEAT_CHAIN_STEP && !(Number.isInteger(value) && value >= 1)) {
+          return `${l.name}: chain step ${i + 1} needs a whole number of plays to repeat`;
+        }
+      }
+    }
+  }
+
+  for (const l of enabledLanes) {
+    const badRule = (l.rules || []).find(r => r.condition === 'TARGET_HITS' && !getNamedPlacement(r.target || ''));
+    if (badRule) return `${l.name}: rule target "${badRule.target || ''}" is not a bet. Use ${NAMED_TARGETS_HINT}`;
+  }
+
+  for (const l of enabledLanes) {
+    if (l.config.strategyMode !== 'SCRIPT') continue;
+    try {
+      compileLaneScript(l.config.script || '');
+    } catch (e: any) {
+      return `${l.name}: ${e.message}`;
+    }
+  }
+
+  for (const l of enabledLanes) {
+    if (!usesLadder(l.config)) continue;
+    try {
+      if (parseUnitList(l.config.ladderSequence || '').length === 0) return `${l.name}: enter ladder multipliers, e.g. 1,2,3,5,8`;
+    } catch (e: any) {
+      return `${l.name}: ${e.message}`;
+    }
+  }
+
+  for (const l of enabledLanes) {
+    for (const tb of l.triggerBets) {
+      const message = tb.active ? findInvalidTriggerGroup(tb.condition) : null;
+      if (message) return `${l.name}: trigger condition: ${message}`;
+    }
+  }
+
+  for (const l of enabledLanes) {
+    for (const tb of l.triggerBets) {
+      const p = tb.progression;
+      if (!tb.active || !p || (p.onWinAction !== ProgressionAction.LADDER && p.onLossAction !== ProgressionAction.LADDER)) continue;
+      try {
+        if (parseUnitList(tb.ladderSequence || '').length === 0) return `${l.name}: enter ladder multipliers for the ${tb.triggerPlacement.displayName} trigger, e.g. 1,2,3,5,8`;
+      } catch (e: any) {
+        return `${l.name}: ${tb.triggerPlacement.displayName} trigger: ${e.message}`;
+      }
+    }
+  }
+
+  const invalidOutcomes = parseFixedOutcomes(settings.fixedOutcomeSequence)
+    .filter(o => !isPocketOnWheel(getSpinResult(o).value, settings.wheelType));
+  if (invalidOutcomes.length > 0) {
+    return `Fixed sequence contains pockets not on the ${WHEEL_LABELS[settings.wheelType]} wheel: ${invalidOutcomes.join(', ')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Plays a single session. Yields every SimulationStep as it is produced and returns the run summary.
+ * Run `runIndex` of a batch always draws from deriveRunSeed(batchSeed, runIndex).
+ */
+export function* runSession(
+  lanes: Lane[],
+  settings: SimulationSettings,
+  runIndex: number,
+  batchSeed: number
+): Generator<SimulationStep, RunSummary, void> {
+  const fixedOutcomes = parseFixedOutcomes(settings.fixedOutcomeSequence);
+  const isTestMode = fixedOutcomes.length > 0;
+  const spinLimit = isTestMode ? fixedOutcomes.length : getSessionSpinLimit(settings);
+  const rng = createRng(deriveRunSeed(batchSeed, runIndex));
+
+  const enabledLanes = lanes.filter(l => l.enabled);
+  const laneNames: Record<string, string> = {};
+  enabledLanes.forEach(l => { laneNames[l.id] = l.name; });
+
+  // Immutable Precalculation of sequences (read-only)
+  const lanePrecalc: Record<string, BetPlacement[]> = {};
+  enabledLanes.forEach(l => {
+    lanePrecalc[l.id] = l.config.strategyMode === 'ROTATING' ? parseSequence(l.config.sequence) : [];
+  });
+
+  let currentBankroll = settings.startingBankroll;
+  let simSpins = 0;
+  let terminationReason: TerminationReason | null = null;
+  const simHistory: SimulationStep[] = [];
+  const keepLeanHistory = settings.retentionMode === 'SUMMARY';
+
+  // Streaming aggregates (no need to keep the steps around for these)
+  let peakBankroll = currentBankroll;
+  let maxDrawdown = 0;
+  const equity = settings.useEquityCurve ? createEquitySampler(settings.equityCurvePoints) : null;
+  if (equity) equity.push(currentBankroll);
+
+  // Initialize Balances (Immutable Map)
+  const laneRunningBalances: Record<string, number> = {};
+  enabledLanes.forEach(l => {
+    laneRunningBalances[l.id] = settings.startingBankroll;
+  });
+
+  // Initialize Runtime State. Replaced wholesale on every spin to keep strict immutability.
+  let currentRuntimeLanes: RuntimeLane[] = enabledLanes.map(createRuntimeLane);
+  // Lanes as the last prepare phase left them: a spin that stops the session never gets to resolve them
+  let preparedRuntimeLanes: RuntimeLane[] = [];
+
+  for (let i = 0; i < spinLimit; i++) {
+    // --- STRICT STOP CHECKS ---
+    if (!isTestMode) {
+      terminationReason = checkStopConditions(currentBankroll, settings);
+      if (terminationReason) break;
+    }
+
+    simSpins++;
+
+    // Capture Start Balance BEFORE spin
+    const startBalanceForStep = currentBankroll;
+
+    // --- PHASE 1: PREPARE & WAGER ---
+    const preparedStepData = currentRuntimeLanes.map(lane =>
+      prepareLaneForSpin(lane, settings, simHistory, lanePrecalc[lane.id] || [], laneNames)
+    );
+    preparedRuntimeLanes = preparedStepData.map(d => d.updatedLaneState);
+
+    // Shadow (virtual) wagers move no money, so the guardrail only counts real ones
+    const totalSpinWager = preparedStepData.reduce((sum, d) => sum + (d.virtual ? 0 : d.wager), 0);
+    const activeTriggersForStep = preparedStepData.flatMap(d => d.activeTriggers);
+    const stepBetDescriptions = preparedStepData
+      .filter(d => d.bets.length > 0)
+      .map(d => `${d.updatedLaneState.name}${d.virtual ? ' (virtual)' : ''}: ${d.bets.map(b => `${b.placement.displayName} ($${b.amount})`).join(', ')}`);
+
+    // --- STRICT BANKROLL GUARDRAIL ---
+    if (!isTestMode && totalSpinWager > currentBankroll) {
+      terminationReason = 'INSUFFICIENT_FUNDS';
+      const stopStep: SimulationStep = {
+        spinIndex: i + 1,
+        result: { value: 0, display: 'X', color: 'green' },
+        startingBankroll: currentBankroll,
+        betAmount: 0,
+        outcome: 0,
+        bankroll: currentBankroll,
+        laneBankrolls: { ...laneRunningBalances },
+        activeTriggers: ['SIM STOPPED: Insufficient Funds'],
+        betDescriptions: ['Bankruptcy Protection: Bet exceeded balance'],
+        laneDetails: []
+      };
+      simHistory.push(keepLeanHistory ? toLeanStep(stopStep) : stopStep);
+      yield stopStep;
+      break;
+    }
+
+    // --- SPIN ---
+    let result: SpinResult;
+    if (isTestMode) {
+      result = getSpinResult(fixedOutcomes[i]);
+    } else {
+      result = spinWheel(rng, settings.wheelType);
+    }
+
+    // --- PHASE 2: RESOLVE & UPDATE ---
+    // Use the state returned by prepare (because prepare might have reset session profits, etc.)
+    const nextRuntimeLanes: RuntimeLane[] = [];
+    const laneLogDetails: LaneLogDetail[] = [];
+    const allEvaluatedBets: EvaluatedBet[] = [];
+    let netPL = 0;
+    let globalWagerConfirmed = 0;
+
+    preparedStepData.forEach(prepData => {
+      const laneStateAfterPrepare = prepData.updatedLaneState;
+      const balanceBefore = laneRunningBalances[laneStateAfterPrepare.id];
+
+      const updateResult = updateLaneAfterSpin(
+        laneStateAfterPrepare,
+        prepData.bets,
+        result,
+        laneStateAfterPrepare.config,
+        lanePrecalc[laneStateAfterPrepare.id] || [],
+        Number.MAX_SAFE_INTEGER, // Virtual check only, global check done above
+        settings.zeroRule
+      );
+
+      nextRuntimeLanes.push(updateResult.updatedLaneState);
+      const virtual = !!prepData.virtual;
+      allEvaluatedBets.push(...(virtual ? updateResult.evaluatedBets.map(b => ({ ...b, virtual })) : updateResult.evaluatedBets));
+      const wager = virtual ? 0 : updateResult.wager;
+      const profit = virtual ? 0 : updateResult.profit;
+      globalWagerConfirmed += wager;
+      netPL += profit;
+
+      const balanceAfter = balanceBefore + profit;
+      laneRunningBalances[laneStateAfterPrepare.id] = balanceAfter;
+
+      laneLogDetails.push({
+        laneId: laneStateAfterPrepare.id,
+        laneName: laneStateAfterPrepare.name,
+        wager,
+        profit,
+        ...(virtual ? { virtualWager: updateResult.wager, virtualProfit: updateResult.profit } : {}),
+        balanceBefore,
+        balanceAfter,
+        progressionLabel: updateResult.progressionLabel,
+        wasReset: updateResult.wasReset,
+        outcome: updateResult.outcome,
+        resetReason: prepData.resetReason,
+        scriptError: prepData.scriptError,
+        imprisonedAmount: updateResult.updatedLaneState.imprisonedBets.reduce((sum, b) => sum + b.amount, 0)
+      });
+    });
+
+    // Rules that switch other lanes on or off take effect from the next spin
+    const laneSwitches = preparedStepData.flatMap(d => d.laneSwitches || []);
+    currentRuntimeLanes = laneSwitches.length === 0 ? nextRuntimeLanes : nextRuntimeLanes.map(l => {
+      const last = laneSwitches.filter(sw => sw.laneId === l.id).pop();
+      return last ? { ...l, laneStopped: !last.enabled } : l;
+    });
+
+    currentBankroll = startBalanceForStep + netPL;
+    if (currentBankroll < 0) currentBankroll = 0;
+
+    peakBankroll = Math.max(peakBankroll, currentBankroll);
+    maxDrawdown = Math.max(maxDrawdown, peakBankroll - currentBankroll);
+    if (equity) equity.push(currentBankroll);
+
+    const step: SimulationStep = {
+      spinIndex: i + 1,
+      result,
+      startingBankroll: startBalanceForStep,
+      betAmount: globalWagerConfirmed,
+      outcome: netPL,
+      bankroll: currentBankroll,
+      laneDetails: laneLogDetails,
+      laneBankrolls: { ...laneRunningBalances }, // Snapshot copy
+      activeTriggers: activeTriggersForStep,
+      betDescriptions: stepBetDescriptions,
+      bets: allEvaluatedBets
+    };
+
+    simHistory.push(keepLeanHistory ? toLeanStep(step) : step);
+    yield step;
+  }
+
+  // Script sandboxes live for one session. Hosts also stop theirs when a batch is abandoned midway.
+  new Set([...currentRuntimeLanes, ...preparedRuntimeLanes].map(l => l.scriptSandbox)).forEach(sandbox => sandbox?.dispose());
+
+  // The final spin itself may have hit the goal / stop loss / bust
+  if (!terminationReason) {
+    terminationReason = (!isTestMode && checkStopConditions(currentBankroll, settings)) || 'SPINS_EXHAUSTED';
+  }
+
+  const summary: RunSummary = { finalBankroll: currentBankroll, spins: simSpins, terminationReason, peakBankroll, maxDrawdown };
+  if (equity) summary.equityCurve = equity.finish();
+  return summary;
+}
+
+/**
+ * Plays a single session to the end without pacing. Used by batch workers.
+ * The history is empty for runs that SUMMARY retention does not keep.
+ */
+export function playSession(
+  lanes: Lane[],
+  settings: SimulationSettings,
+  runIndex: number,
+  batchSeed: number
+): { history: SimulationStep[]; summary: RunSummary } {
+  const history: SimulationStep[] = [];
+  const retained = isRunRetained(settings, runIndex);
+  const session = runSession(lanes, settings, runIndex, batchSeed);
+  let next = session.next();
+  while (!next.done) {
+    if (retained) history.push(next.value as SimulationStep);
+    next = session.next();
+  }
+  return { history, summary: next.value as RunSummary };
+}
+
+/**
+ * Plays a whole batch, yielding each step and each finished run. Returns the aggregated result.
+ * `runs` only holds the runs kept by the retention mode (all of them in FULL mode).
+ */
+export function* simulateBatch(
+  lanes: Lane[],
+  settings: SimulationSettings,
+  seed: number = resolveBatchSeed(settings)
+): Generator<BatchEvent, BatchResult, void> {
+  const numSims = getBatchRunCount(settings);
+  const runs: SimulationStep[][] = [];
+  const runSummaries: RunSummary[] = [];
+
+  for (let s = 0; s < numSims; s++) {
+    const history: SimulationStep[] = [];
+    const retained = isRunRetained(settings, s);
+    const session = runSession(lanes, settings, s, seed);
+    let next = session.next();
+    while (!next.done) {
+      const step = next.value as SimulationStep;
+      if (retained) history.push(step);
+      yield { type: 'STEP', runIndex: s, step };
+      next = session.next();
+    }
+    const summary = next.value as RunSummary;
+    if (retained) runs.push(history);
+    runSummaries.push(summary);
+    yield { type: 'RUN_COMPLETE', runIndex: s, summary, history };
+  }
+
+  return { seed, runs, runSummaries, stats: computeBatchStats(runSummaries, settings) };
+}
+
+/**
+ * Runs a batch to completion synchronously (scripts, tests, workers).
+ */
+export function runBatch(lanes: Lane[], settings: SimulationSettings, seed?: number): BatchResult {
+  const batch = simulateBatch(lanes, settings, seed);
+  let next = batch.next();
+  while (!next.done) next = batch.next();
+  return next.value as BatchResult;
+}
@@ -0,0 +1,350 @@
+// CORE — DO NOT MODIFY WITHOUT INTENT
+// SCRIPT strategy mode. A lane's script is the body of a function that receives the spin history,
+// the lane balance and its own state object, and returns the bets for the next spin.
+//
+// Strategy files are shared, so scripts are untrusted code. They only run inside a ScriptSandbox: a realm of their
+// own per lane and session, which reaches nothing worth having and which the host can stop at any point. The app
+// installs one backed by a locked-down Web Worker per script (services/scriptSandbox.ts), the CLI one backed by a
+// node:vm context (cli/scriptSandbox.ts). The core itself never runs a script, and only plain JSON crosses between
+// the host and the realm. A call the host has to stop takes its realm with it: that spin records a timeout and the
+// lane starts a fresh realm, with the full history but empty state, on its next spin.
+import { Bet, BetPlacement, BetType, ScriptSandbox, ScriptSpin, SimulationSettings, SimulationStep } from './types';
+import { OUTSIDE_BET_TYPES, WHEEL_LABELS, ZERO_DISPLAY } from './constants';
+import { isInsidePlacementOnTable, getNamedPlacement, getOutsidePlacement, NAMED_TARGETS_HINT } from './game';
+
+// A bet as returned by the script: built with bet(), or a full placement
+export interface ScriptBet {
+  placement: BetPlacement;
+  amount: number;
+}
+
+export interface ScriptContext {
+  spins: ScriptSpin[]; // Spins the realm has not seen yet; it keeps the full history
+  balance: number; // Lane balance
+  bankroll: number; // Global balance
+  spin: number; // Number of the spin about to be played (1-based)
+}
+
+// What the realm sends back for one call
+type ScriptReply =
+  | { bets: unknown }
+  | { timeout: true }
+  | { error: string; recursion?: boolean }
+  | { compileError: string };
+
+// Shadowed inside the script. `eval` cannot be a parameter name in strict mode, so it is not listed.
+const BLOCKED_GLOBALS = [
+  'window', 'self', 'globalThis', 'global', 'document', 'process', 'require', 'module', 'importScripts', 'postMessage',
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'localStorage', 'sessionStorage', 'indexedDB', 'navigator', 'location',
+  'setTimeout', 'setInterval', 'Function'
+];
+
+/**
+ * Evaluated inside the realm, never in the host. Plain ES5-style JavaScript on purpose: build tools must not touch it.
+ * Given the prepared function body and the bet() targets it returns the lane's call function, which takes a JSON
+ * request and always answers with a JSON reply. Script errors, thrown values and the return value are all turned
+ * into JSON here, under the realm's time limit, so the host never touches an object the script made.
+ */
+const SCRIPT_RUNTIME = `(function (body, blocked, targets, hint) {
+  "use strict";
+  var stringify = JSON.stringify, parse = JSON.parse, now = Date.now, freeze = Object.freeze;
+  var fn, compileError;
+  try {
+    fn = Function.apply(null, blocked.concat(["__guard", "__context", body]));
+  } catch (e) {
+    compileError = String(e && e.message);
+  }
+  var history = [];
+  var state = {};
+  var bet = function (target, amount) {
+    var key = String(target).trim().toLowerCase();
+    var placement = targets.names[key];
+    if (!placement && key !== "") placement = targets.pockets[key === "000" ? -2 : key === "00" ? -1 : Number(key)];
+    if (!placement) throw new Error('bet(): unknown target "' + target + '". Use ' + hint);
+    return { placement: parse(stringify(placement)), amount: amount };
+  };
+  var shadowed = blocked.map(function () { return undefined; });
+
+  return function (request) {
+    if (compileError !== undefined) return stringify({ compileError: compileError });
+    var input = parse(request);
+    for (var k = 0; k < input.spins.length; k++) history.push(freeze(input.spins[k]));
+
+    var deadline = now() + input.timeLimitMs;
+    var checks = 0;
+    var timeout = new Error("timeout");
+    // Reading the clock on every iteration would slow tight loops down
+    var guard = function () {
+      if ((++checks & 1023) === 0 && now() > deadline) throw timeout;
+      return true;
+    };
+    try {
+      var returned = fn.apply(undefined, shadowed.concat([guard, {
+        history: history.slice(), balance: input.balance, bankroll: input.bankroll, spin: input.spin,
+        state: state, table: input.table, bet: bet
+      }]));
+      var reply = stringify({ bets: returned === undefined ? null : returned });
+      return now() > deadline ? stringify({ timeout: true }) : reply;
+    } catch (e) {
+      if (e === timeout) return stringify({ timeout: true });
+      var message;
+      try {
+        message = e instanceof Error ? String(e.message) : String(e);
+      } catch (inner) {
+        message = "the script threw something that cannot be shown";
+      }
+      return stringify({ error: message, recursion: e instanceof RangeError });
+    }
+  };
+})`;
+
+const BET_NUMBER_COUNTS: Record<BetType, number> = {
+  [BetType.STRAIGHT_UP]: 1,
+  [BetType.SPLIT]: 2,
+  [BetType.STREET]: 3,
+  [BetType.CORNER]: 4,
+  [BetType.SIX_LINE]: 6,
+  [BetType.TOP_LINE]: 5,
+  [BetType.BASKET]: 3,
+  [BetType.COLUMN_1ST]: 12,
+  [BetType.COLUMN_2ND]: 12,
+  [BetType.COLUMN_3RD]: 12,
+  [BetType.DOZEN_1ST]: 12,
+  [BetType.DOZEN_2ND]: 12,
+  [BetType.DOZEN_3RD]: 12,
+  [BetType.LOW_1_18]: 18,
+  [BetType.HIGH_19_36]: 18,
+  [BetType.EVEN]: 18,
+  [BetType.ODD]: 18,
+  [BetType.RED]: 18,
+  [BetType.BLACK]: 18
+};
+
+/**
+ * Adds a guard() call to every loop so a stuck loop hits the time limit instead of freezing the page.
+ * while / do-while / classic for loops get it in their condition, for-of / for-in at the top of a braced body.
+ */
+const instrumentLoops = (source: string): string => {
+  let out = '';
+  let i = 0;
+
+  // Index just past the string, template or comment starting at `start`, or -1 if there is none
+  const skipLiteral = (start: number): number => {
+    const ch = source[start];
+    if (ch === '/' && source[start + 1] === '/') {
+      const end = source.indexOf('\n', start);
+      return end === -1 ? source.length : end;
+    }
+    if (ch === '/' && source[start + 1] === '*') {
+      const end = source.indexOf('*/', start + 2);
+      return end === -1 ? source.length : end + 2;
+    }
+    if (ch === '"' || ch === "'" || ch === '`') {
+      let j = start + 1;
+      while (j < source.length && source[j] !== ch) j += source[j] === '\\' ? 2 : 1;
+      return j + 1;
+    }
+    return -1;
+  };
+
+  // Index of the parenthesis closing the one at `open`
+  const findClose = (open: number): number => {
+    let depth = 0;
+    for (let j = open; j < source.length; j++) {
+      const end = skipLiteral(j);
+      if (end !== -1) { j = end - 1; continue; }
+      if (source[j] === '(') depth++;
+      else if (source[j] === ')' && --depth === 0) return j;
+    }
+    return -1;
+  };
+
+  // Splits a for header on its top-level semicolons
+  const splitHeader = (header: string): string[] => {
+    const parts: string[] = [];
+    let depth = 0, last = 0;
+    for (let j = 0; j < header.length; j++) {
+      const ch = header[j];
+      if (ch === '(' || ch === '[' || ch === '{') depth++;
+      else if (ch === ')' || ch === ']' || ch === '}') depth--;
+      else if (ch === ';' && depth === 0) { parts.push(header.slice(last, j)); last = j + 1; }
+    }
+    parts.push(header.slice(last));
+    return parts;
+  };
+
+  while (i < source.length) {
+    const end = skipLiteral(i);
+    if (end !== -1) {
+      out += source.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    const keyword = /^(while|for)\b/.exec(source.slice(i, i + 6));
+    if (keyword && (i === 0 || !/[\w$.]/.test(source[i - 1]))) {
+      let open = i + keyword[1].length;
+      while (/\s/.test(source[open] || '')) open++;
+      const close = source[open] === '(' ? findClose(open) : -1;
+      if (close !== -1) {
+        const header = source.slice(open + 1, close);
+        out += keyword[1] + ' (';
+        if (keyword[1] === 'while') {
+          out += `__guard() && (${header}))`;
+        } else {
+          const parts = splitHeader(header);
+          if (parts.length === 3) {
+            out += `${parts[0]}; __guard() && (${parts[1].trim() || 'true'});${parts[2]})`;
+          } else {
+            out += header + ')';
+            let body = close + 1;
+            while (/\s/.test(source[body] || '')) body++;
+            if (source[body] === '{') {
+              out += ' {__guard();';
+              i = body + 1;
+              continue;
+            }
+          }
+        }
+        i = close + 1;
+        continue;
+      }
+    }
+
+    out += source[i];
+    i++;
+  }
+  return out;
+};
+
+// Full function body as the realm compiles it
+const buildScriptBody = (source: string): string =>
+  `"use strict";\nconst { history, balance, bankroll, spin, state, table, bet } = __context;\n${instrumentLoops(source)}`;
+
+/**
+ * Checks a lane script for syntax errors. Throws an Error describing the problem.
+ * Only parses the script here; it never runs outside a sandbox.
+ */
+export const compileLaneScript = (source: string): void => {
+  try {
+    new Function(...BLOCKED_GLOBALS, '__guard', '__context', buildScriptBody(source));
+  } catch (e: any) {
+    throw new Error(`Script does not compile: ${e.message}`);
+  }
+};
+
+// Placements bet() can name, as plain data for the realm (the same names getNamedPlacement accepts)
+const getScriptTargets = () => {
+  const names: Record<string, BetPlacement> = {};
+  ['red', 'black', 'even', 'odd', 'low', '1-18', 'high', '19-36', 'dozen1', 'dozen2', 'dozen3', 'column1', 'column2', 'column3']
+    .forEach(name => { names[name] = getNamedPlacement(name)!; });
+  const pockets: Record<number, BetPlacement> = {};
+  for (let n = -2; n <= 36; n++) pockets[n] = getNamedPlacement(n)!;
+  return { names, pockets };
+};
+
+/**
+ * JavaScript expression that, evaluated inside a fresh realm, yields the lane's call function for that realm.
+ * Sandboxes evaluate it once per lane and session, then pass each runLaneScript request to the function.
+ */
+export const getScriptRuntimeExpression = (source: string): string => {
+  const args = [buildScriptBody(source), BLOCKED_GLOBALS, getScriptTargets(), NAMED_TARGETS_HINT].map(a => JSON.stringify(a));
+  return `${SCRIPT_RUNTIME}(${args.join(', ')})`;
+};
+
+// Hosts stop a call this long after its limit, so a loop the realm's own guard can catch is reported by the realm
+export const SCRIPT_STOP_GRACE_MS = 100;
+
+type ScriptSandboxFactory = (source: string) => ScriptSandbox;
+let sandboxFactory: ScriptSandboxFactory | null = null;
+
+// Installed once per environment (app worker, CLI). Without one, SCRIPT lanes report an error instead of running.
+export const setScriptSandboxFactory = (factory: ScriptSandboxFactory | null) => {
+  sandboxFactory = factory;
+};
+
+export const createScriptSandbox = (source: string): ScriptSandbox => {
+  if (!sandboxFactory) throw new Error('Scripts can only run in an isolated sandbox, which is not available here');
+  return sandboxFactory(source);
+};
+
+/**
+ * Checks one returned bet against the BetPlacement shape, the wheel's table layout and the table minimum.
+ * Returns the bet to place (whole dollars), or throws an Error naming the bad bet.
+ */
+const validateScriptBet = (value: any, index: number, settings: SimulationSettings): ScriptBet => {
+  const label = `Bet ${index + 1}`;
+  if (!value || typeof value !== 'object' || !value.placement || typeof value.placement !== 'object') {
+    throw new Error(`${label} is not a bet. Return bet('red', 10) or { placement, amount }`);
+  }
+  const placement = value.placement;
+  if (!Object.values(BetType).includes(placement.type)) throw new Error(`${label} has unknown bet type "${placement.type}"`);
+  if (typeof value.amount !== 'number' || !Number.isFinite(value.amount) || value.amount <= 0) throw new Error(`${label} has an invalid amount: ${value.amount}`);
+  const amount = Math.floor(value.amount);
+  if (amount < settings.tableMin) throw new Error(`${label} ($${amount}) is below the table minimum of $${settings.tableMin}`);
+
+  if (OUTSIDE_BET_TYPES.has(placement.type)) return { placement: getOutsidePlacement(placement.type), amount };
+
+  const numbers = placement.numbers;
+  if (!Array.isArray(numbers) || !numbers.every((n: any) => Number.isInteger(n))) {
+    throw new Error(`${label} needs a list of pocket numbers`);
+  }
+  const expected = BET_NUMBER_COUNTS[placement.type as BetType];
+  if (new Set(numbers).size !== expected) throw new Error(`${label}: a ${placement.type} covers ${expected} numbers, got ${numbers.length}`);
+  const checked: BetPlacement = {
+    type: placement.type,
+    numbers: [...numbers],
+    displayName: typeof placement.displayName === 'string' && placement.displayName ? placement.displayName : numbers.map((n: number) => ZERO_DISPLAY[n] ?? n).join('/')
+  };
+  if (!isInsidePlacementOnTable(checked, settings.wheelType)) {
+    throw new Error(`${label} (${checked.displayName}) is not a ${placement.type} on the ${WHEEL_LABELS[settings.wheelType]} table`);
+  }
+  return { placement: checked, amount };
+};
+
+/**
+ * Appends the spins that `history` gained since the last call to `spins` (in place) and returns it.
+ * Lean SUMMARY steps keep laneBankrolls, which is all this needs.
+ */
+export const syncScriptHistory = (spins: ScriptSpin[], history: SimulationStep[], laneId: string, startingBankroll: number): ScriptSpin[] => {
+  for (let k = spins.length; k < history.length; k++) {
+    const step = history[k];
+    const before = k > 0 ? history[k - 1].laneBankrolls[laneId] ?? startingBankroll : startingBankroll;
+    const balance = step.laneBankrolls[laneId] ?? before;
+    spins.push(Object.freeze({ number: step.result.value, display: step.result.display, color: step.result.color, profit: balance - before, balance }));
+  }
+  return spins;
+};
+
+/**
+ * Runs a lane script in its sandbox and returns its bets, validated.
+ * Throws an Error on a script error, a timeout, an invalid bet or bets that total more than tableMax.
+ */
+export const runLaneScript = (
+  sandbox: ScriptSandbox,
+  context: ScriptContext,
+  settings: SimulationSettings,
+  timeLimitMs: number,
+  betIdPrefix: string
+): Bet[] => {
+  const limit = Math.max(1, timeLimitMs);
+  const request = JSON.stringify({
+    ...context,
+    timeLimitMs: limit,
+    table: { min: settings.tableMin, max: settings.tableMax, wheel: settings.wheelType }
+  });
+  const reply: ScriptReply = JSON.parse(sandbox.run(request, limit));
+
+  if ('compileError' in reply) throw new Error(`Script does not compile: ${reply.compileError}`);
+  if ('timeout' in reply) throw new Error(`Script ran longer than ${timeLimitMs}ms`);
+  if ('error' in reply) throw new Error(reply.recursion ? `Script error: ${reply.error} (runaway recursion?)` : `Script error: ${reply.error}`);
+
+  const returned = reply.bets;
+  if (returned === null) return [];
+  if (!Array.isArray(returned)) throw new Error('Script must return an array of bets');
+
+  const bets: Bet[] = returned.map((value, index) => ({ id: `${betIdPrefix}-${index}`, ...validateScriptBet(value, index, settings) }));
+  const total = bets.reduce((s, b) => s + b.amount, 0);
+  if (total > settings.tableMax) throw new Error(`Script bets total $${total}, above the table maximum of $${settings.tableMax}`);
+  return bets;
+};
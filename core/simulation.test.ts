@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BetType, Lane, SimulationSettings } from './types';
+import { DEFAULT_SIMULATION_SETTINGS, createDefaultConfig } from './constants';
+import { getOutsidePlacement } from './game';
+import { playSession } from './runner';
+
+const settings: SimulationSettings = {
+  ...DEFAULT_SIMULATION_SETTINGS, wheelType: 'EUROPEAN', retentionMode: 'FULL', useStopLoss: false, useTotalProfitGoal: false
+};
+
+test("Oscar's Grind presses in units of the scaled layout", () => {
+  // Doubled from the first spin: one unit is $20 on red
+  const lane: Lane = {
+    id: 'oscar', name: 'Lane 1', color: '#6366f1', enabled: true, triggerBets: [],
+    bets: [{ id: 'red-bet', amount: 10, placement: getOutsidePlacement(BetType.RED) }],
+    rules: [{ id: 'double', condition: 'LANE_PROFIT_BELOW', value: 1, action: 'SCALE_BASE', actionValue: 2 }],
+    config: { ...createDefaultConfig(), progressionSystem: 'OSCARS_GRIND' }
+  };
+  // Four losses, then wins at 1 and 2 units leave the cycle at -$20 with 3 units pressed; 2 units finish it
+  const { history } = playSession([lane], { ...settings, fixedOutcomeSequence: '2 4 6 8 1 3 5 7' }, 0, 1);
+  assert.deepEqual(history.map(step => step.betAmount), [20, 20, 20, 20, 20, 40, 40, 20]);
+});
+
+test('a lane that stakes nothing logs NO_BET, not a win', () => {
+  const red: Lane = {
+    id: 'red', name: 'Lane 1', color: '#ef4444', enabled: true, triggerBets: [],
+    bets: [{ id: 'red-bet', amount: 10, placement: getOutsidePlacement(BetType.RED) }],
+    config: createDefaultConfig()
+  };
+  const paused: Lane = { ...red, id: 'paused', name: 'Lane 2', startsPaused: true };
+  const { history } = playSession([red, paused], { ...settings, fixedOutcomeSequence: '1 2 0' }, 0, 1);
+  assert.deepEqual(history.map(step => step.laneDetails.map(detail => detail.outcome)), [['WIN', 'NO_BET'], ['LOSS', 'NO_BET'], ['LOSS', 'NO_BET']]);
+});
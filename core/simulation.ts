@@ -1,7 +1,9 @@
 
 // CORE — DO NOT MODIFY WITHOUT INTENT
-import { Bet, BetPlacement, ProgressionConfig, SimulationSettings, SimulationStep, RuntimeLane, SpinResult, ProgressionAction, EvaluatedBet, BetType } from './types';
-import { PAYOUTS, FIB_SEQUENCE, OUTSIDE_BET_TYPES } from './constants';
+import { Bet, BetPlacement, BetProgression, ChainStep, LadderTopAction, SpinOutcome, ResetCondition, LaneRule, TriggerBet, TriggerCondition, TriggerState, ProgressionConfig, SimulationSettings, SimulationStep, RuntimeLane, SpinResult, ProgressionAction, EvaluatedBet, BetType, ZeroRule, ZeroRuleOutcome, TerminationReason, RunSummary, BatchStats } from './types';
+import { PAYOUTS, CHIP_VALUES, WHEEL_ORDERS, ZERO_DISPLAY, FIB_SEQUENCE, SEQUENCE_1326, OUTSIDE_BET_TYPES, EVEN_MONEY_BET_TYPES, TRIGGER_RULE_LABELS } from './constants';
+import { parseUnitList, getNamedPlacement, getOutsidePlacement } from './game';
+import { createScriptSandbox, runLaneScript, syncScriptHistory } from './script';
 
 /**
  * THE CANONICAL PAYOUT FUNCTION
@@ -10,20 +12,25 @@ import { PAYOUTS, FIB_SEQUENCE, OUTSIDE_BET_TYPES } from './constants';
 export function resolveSpin(
     startingBalance: number,
     bets: Bet[],
-    result: SpinResult
+    result: SpinResult,
+    zeroRule: ZeroRule = 'STANDARD',
+    imprisonedBets: Bet[] = [] // En Prison stakes from the previous spin (already paid for)
 ): {
     finalBalance: number;
     totalWager: number;
     totalPayout: number;
     netProfit: number;
     evaluatedBets: EvaluatedBet[];
+    imprisonedBets: Bet[]; // Stakes held over to the next spin
 } {
     let totalWager = 0;
     let totalPayout = 0;
     const evaluatedBets: EvaluatedBet[] = [];
+    const nextImprisoned: Bet[] = [];
     
     // Internal representation of numbers for checking (Normalized Value)
     const resultNum = result.value;
+    const isZero = resultNum <= 0;
 
     // 1. Calculate Total Wager & Validate Affordability
     for (const bet of bets) {
@@ -35,12 +42,31 @@ export function resolveSpin(
         throw new Error(`Insufficient funds: Bet $${totalWager} > Balance $${startingBalance}`);
     }
 
-    // 2. Resolve Each Bet Independently
+    // 2. Release Imprisoned Bets
+    // The stake was debited on the spin that imprisoned it: a win returns the stake only, anything else forfeits it.
+    for (const bet of imprisonedBets) {
+        const released = !isZero && bet.placement.numbers.includes(resultNum);
+        const returnAmount = released ? bet.amount : 0;
+        totalPayout += returnAmount;
+
+        evaluatedBets.push({
+            laneId: '',
+            laneName: '',
+            placement: bet.placement,
+            amount: bet.amount,
+            payout: returnAmount,
+            netProfit: returnAmount,
+            zeroRuleOutcome: released ? 'RELEASED' : 'FORFEITED'
+        });
+    }
+
+    // 3. Resolve Each Bet Independently
     for (const bet of bets) {
         let isWin = false;
+        let zeroRuleOutcome: ZeroRuleOutcome | undefined;
 
-        // CRITICAL RULE: Outside bets lose on 0/00 explicitly.
-        if ((resultNum === 0 || resultNum === -1) && OUTSIDE_BET_TYPES.has(bet.placement.type)) {
+        // CRITICAL RULE: Outside bets lose on 0/00/000 explicitly.
+        if (isZero && OUTSIDE_BET_TYPES.has(bet.placement.type)) {
             isWin = false;
         } else {
             isWin = bet.placement.numbers.includes(resultNum);
@@ -48,6 +74,17 @@ export function resolveSpin(
 
         let returnAmount = 0;
 
+        // Table rules soften the zero for even-money bets
+        if (isZero && zeroRule !== 'STANDARD' && EVEN_MONEY_BET_TYPES.has(bet.placement.type)) {
+            if (zeroRule === 'EN_PRISON') {
+                zeroRuleOutcome = 'IMPRISONED';
+                nextImprisoned.push(bet);
+            } else {
+                zeroRuleOutcome = 'HALF_RETURNED';
+                returnAmount = bet.amount / 2;
+            }
+        }
+
         if (isWin) {
              // Get standard odds
              let odds = PAYOUTS[bet.placement.type];
@@ -70,11 +107,12 @@ export function resolveSpin(
             placement: bet.placement,
             amount: bet.amount,
             payout: returnAmount, // Correct field name matching interface
-            netProfit: returnAmount - bet.amount
+            netProfit: returnAmount - bet.amount,
+            ...(zeroRuleOutcome ? { zeroRuleOutcome } : {})
         });
     }
 
-    // 3. Final Reconciliation
+    // 4. Final Reconciliation
     // Net Profit = All Money Returned (Payout) - All Money Bet
     const netProfit = totalPayout - totalWager;
     const finalBalance = startingBalance + netProfit;
@@ -84,7 +122,8 @@ export function resolveSpin(
         totalWager,
         totalPayout,
         netProfit,
-        evaluatedBets
+        evaluatedBets,
+        imprisonedBets: nextImprisoned
     };
 }
 
@@ -95,42 +134,139 @@ export function prepareLaneForSpin(
     lane: RuntimeLane,
     settings: SimulationSettings,
     history: SimulationStep[],
-    precalculatedSequence: BetPlacement[]
+    precalculatedSequence: BetPlacement[],
+    laneNames: Record<string, string> = {}
 ): {
     bets: Bet[];
     wager: number;
     activeTriggers: string[];
     updatedLaneState: RuntimeLane;
+    resetReason?: string;
+    scriptError?: string;
+    laneSwitches?: { laneId: string; enabled: boolean }[]; // ENABLE_LANE / DISABLE_LANE rules aimed at other lanes
+    virtual?: boolean; // Shadow spin: the bets only drive the progression, no money is staked
 } {
-    const nextLane = { ...lane };
+    let nextLane = { ...lane };
     const laneSpinBets: Bet[] = [];
     const activeTriggers: string[] = [];
+    const lastStep = history[history.length - 1];
+    const laneBalance = lastStep?.laneBankrolls[nextLane.id] ?? settings.startingBankroll;
+
+    // 0. Lane Rules. Checked before the stopped check so a rule can switch its own lane back on.
+    const laneSwitches: { laneId: string; enabled: boolean }[] = [];
+    if ((nextLane.rules || []).length > 0) {
+        const ruleStates = { ...nextLane.ruleStates };
+        nextLane.rules!.forEach(rule => {
+            const met = isLaneRuleMet(rule, nextLane, laneBalance, settings, history);
+            const wasMet = !!ruleStates[rule.id];
+            ruleStates[rule.id] = met;
+            if (!met || wasMet) return;
+
+            activeTriggers.push(`Rule (${nextLane.name}): ${describeLaneRule(rule, laneNames)}`);
+            switch (rule.action) {
+                case 'GOTO_CHAIN_STEP': {
+                    const steps = nextLane.config.chainSteps || [];
+                    if (steps.length === 0) break;
+                    nextLane.chainIndex = Math.min(steps.length - 1, Math.max(0, Math.round(rule.actionValue ?? 1) - 1));
+                    nextLane.chainStepSpins = 0;
+                    break;
+                }
+                case 'SCALE_BASE':
+                    if ((rule.actionValue ?? 0) > 0) nextLane.baseScale *= rule.actionValue!;
+                    break;
+                case 'RESET_PROGRESSION':
+                    nextLane = resetProgression(nextLane);
+                    break;
+                case 'DISABLE_LANE':
+                case 'ENABLE_LANE': {
+                    const enabled = rule.action === 'ENABLE_LANE';
+                    const targetId = rule.targetLaneId || nextLane.id;
+                    if (targetId === nextLane.id) nextLane.laneStopped = !enabled;
+                    else laneSwitches.push({ laneId: targetId, enabled });
+                    break;
+                }
+            }
+        });
+        nextLane.ruleStates = ruleStates;
+    }
+
+    // A stopped lane sits out the rest of the session (unless a rule switches it back on)
+    if (nextLane.laneStopped) {
+        return { bets: [], wager: 0, activeTriggers, updatedLaneState: nextLane, laneSwitches };
+    }
 
     // 1. Session Profit Reset
     if (nextLane.config.useResetOnSessionProfit && nextLane.config.resetOnSessionProfit > 0) {
         if (nextLane.sessionProfit >= nextLane.config.resetOnSessionProfit) {
-            nextLane.multiplier = 1;
-            nextLane.progressionIndex = 0;
-            nextLane.rotatingIndex = 0;
-            nextLane.rotatingUnits = 1;
-            nextLane.sessionProfit = 0;
-            nextLane.chainIndex = 0;
+            nextLane = resetProgression(nextLane);
+        }
+    }
+
+    // 1b. Reset Conditions
+    const previousPeak = nextLane.lanePeak;
+    nextLane.lanePeak = Math.max(nextLane.lanePeak, laneBalance);
+
+    let resetReason: string | undefined;
+    let scriptError: string | undefined;
+    if (nextLane.cycleSpins > 0) {
+        const firing = (nextLane.config.resetConditions || []).find(c => isResetConditionMet(c, nextLane, laneBalance, previousPeak, settings, history));
+        if (firing) {
+            resetReason = describeResetCondition(firing);
+            nextLane = resetProgression(nextLane);
         }
     }
 
     // 2. Base Bets
+    // Proportional sizing rounds to the table's chip; fixed sizing keeps whole dollars as before
+    const proportional = !!nextLane.config.sizingMode && nextLane.config.sizingMode !== 'FIXED';
+    const chip = proportional ? getChipUnit(settings.tableMin) : 1;
+
     if (nextLane.config.strategyMode === 'STATIC') {
-        let mult = nextLane.multiplier;
-        const baseWager = nextLane.bets.reduce((s, b) => s + b.amount, 0);
+        const rawWager = nextLane.bets.reduce((s, b) => s + b.amount, 0);
+        const scale = getSizingScale(nextLane, settings, history, rawWager) * nextLane.baseScale;
+        const baseBets = scale === 1 ? nextLane.bets : nextLane.bets.map(b => ({ ...b, amount: b.amount * scale }));
+        const baseWager = rawWager * scale;
+
+        if (nextLane.config.progressionSystem === 'RECOVERY' && baseWager > 0) {
+            // Size the bet so that a win clears the cycle's losses plus the target
+            const bankroll = history.length > 0 ? history[history.length - 1].bankroll : settings.startingBankroll;
+            let units = getRecoveryUnits(baseBets, nextLane.cycleProfit, nextLane.config.recoveryTarget);
+            if (units > 1 && baseWager * units > Math.min(settings.tableMax, bankroll)) {
+                // Out of reach (table limit or bankroll): accept the loss and start a new cycle
+                activeTriggers.push(`Recovery gave up: ${nextLane.name} needed $${Math.floor(baseWager * units)}`);
+                nextLane.cycleProfit = 0;
+                nextLane.cycleLosses = 0;
+                units = getRecoveryUnits(baseBets, 0, nextLane.config.recoveryTarget);
+            }
+            nextLane.multiplier = units;
+        } else if (nextLane.config.progressionSystem === 'OSCARS_GRIND' && baseWager > 0) {
+            // Never more than a win needs to finish the cycle, at what one unit of this spin's layout wins
+            const unitWinProfit = getLayoutWinProfit(baseBets) || baseWager;
+            const unitsToFinish = Math.max(1, Math.ceil((baseWager - nextLane.cycleProfit) / unitWinProfit));
+            nextLane.multiplier = Math.min(nextLane.multiplier, unitsToFinish);
+        }
+        nextLane.unitWager = baseWager;
+
+        let mult = getStaticUnits(nextLane);
         
         if (baseWager > 0) {
             if (baseWager * mult > settings.tableMax) mult = settings.tableMax / baseWager;
-            nextLane.bets.forEach(b => {
+
+            // Bets with their own progression ignore the lane multiplier; the layout as a whole still respects tableMax
+            const betMults = baseBets.map(b => b.progression ? (nextLane.betStates[b.id]?.multiplier ?? 1) : mult);
+            let cap = 1;
+            if (baseBets.some(b => b.progression)) {
+                const total = baseBets.reduce((s, b, idx) => s + b.amount * betMults[idx], 0);
+                if (total > settings.tableMax) cap = settings.tableMax / total;
+            }
+
+            baseBets.forEach((b, idx) => {
                 laneSpinBets.push({
                     ...b,
-                    amount: Math.max(1, Math.floor(b.amount * mult))
+                    amount: roundToChip(b.amount * betMults[idx] * cap, chip)
                 });
             });
+            nextLane.stakedUnits = laneSpinBets.reduce((s, b) => s + b.amount, 0) / baseWager;
         }
     } else if (nextLane.config.strategyMode === 'CHAIN') {
         // CHAIN MODE
@@ -139,19 +275,45 @@ export function prepareLaneForSpin(
             if (nextLane.chainIndex >= steps.length) nextLane.chainIndex = 0;
             const step = steps[nextLane.chainIndex];
             if (step && step.bets) {
+                const stepWager = step.bets.reduce((s, b) => s + b.amount, 0);
+                const stepMult = getChainStepMultiplier(step) * nextLane.baseScale;
+                let scale = (proportional ? getSizingScale(nextLane, settings, history, stepWager) : 1) * stepMult;
+                // A step multiplier still respects tableMax for the layout as a whole
+                if (stepMult !== 1 && stepWager * scale > settings.tableMax) scale = settings.tableMax / stepWager;
                 step.bets.forEach(b => {
                     laneSpinBets.push({
                         ...b,
-                        id: `chain-${nextLane.id}-${nextLane.chainIndex}-${b.id}`
+                        id: `chain-${nextLane.id}-${nextLane.chainIndex}-${b.id}`,
+                        amount: scale === 1 ? b.amount : roundToChip(b.amount * scale, chip)
                     });
                 });
             }
         }
+    } else if (nextLane.config.strategyMode === 'SCRIPT') {
+        // SCRIPT: the user's function picks the bets. On any error the lane sits this spin out.
+        try {
+            // A new sandbox needs the whole history, an existing one only the spins it has not seen yet
+            const seen = nextLane.scriptSandbox ? nextLane.scriptHistory.length : 0;
+            const sandbox = nextLane.scriptSandbox || createScriptSandbox(nextLane.config.script || '');
+            nextLane.scriptSandbox = sandbox;
+            syncScriptHistory(nextLane.scriptHistory, history, nextLane.id, settings.startingBankroll);
+            laneSpinBets.push(...runLaneScript(sandbox, {
+                spins: nextLane.scriptHistory.slice(seen),
+                balance: laneBalance,
+                bankroll: lastStep ? lastStep.bankroll : settings.startingBankroll,
+                spin: history.length + 1
+            }, settings, nextLane.config.scriptTimeLimitMs || 50, `script-${nextLane.id}-${history.length}`));
+        } catch (e: any) {
+            if (nextLane.scriptSandbox?.stopped) nextLane.scriptSandbox = undefined;
+            scriptError = e.message;
+            activeTriggers.push(`${nextLane.name}: ${e.message}`);
+        }
     } else {
         // ROTATING
         if (precalculatedSequence.length > 0) {
             const placement = precalculatedSequence[nextLane.rotatingIndex];
-            let amount = Math.floor(nextLane.rotatingUnits * nextLane.config.baseUnit);
+            const unit = nextLane.config.baseUnit * getSizingScale(nextLane, settings, history, nextLane.config.baseUnit) * nextLane.baseScale;
+            let amount = proportional ? roundToChip(nextLane.rotatingUnits * unit, chip) : Math.floor(nextLane.rotatingUnits * unit);
             amount = Math.min(settings.tableMax, Math.max(settings.tableMin, amount));
             laneSpinBets.push({
                 id: `rot-${nextLane.id}-${history.length}`,
@@ -162,36 +324,60 @@ export function prepareLaneForSpin(
     }
 
     // 3. Trigger Bets
+    const triggerStates = { ...nextLane.triggerStates };
     nextLane.triggerBets.forEach(tb => {
         if (!tb.active) return;
-        
-        let met = false;
-        let streak = 0;
-        
-        for (let k = history.length - 1; k >= 0; k--) {
-            const step = history[k];
-            // Use normalized value
-            const stepNum = step.result.value;
-            const matchesTarget = tb.triggerPlacement.numbers.includes(stepNum);
-            
-            if (tb.rule === 'MISS_STREAK') {
-                if (!matchesTarget) streak++; else break;
-            } else if (tb.rule === 'HIT_STREAK') {
-                if (matchesTarget) streak++; else break;
+
+        let state: TriggerState = { ...(triggerStates[tb.id] || createTriggerState()), betIds: undefined };
+        triggerStates[tb.id] = state;
+        let label: string;
+
+        if (state.engaged && tb.persistence === 'UNTIL_HIT') {
+            label = `${getTriggerLayout(tb, state.placement).map(b => b.placement.displayName).join(' + ')} until hit`;
+        } else {
+            const fired = state.engaged || state.cooldown === 0 ? fireTrigger(tb, history, settings) : null;
+            // SPIN persistence: the activation ends with the condition. This spin sits out, the cooldown starts next spin.
+            if (state.engaged && !fired) {
+                triggerStates[tb.id] = endTriggerActivation(state, tb);
+                return;
             }
+            if (!state.engaged) {
+                if (state.cooldown > 0) {
+                    triggerStates[tb.id] = { ...state, cooldown: state.cooldown - 1 };
+                    return;
+                }
+                if (!fired || (tb.maxActivations && state.activations >= tb.maxActivations)) {
+                    triggerStates[tb.id] = state;
+                    return;
+                }
+                state = { ...state, engaged: true, attempts: 0, activations: state.activations + 1 };
+            }
+            state.placement = fired!.placement;
+            label = fired!.label;
         }
-        
-        if (streak >= tb.threshold) met = true;
-        
-        if (met) {
-            activeTriggers.push(`Trigger: ${tb.rule === 'MISS_STREAK' ? 'Miss' : 'Hit'} ${tb.triggerPlacement.displayName} (${streak})`);
-            laneSpinBets.push({ 
-                id: `trig-${nextLane.id}-${tb.id}-${history.length}`, 
-                placement: tb.betPlacement, 
-                amount: tb.betAmount 
-            });
-        }
+
+        // The stake multiplier scales the whole layout, which still respects tableMax
+        const layout = getTriggerLayout(tb, state.placement);
+        const layoutWager = layout.reduce((s, b) => s + b.amount, 0);
+        const cap = layoutWager * state.multiplier > settings.tableMax ? settings.tableMax / (layoutWager * state.multiplier) : 1;
+        const prefix = `trig-${nextLane.id}-${tb.id}-${history.length}`;
+        const triggerSpinBets = layout.map((b, idx) => ({
+            id: layout.length === 1 ? prefix : `${prefix}-${idx}`,
+            placement: b.placement,
+            amount: Math.floor(b.amount * state.multiplier * cap)
+        })).filter(b => b.amount > 0);
+
+        state.attempts++;
+        state.betIds = triggerSpinBets.map(b => b.id);
+        triggerStates[tb.id] = state;
+
+        const details: string[] = [];
+        if (tb.persistence === 'UNTIL_HIT' || tb.maxAttempts) details.push(`attempt ${state.attempts}${tb.maxAttempts ? `/${tb.maxAttempts}` : ''}`);
+        if (state.multiplier !== 1) details.push(`x${state.multiplier}`);
+        activeTriggers.push(`Trigger: ${label}${details.length > 0 ? ` (${details.join(', ')})` : ''}`);
+        laneSpinBets.push(...triggerSpinBets);
     });
+    nextLane.triggerStates = triggerStates;
 
     const wager = laneSpinBets.reduce((s, b) => s + b.amount, 0);
 
@@ -199,7 +385,11 @@ export function prepareLaneForSpin(
         bets: laneSpinBets,
         wager,
         activeTriggers,
-        updatedLaneState: nextLane
+        updatedLaneState: nextLane,
+        resetReason,
+        scriptError,
+        laneSwitches,
+        virtual: isShadowSpin(nextLane)
     };
 }
 
@@ -212,7 +402,8 @@ export function updateLaneAfterSpin(
     result: SpinResult,
     config: ProgressionConfig,
     precalculatedSequence: BetPlacement[],
-    virtualStartBalance: number // Just for calc, not real bankroll check here (already checked globally)
+    virtualStartBalance: number, // Just for calc, not real bankroll check here (already checked globally)
+    zeroRule: ZeroRule = 'STANDARD'
 ): {
     profit: number;
     wager: number;
@@ -221,13 +412,15 @@ export function updateLaneAfterSpin(
     wasReset: boolean;
     evaluatedBets: EvaluatedBet[];
     progressionLabel: string;
+    outcome: SpinOutcome;
 } {
     const nextLane = { ...lane };
     let wasReset = false;
     let progressionLabel = '';
 
     // DELEGATE TO CANONICAL RESOLVER
-    const resolution = resolveSpin(Number.MAX_SAFE_INTEGER, bets, result);
+    const resolution = resolveSpin(Number.MAX_SAFE_INTEGER, bets, result, zeroRule, lane.imprisonedBets || []);
+    nextLane.imprisonedBets = resolution.imprisonedBets;
 
     // Decorate evaluated bets with lane info
     const decoratedBets = resolution.evaluatedBets.map(b => ({
@@ -236,44 +429,81 @@ export function updateLaneAfterSpin(
         laneName: lane.name
     }));
 
-    nextLane.sessionProfit += resolution.netProfit;
+    // Session profit is real money; shadow spins only move the progression
+    const virtual = isShadowSpin(lane);
+    if (!virtual) nextLane.sessionProfit += resolution.netProfit;
 
     // Progression Logic
-    const isWin = resolution.netProfit >= 0;
+    // Results for this spin's own bets follow the released En Prison stakes in evaluatedBets
+    const firstOwnResult = (lane.imprisonedBets || []).length;
+    const ownResults = resolution.evaluatedBets.slice(firstOwnResult);
+    const outcome = getSpinOutcome(resolution.netProfit, bets, ownResults, config);
+    const isWin = outcome === 'WIN';
+    const isPush = outcome === 'PUSH';
+    const holds = isPush || outcome === 'NO_BET';
+
+    if (nextLane.laneStopped) {
+        progressionLabel = 'Stopped';
+
+    } else if (config.strategyMode === 'STATIC' && config.progressionSystem && config.progressionSystem !== 'ACTIONS') {
+        const next = getNextSystemState(nextLane, isWin, resolution.netProfit, config);
+        progressionLabel = next.label;
+
+        // Nothing was staked (e.g. trigger-only spin) or a push: the cycle stays where it is
+        if (!holds) {
+            Object.assign(nextLane, next.state);
+            wasReset = next.wasReset;
+        }
 
-    if (config.strategyMode === 'STATIC') {
+    } else if (config.strategyMode === 'STATIC') {
         // Generate label for the *current* spin state before updating
         // This tells us what state generated this result
-        if (config.onLossAction === 'FIBONACCI' || config.onWinAction === 'FIBONACCI') {
+        if (nextLane.ladderRungs.length > 0) {
+            progressionLabel = `Rung ${nextLane.progressionIndex + 1} x${getStaticUnits(nextLane)}`;
+        } else if (config.onLossAction === 'FIBONACCI' || config.onWinAction === 'FIBONACCI') {
             progressionLabel = `Fib${nextLane.progressionIndex}`;
         } else {
             progressionLabel = `x${nextLane.multiplier}`;
         }
 
-        const next = getNextProgressionState(nextLane.multiplier, nextLane.progressionIndex, isWin, config);
+        const next = getNextProgressionState(nextLane.multiplier, nextLane.progressionIndex, outcome, config, nextLane.ladderRungs);
         nextLane.multiplier = next.m;
         nextLane.progressionIndex = next.i;
         
-        const action = isWin ? config.onWinAction : config.onLossAction;
-        if (action === ProgressionAction.RESET) {
+        const action = isPush ? config.onPushAction : isWin ? config.onWinAction : config.onLossAction;
+        if (action === ProgressionAction.RESET && outcome !== 'NO_BET') {
             wasReset = true;
         }
 
+        // Moved past the top rung of the ladder
+        if (next.pastTop) {
+            if (config.ladderTopAction === 'RESET') wasReset = true;
+            else if (config.ladderTopAction === 'STOP') {
+                nextLane.laneStopped = true;
+                progressionLabel += ' (stop)';
+            }
+        }
+
     } else if (config.strategyMode === 'CHAIN') {
         const steps = config.chainSteps || [];
+        const step = steps[nextLane.chainIndex];
+        const stepMult = step ? getChainStepMultiplier(step) : 1;
         // Shorten label for cleaner logs
-        const currentStepName = steps[nextLane.chainIndex]?.name || 'Unknown';
-        progressionLabel = `Step ${nextLane.chainIndex + 1}`;
+        progressionLabel = stepMult !== 1 ? `Step ${nextLane.chainIndex + 1} x${stepMult}` : `Step ${nextLane.chainIndex + 1}`;
 
-        const action = isWin ? config.chainOnWin : config.chainOnLoss;
+        // A push or a spin without bets holds the current step. Step-specific actions override the lane's chain actions.
+        let action = ProgressionAction.DO_NOTHING;
+        let value = 0;
+        if (isWin) {
+            action = step?.onWinAction || config.chainOnWin;
+            value = step?.onWinAction ? step.onWinValue ?? 0 : 0;
+        } else if (!holds) {
+            action = step?.onLossAction || config.chainOnLoss;
+            value = step?.onLossAction ? step.onLossValue ?? 0 : 0;
+        }
         const maxIndex = steps.length > 0 ? steps.length - 1 : 0;
-        
-        if (action === ProgressionAction.RESTART_CHAIN) {
-            nextLane.chainIndex = 0;
-            wasReset = true;
-        } else if (action === ProgressionAction.PREV_CHAIN_STEP) {
-             nextLane.chainIndex = Math.max(0, nextLane.chainIndex - 1);
-        } else if (action === ProgressionAction.NEXT_CHAIN_STEP) {
+        const previousIndex = nextLane.chainIndex;
+        const nextStep = () => {
             if (nextLane.chainIndex < maxIndex) {
                 nextLane.chainIndex++;
             } else {
@@ -283,14 +513,40 @@ export function updateLaneAfterSpin(
                     nextLane.chainIndex = maxIndex;
                 }
             }
+        };
+        
+        if (action === ProgressionAction.RESTART_CHAIN) {
+            nextLane.chainIndex = 0;
+            wasReset = true;
+        } else if (action === ProgressionAction.PREV_CHAIN_STEP) {
+             nextLane.chainIndex = Math.max(0, nextLane.chainIndex - 1);
+        } else if (action === ProgressionAction.NEXT_CHAIN_STEP) {
+            nextStep();
+        } else if (action === ProgressionAction.JUMP_CHAIN_STEP) {
+            nextLane.chainIndex = Math.min(maxIndex, Math.max(0, Math.round(value) - 1));
+        } else if (action === ProgressionAction.REPEAT_CHAIN_STEP) {
+            const played = nextLane.chainStepSpins + 1;
+            progressionLabel += ` (${played}/${Math.max(1, value)})`;
+            if (played >= value) nextStep();
+        } else if (action === ProgressionAction.STOP_LANE) {
+            nextLane.laneStopped = true;
+            progressionLabel += ' (stop)';
         }
+
+        if (!holds) {
+            nextLane.chainStepSpins = wasReset || nextLane.chainIndex !== previousIndex ? 0 : nextLane.chainStepSpins + 1;
+        }
+    } else if (config.strategyMode === 'SCRIPT') {
+        progressionLabel = bets.length > 0 ? 'Script' : 'Script (no bets)';
     } else {
         // ROTATING
         const unitLabel = nextLane.rotatingUnits > 1 ? `${nextLane.rotatingUnits}u` : '';
         const target = precalculatedSequence[nextLane.rotatingIndex]?.displayName || 'None';
         progressionLabel = `${target} ${unitLabel}`.trim();
 
-        if (isWin) {
+        if (holds) {
+            // Hold units and target
+        } else if (isWin) {
             nextLane.rotatingUnits = Math.max(config.minUnits, nextLane.rotatingUnits + config.onWinUnits);
             if (config.rotateOnWin) nextLane.rotatingIndex = (nextLane.rotatingIndex + 1) % (precalculatedSequence.length || 1);
         } else {
@@ -299,6 +555,68 @@ export function updateLaneAfterSpin(
         }
     }
 
+    if (bets.length > 0) nextLane.cycleSpins = wasReset ? 0 : nextLane.cycleSpins + 1;
+    if (!holds) {
+        nextLane.winStreak = isWin ? nextLane.winStreak + 1 : 0;
+        nextLane.lossStreak = isWin ? 0 : nextLane.lossStreak + 1;
+    }
+
+    // Per-bet progressions (STATIC): each one follows its own bet's result. Base bets keep their layout id.
+    if (config.strategyMode === 'STATIC' && bets.some(b => b.progression)) {
+        const betStates = { ...nextLane.betStates };
+        const ownLabels: string[] = [];
+
+        bets.forEach((bet, idx) => {
+            if (!bet.progression) return;
+            const state = betStates[bet.id] || { multiplier: 1, index: 0 };
+            ownLabels.push(`${bet.placement.displayName} x${state.multiplier}`);
+
+            const next = getNextProgressionState(state.multiplier, state.index, ownResults[idx].netProfit >= 0 ? 'WIN' : 'LOSS', bet.progression);
+            betStates[bet.id] = { multiplier: next.m, index: next.i };
+        });
+
+        nextLane.betStates = betStates;
+        progressionLabel = `${progressionLabel} [${ownLabels.join(', ')}]`;
+    }
+
+    // Trigger bets follow their own bet's result: a win ends the activation, a loss moves the progression on
+    if (bets.some(b => b.id.startsWith('trig-'))) {
+        const triggerStates = { ...nextLane.triggerStates };
+        nextLane.triggerBets.forEach(tb => {
+            const state = triggerStates[tb.id];
+            const indices = (state?.betIds || []).map(id => bets.findIndex(b => b.id === id)).filter(idx => idx !== -1);
+            if (indices.length === 0) return;
+
+            // A layout hits when the trigger's bets net a profit between them
+            const won = indices.reduce((s, idx) => s + ownResults[idx].netProfit, 0) > 0;
+            const ladder = tb.ladderSequence ? parseUnitList(tb.ladderSequence) : [];
+            const next = getNextProgressionState(state.multiplier, state.index, won ? 'WIN' : 'LOSS', tb.progression || FLAT_PROGRESSION, ladder);
+            const updated = { ...state, betIds: undefined, multiplier: next.m, index: next.i };
+            triggerStates[tb.id] = won || (tb.maxAttempts && state.attempts >= tb.maxAttempts) ? endTriggerActivation(updated, tb) : updated;
+        });
+        nextLane.triggerStates = triggerStates;
+    }
+
+    // Shadow betting: go live after enough consecutive virtual losses, back to shadow after enough live wins.
+    // Stakes held in prison settle on the side they were placed, so the switch waits for them.
+    if (config.useShadow && !holds) {
+        if (virtual) {
+            nextLane.shadowCount = isWin ? 0 : nextLane.shadowCount + 1;
+            if (nextLane.shadowCount >= Math.max(1, config.shadowLossesToGoLive) && nextLane.imprisonedBets.length === 0) {
+                nextLane.shadowLive = true;
+                nextLane.shadowCount = 0;
+                progressionLabel += ' (go live)';
+            }
+        } else if (isWin && config.shadowWinsToGoVirtual > 0) {
+            nextLane.shadowCount++;
+            if (nextLane.shadowCount >= config.shadowWinsToGoVirtual && nextLane.imprisonedBets.length === 0) {
+                nextLane.shadowLive = false;
+                nextLane.shadowCount = 0;
+                progressionLabel += ' (back to shadow)';
+            }
+        }
+    }
+
     return {
         profit: resolution.netProfit,
         wager: resolution.totalWager,
@@ -306,19 +624,470 @@ export function updateLaneAfterSpin(
         updatedLaneState: nextLane,
         wasReset,
         evaluatedBets: decoratedBets,
-        progressionLabel
+        progressionLabel,
+        outcome
     };
 }
 
+// Shadow lanes bet virtually until they go live
+function isShadowSpin(lane: RuntimeLane): boolean {
+    return !!lane.config.useShadow && !lane.shadowLive;
+}
+
+// Back to the start of every progression (lane, cycle and per-bet state). A stopped lane stays stopped.
+function resetProgression(lane: RuntimeLane): RuntimeLane {
+    return {
+        ...lane,
+        multiplier: 1,
+        progressionIndex: 0,
+        rotatingIndex: 0,
+        rotatingUnits: 1,
+        sessionProfit: 0,
+        chainIndex: 0,
+        chainStepSpins: 0,
+        cycleProfit: 0,
+        cycleLosses: 0,
+        cycleWins: 0,
+        cycleSpins: 0,
+        betStates: {},
+        labouchereLine: lane.config.progressionSystem === 'LABOUCHERE' ? parseUnitList(lane.config.labouchereLine) : lane.labouchereLine
+    };
+}
+
+const FLAT_PROGRESSION: BetProgression = {
+    onWinAction: ProgressionAction.DO_NOTHING,
+    onWinValue: 0,
+    onLossAction: ProgressionAction.DO_NOTHING,
+    onLossValue: 0
+};
+
+function createTriggerState(): TriggerState {
+    return { engaged: false, attempts: 0, multiplier: 1, index: 0, cooldown: 0, activations: 0 };
+}
+
+// What a trigger bets before staking: the placement a sleeper / repeat rule picked, else its own layout or bet
+function getTriggerLayout(tb: TriggerBet, picked?: BetPlacement): Bet[] {
+    if (picked) return [{ id: tb.id, placement: picked, amount: tb.betAmount }];
+    if (tb.betLayout && tb.betLayout.length > 0) return tb.betLayout;
+    return [{ id: tb.id, placement: tb.betPlacement, amount: tb.betAmount }];
+}
+
+// Back to idle at x1, with the trigger's cooldown ahead
+function endTriggerActivation(state: TriggerState, tb: TriggerBet): TriggerState {
+    return { ...state, engaged: false, attempts: 0, multiplier: 1, index: 0, cooldown: Math.max(0, tb.cooldownSpins || 0) };
+}
+
+function getChainStepMultiplier(step: ChainStep): number {
+    return step.multiplier && step.multiplier > 0 ? step.multiplier : 1;
+}
+
+// How deep the lane is into its progression, for STEP_ABOVE
+function getProgressionStep(lane: RuntimeLane): number {
+    const cfg = lane.config;
+    if (cfg.strategyMode === 'CHAIN') return lane.chainIndex + 1;
+    if (cfg.strategyMode === 'ROTATING') return lane.rotatingUnits;
+    if (cfg.progressionSystem === 'LABOUCHERE') return lane.labouchereLine.length;
+    if (lane.ladderRungs.length > 0 || cfg.onWinAction === ProgressionAction.FIBONACCI || cfg.onLossAction === ProgressionAction.FIBONACCI) {
+        return lane.progressionIndex + 1;
+    }
+    return lane.multiplier;
+}
+
+function isResetConditionMet(
+    condition: ResetCondition,
+    lane: RuntimeLane,
+    laneBalance: number,
+    previousPeak: number,
+    settings: SimulationSettings,
+    history: SimulationStep[]
+): boolean {
+    switch (condition.type) {
+        case 'NEW_PEAK':
+            return laneBalance > previousPeak;
+        case 'CYCLE_SPINS':
+            return condition.value > 0 && lane.cycleSpins >= condition.value;
+        case 'STEP_ABOVE':
+            return getProgressionStep(lane) > condition.value;
+        case 'LANE_DRAWDOWN':
+            return lane.lanePeak - laneBalance > condition.value;
+        case 'BANKROLL_ABOVE':
+        case 'BANKROLL_BELOW': {
+            // Fires on the spin that crosses the level, not on every spin beyond it
+            if (history.length === 0) return false;
+            const now = history[history.length - 1].bankroll;
+            const before = history.length > 1 ? history[history.length - 2].bankroll : settings.startingBankroll;
+            return condition.type === 'BANKROLL_ABOVE'
+                ? before < condition.value && now >= condition.value
+                : before > condition.value && now <= condition.value;
+        }
+        default:
+            return false;
+    }
+}
+
+// A compound condition replaces the single rule; its bets always come from the trigger's own placement or layout
+function fireTrigger(
+    tb: TriggerBet,
+    history: SimulationStep[],
+    settings: SimulationSettings
+): { label: string; placement?: BetPlacement } | null {
+    if (!tb.condition) return evaluateTrigger(tb, history, settings);
+    const label = evaluateTriggerCondition(tb.condition, history, settings);
+    return label === null ? null : { label };
+}
+
+/**
+ * Evaluates a compound condition. Returns the log label of the branches that satisfied it, or null.
+ * OR lists every satisfied branch; an empty AND / OR group never holds.
+ */
+function evaluateTriggerCondition(node: TriggerCondition, history: SimulationStep[], settings: SimulationSettings): string | null {
+    if (node.kind === 'RULE') {
+        const fired = evaluateTrigger({ rule: node.rule, threshold: node.threshold, window: node.window, triggerPlacement: node.target }, history, settings);
+        return fired ? fired.label : null;
+    }
+    if (node.kind === 'NOT') {
+        const child = node.children[0];
+        return child && evaluateTriggerCondition(child, history, settings) === null ? `NOT ${describeTriggerNode(child)}` : null;
+    }
+    const labels = node.children.map(child => {
+        const label = evaluateTriggerCondition(child, history, settings);
+        return label !== null && (child.kind === 'AND' || child.kind === 'OR') ? `(${label})` : label;
+    });
+    if (node.kind === 'AND') return labels.length > 0 && labels.every(l => l !== null) ? labels.join(' AND ') : null;
+    const met = labels.filter(l => l !== null);
+    return met.length > 0 ? met.join(' OR ') : null;
+}
+
+// Condition text for NOT branches, which hold because nothing happened
+function describeTriggerNode(node: TriggerCondition): string {
+    if (node.kind === 'RULE') {
+        return `${TRIGGER_RULE_LABELS[node.rule]} (${node.target.displayName}, ${node.threshold}${node.window ? `/${node.window}` : ''})`;
+    }
+    if (node.kind === 'NOT') return node.children[0] ? `NOT ${describeTriggerNode(node.children[0])}` : 'NOT ()';
+    return `(${node.children.map(describeTriggerNode).join(` ${node.kind} `)})`;
+}
+
+/**
+ * Checks a trigger bet against the spins so far. Returns the log label, plus the placement to bet
+ * for sleeper and repeat rules (they pick it from the history), or null.
+ */
+function evaluateTrigger(
+    tb: Pick<TriggerBet, 'rule' | 'threshold' | 'window' | 'triggerPlacement'>,
+    history: SimulationStep[],
+    settings: SimulationSettings
+): { label: string; placement?: BetPlacement } | null {
+    const target = tb.triggerPlacement;
+    const n = history.length;
+
+    switch (tb.rule) {
+        case 'MISS_STREAK':
+        case 'HIT_STREAK': {
+            let streak = 0;
+            for (let k = n - 1; k >= 0; k--) {
+                const matchesTarget = target.numbers.includes(history[k].result.value);
+                if (matchesTarget === (tb.rule === 'HIT_STREAK')) streak++; else break;
+            }
+            if (streak < tb.threshold) return null;
+            return { label: `${tb.rule === 'MISS_STREAK' ? 'Miss' : 'Hit'} ${target.displayName} (${streak})` };
+        }
+        case 'MISSED_OF_LAST': {
+            const window = Math.max(1, tb.window || 10);
+            if (n < window) return null;
+            const misses = history.slice(-window).filter(step => !target.numbers.includes(step.result.value)).length;
+            if (misses < tb.threshold) return null;
+            return { label: `Missed ${target.displayName} ${misses} of last ${window}` };
+        }
+        case 'SLEEPER': {
+            if (n < tb.threshold) return null;
+            // Spins since each number of the target last hit (n when it never has)
+            const gaps = new Map<number, number>(target.numbers.map(num => [num, n]));
+            let unseen = gaps.size;
+            for (let k = n - 1; k >= 0 && unseen > 0; k--) {
+                const value = history[k].result.value;
+                if (gaps.get(value) === n) {
+                    gaps.set(value, n - 1 - k);
+                    unseen--;
+                }
+            }
+            let sleeper: number | null = null;
+            gaps.forEach((gap, num) => {
+                if (gap >= tb.threshold && (sleeper === null || gap > gaps.get(sleeper)!)) sleeper = num;
+            });
+            if (sleeper === null) return null;
+            const placement = getNamedPlacement(ZERO_DISPLAY[sleeper] ?? sleeper)!;
+            return { label: `Sleeper ${placement.displayName} (${gaps.get(sleeper)} spins)`, placement };
+        }
+        case 'DOZEN_REPEAT':
+        case 'COLUMN_REPEAT': {
+            const isDozen = tb.rule === 'DOZEN_REPEAT';
+            const groupOf = (value: number) => value < 1 ? -1 : isDozen ? Math.floor((value - 1) / 12) : (value - 1) % 3;
+            const group = n > 0 ? groupOf(history[n - 1].result.value) : -1;
+            if (group === -1) return null;
+            let streak = 0;
+            for (let k = n - 1; k >= 0 && groupOf(history[k].result.value) === group; k--) streak++;
+            if (streak < Math.max(1, tb.threshold)) return null;
+            const types = isDozen
+                ? [BetType.DOZEN_1ST, BetType.DOZEN_2ND, BetType.DOZEN_3RD]
+                : [BetType.COLUMN_1ST, BetType.COLUMN_2ND, BetType.COLUMN_3RD];
+            const placement = getOutsidePlacement(types[group]);
+            return { label: `${placement.displayName} ${streak}x in a row`, placement };
+        }
+        case 'COLOR_ALTERNATION': {
+            // A zero ends the alternation
+            let changes = 0;
+            for (let k = n - 1; k > 0; k--) {
+                const color = history[k].result.color;
+                const previous = history[k - 1].result.color;
+                if (color === 'green' || previous === 'green' || color === previous) break;
+                changes++;
+            }
+            if (changes < tb.threshold) return null;
+            return { label: `Colours alternated ${changes}x` };
+        }
+        case 'FREQUENCY_BELOW': {
+            const window = Math.max(1, tb.window || 37);
+            if (n < window) return null;
+            const p = target.numbers.length / WHEEL_ORDERS[settings.wheelType].length;
+            const sd = Math.sqrt(window * p * (1 - p));
+            if (sd === 0) return null;
+            const hits = history.slice(-window).filter(step => target.numbers.includes(step.result.value)).length;
+            const deviation = (window * p - hits) / sd;
+            if (deviation < tb.threshold) return null;
+            return { label: `${target.displayName} cold: ${hits} in ${window} (-${deviation.toFixed(1)} SD)` };
+        }
+        default:
+            return null;
+    }
+}
+
+function isLaneRuleMet(
+    rule: LaneRule,
+    lane: RuntimeLane,
+    laneBalance: number,
+    settings: SimulationSettings,
+    history: SimulationStep[]
+): boolean {
+    const bankroll = history.length > 0 ? history[history.length - 1].bankroll : settings.startingBankroll;
+    switch (rule.condition) {
+        case 'LOSS_STREAK':
+            return rule.value > 0 && lane.lossStreak >= rule.value;
+        case 'WIN_STREAK':
+            return rule.value > 0 && lane.winStreak >= rule.value;
+        case 'LANE_PROFIT_ABOVE':
+            return laneBalance - settings.startingBankroll >= rule.value;
+        case 'LANE_PROFIT_BELOW':
+            return laneBalance - settings.startingBankroll <= rule.value;
+        case 'GLOBAL_PROFIT_ABOVE':
+            return bankroll - settings.startingBankroll >= rule.value;
+        case 'GLOBAL_PROFIT_BELOW':
+            return bankroll - settings.startingBankroll <= rule.value;
+        case 'TARGET_HITS': {
+            const placement = getNamedPlacement(rule.target || '');
+            if (!placement || rule.value <= 0) return false;
+            const recent = history.slice(-Math.max(1, rule.window || 10));
+            return recent.filter(step => step.result.display !== 'X' && placement.numbers.includes(step.result.value)).length >= rule.value;
+        }
+        default:
+            return false;
+    }
+}
+
+function describeLaneRule(rule: LaneRule, laneNames: Record<string, string>): string {
+    let condition: string;
+    switch (rule.condition) {
+        case 'LOSS_STREAK': condition = `${rule.value} losses in a row`; break;
+        case 'WIN_STREAK': condition = `${rule.value} wins in a row`; break;
+        case 'LANE_PROFIT_ABOVE': condition = `lane profit ≥ $${rule.value}`; break;
+        case 'LANE_PROFIT_BELOW': condition = `lane profit ≤ $${rule.value}`; break;
+        case 'GLOBAL_PROFIT_ABOVE': condition = `global profit ≥ $${rule.value}`; break;
+        case 'GLOBAL_PROFIT_BELOW': condition = `global profit ≤ $${rule.value}`; break;
+        case 'TARGET_HITS': condition = `${rule.target} hit ${rule.value}x in last ${rule.window || 10}`; break;
+        default: condition = 'condition met';
+    }
+    let action: string;
+    switch (rule.action) {
+        case 'GOTO_CHAIN_STEP': action = `chain step ${rule.actionValue ?? 1}`; break;
+        case 'SCALE_BASE': action = `base unit x${rule.actionValue}`; break;
+        case 'RESET_PROGRESSION': action = 'reset progression'; break;
+        case 'DISABLE_LANE': action = `disable ${rule.targetLaneId ? laneNames[rule.targetLaneId] || 'lane' : 'lane'}`; break;
+        case 'ENABLE_LANE': action = `enable ${rule.targetLaneId ? laneNames[rule.targetLaneId] || 'lane' : 'lane'}`; break;
+        default: action = 'no action';
+    }
+    return `${condition} → ${action}`;
+}
+
+function describeResetCondition(condition: ResetCondition): string {
+    switch (condition.type) {
+        case 'NEW_PEAK': return 'New lane peak';
+        case 'CYCLE_SPINS': return `${condition.value} spins in cycle`;
+        case 'STEP_ABOVE': return `Step > ${condition.value}`;
+        case 'LANE_DRAWDOWN': return `Drawdown > $${condition.value}`;
+        case 'BANKROLL_ABOVE': return `Bankroll rose to $${condition.value}`;
+        case 'BANKROLL_BELOW': return `Bankroll fell to $${condition.value}`;
+        default: return 'Reset condition';
+    }
+}
+
+// Largest chip that fits in the table minimum; proportional wagers are multiples of it
+function getChipUnit(tableMin: number): number {
+    return CHIP_VALUES.filter(c => c <= tableMin).pop() || CHIP_VALUES[0];
+}
+
+function roundToChip(amount: number, chip: number): number {
+    return Math.max(chip, Math.floor(amount / chip) * chip);
+}
+
+/**
+ * Factor that turns a base wager of `baseWager` into the lane's proportional base wager:
+ * sizingPercent of the lane (or global) running bankroll, clamped to the table limits. 1 for FIXED sizing.
+ */
+function getSizingScale(lane: RuntimeLane, settings: SimulationSettings, history: SimulationStep[], baseWager: number): number {
+    const mode = lane.config.sizingMode;
+    if (!mode || mode === 'FIXED' || baseWager <= 0) return 1;
+
+    const last = history[history.length - 1];
+    const bankroll = mode === 'PERCENT_LANE'
+        ? (last?.laneBankrolls[lane.id] ?? settings.startingBankroll)
+        : (last ? last.bankroll : settings.startingBankroll);
+    const target = Math.min(settings.tableMax, Math.max(settings.tableMin, bankroll * lane.config.sizingPercent / 100));
+    return target / baseWager;
+}
+
+/**
+ * Smallest net profit the layout makes on any number it wins on (stakes as placed, no zero rules).
+ * Returns 0 when no covered number shows a profit, e.g. a layout that covers the whole wheel.
+ */
+export function getLayoutWinProfit(bets: Bet[]): number {
+    const totalWager = bets.reduce((s, b) => s + Math.max(0, b.amount), 0);
+    const covered = new Set<number>();
+    bets.forEach(b => b.placement.numbers.forEach(n => covered.add(n)));
+
+    let minProfit = Infinity;
+    covered.forEach(n => {
+        const payout = bets.reduce((s, b) => b.amount > 0 && b.placement.numbers.includes(n) ? s + b.amount * (PAYOUTS[b.placement.type] + 1) : s, 0);
+        const net = payout - totalWager;
+        if (net > 0) minProfit = Math.min(minProfit, net);
+    });
+    return minProfit === Infinity ? 0 : minProfit;
+}
+
+// Layout multiples needed so that a win brings the cycle to +target
+function getRecoveryUnits(bets: Bet[], cycleProfit: number, target: number): number {
+    const winProfit = getLayoutWinProfit(bets);
+    if (winProfit <= 0) return 1;
+    return Math.max(1, Math.ceil((target - cycleProfit) / winProfit));
+}
+
+// Units bet from a Labouchere line: first + last, or the single number left
+function getLabouchereUnits(line: number[]): number {
+    if (line.length === 0) return 1;
+    return line.length === 1 ? line[0] : line[0] + line[line.length - 1];
+}
+
+/**
+ * Cycle-based STATIC systems (everything except ACTIONS). Returns the lane fields to update and a label
+ * describing the state that produced this spin. Apart from Labouchere, the lane multiplier holds the next bet.
+ */
+function getNextSystemState(
+    lane: RuntimeLane,
+    win: boolean,
+    netProfit: number,
+    cfg: ProgressionConfig
+): { state: Partial<RuntimeLane>; label: string; wasReset: boolean } {
+    const restart: Partial<RuntimeLane> = { multiplier: 1, cycleProfit: 0, cycleLosses: 0, cycleWins: 0 };
+
+    switch (cfg.progressionSystem) {
+        case 'LABOUCHERE': {
+            const line = lane.labouchereLine;
+            const label = `Lab [${line.join(' ')}]`;
+            // Win: cross off first and last. Loss: append the units just lost, which the table limit may have cut short.
+            const lost = Math.min(getLabouchereUnits(line), Math.round(lane.stakedUnits * 100) / 100);
+            const nextLine = win ? line.slice(1, -1) : [...line, lost];
+            const overCap = cfg.labouchereMaxLength > 0 && nextLine.length > cfg.labouchereMaxLength;
+            if (nextLine.length === 0 || overCap) {
+                // Cycle complete (or abandoned at the safeguard): start again from the initial line
+                return { state: { labouchereLine: parseUnitList(cfg.labouchereLine) }, label: overCap ? `${label} (cap)` : label, wasReset: true };
+            }
+            return { state: { labouchereLine: nextLine }, label, wasReset: false };
+        }
+        case 'OSCARS_GRIND': {
+            // One unit is the whole board layout as staked this spin; the cycle target is +1 unit.
+            // The next spin caps the press at what finishes the cycle (see prepareLaneForSpin).
+            const unitValue = lane.unitWager || 1;
+            const cycleProfit = lane.cycleProfit + netProfit;
+            const label = `Oscar ${lane.multiplier}u (${lane.cycleProfit >= 0 ? '+' : ''}${lane.cycleProfit})`;
+            if (cycleProfit >= unitValue) return { state: restart, label, wasReset: true };
+            return { state: { multiplier: win ? lane.multiplier + 1 : lane.multiplier, cycleProfit }, label, wasReset: false };
+        }
+        case 'PAROLI': {
+            const target = Math.max(1, cfg.paroliWins);
+            const label = `Paroli ${lane.cycleWins + 1}/${target} x${lane.multiplier}`;
+            if (!win) return { state: restart, label, wasReset: lane.cycleWins > 0 };
+            if (lane.cycleWins + 1 >= target) return { state: restart, label, wasReset: true };
+            return { state: { multiplier: lane.multiplier * 2, cycleWins: lane.cycleWins + 1 }, label, wasReset: false };
+        }
+        case 'ONE_THREE_TWO_SIX': {
+            const label = `1-3-2-6 [${SEQUENCE_1326[lane.cycleWins] ?? 1}]`;
+            if (!win) return { state: restart, label, wasReset: lane.cycleWins > 0 };
+            const wins = lane.cycleWins + 1;
+            if (wins >= SEQUENCE_1326.length) return { state: restart, label, wasReset: true };
+            return { state: { multiplier: SEQUENCE_1326[wins], cycleWins: wins }, label, wasReset: false };
+        }
+        case 'RECOVERY': {
+            const cycleProfit = lane.cycleProfit + netProfit;
+            const label = `Rec x${lane.multiplier} (${lane.cycleProfit >= 0 ? '+' : ''}${lane.cycleProfit})`;
+            if (cycleProfit >= cfg.recoveryTarget) return { state: restart, label, wasReset: true };
+
+            const losses = win ? lane.cycleLosses : lane.cycleLosses + 1;
+            if (cfg.recoveryMaxLosses > 0 && losses >= cfg.recoveryMaxLosses) {
+                return { state: restart, label: `${label} (give up)`, wasReset: true };
+            }
+            return { state: { cycleProfit, cycleLosses: losses }, label, wasReset: false };
+        }
+        default:
+            return { state: {}, label: `x${lane.multiplier}`, wasReset: false };
+    }
+}
+
+// Units of the board layout to bet in STATIC mode
+function getStaticUnits(lane: RuntimeLane): number {
+    if (lane.config.progressionSystem === 'LABOUCHERE') return getLabouchereUnits(lane.labouchereLine);
+    if (lane.ladderRungs.length > 0) return lane.ladderRungs[Math.min(lane.progressionIndex, lane.ladderRungs.length - 1)];
+    return lane.multiplier;
+}
+
+/**
+ * Classifies a resolved spin for the lane's progression according to its win definition.
+ * `ownResults` are the evaluated results of `bets`, in the same order. A spin without bets is NO_BET.
+ */
+function getSpinOutcome(netProfit: number, bets: Bet[], ownResults: EvaluatedBet[], cfg: ProgressionConfig): SpinOutcome {
+    if (bets.length === 0) return 'NO_BET';
+    const definition = cfg.winDefinition || 'NET_NON_NEGATIVE';
+    if (definition === 'NET_NON_NEGATIVE') return netProfit >= 0 ? 'WIN' : 'LOSS';
+    if (netProfit === 0) return 'PUSH';
+    if (definition === 'NET_POSITIVE') return netProfit > 0 ? 'WIN' : 'LOSS';
+
+    const hit = (r: EvaluatedBet) => r.payout > r.amount;
+    if (definition === 'PRIMARY_HIT') {
+        const primaryIdx = bets.findIndex(b => b.id === cfg.primaryBetId);
+        if (primaryIdx !== -1) return hit(ownResults[primaryIdx]) ? 'WIN' : 'LOSS';
+    }
+    return ownResults.some(hit) ? 'WIN' : 'LOSS';
+}
+
 function getNextProgressionState(
     currMult: number, 
     currIdx: number, 
-    win: boolean, 
-    cfg: ProgressionConfig
+    outcome: SpinOutcome, 
+    cfg: BetProgression & { onPushAction?: ProgressionAction; onPushValue?: number; ladderTopAction?: LadderTopAction },
+    ladder: number[] = []
 ) {
-     const act = win ? cfg.onWinAction : cfg.onLossAction;
-     const val = win ? cfg.onWinValue : cfg.onLossValue;
+     if (outcome === 'NO_BET') return { m: currMult, i: currIdx, pastTop: false };
+     const win = outcome !== 'LOSS';
+     const act = outcome === 'PUSH' ? (cfg.onPushAction || ProgressionAction.DO_NOTHING) : win ? cfg.onWinAction : cfg.onLossAction;
+     const val = outcome === 'PUSH' ? (cfg.onPushValue || 0) : win ? cfg.onWinValue : cfg.onLossValue;
      let nm = currMult, ni = currIdx;
+     let pastTop = false;
      
      if (act === 'RESET') { nm = 1; ni = 0; }
      else if (act === 'MULTIPLY') nm *= val;
@@ -329,5 +1098,91 @@ function getNextProgressionState(
          else ni = Math.min(FIB_SEQUENCE.length-1, ni + (val || 1));
          nm = FIB_SEQUENCE[ni];
      }
-     return { m: Math.max(1, Math.floor(nm)), i: ni };
+     else if (act === 'LADDER' && ladder.length > 0) {
+         const top = ladder.length - 1;
+         const target = ni + Math.trunc(val);
+         if (target > top) {
+             pastTop = true;
+             ni = cfg.ladderTopAction === 'RESET' ? 0 : top;
+         } else {
+             ni = Math.max(0, target);
+         }
+         nm = ladder[ni];
+     }
+     return { m: Math.max(1, Math.floor(nm)), i: ni, pastTop };
+}
+
+/**
+ * Max spins for one session: the spin count, further capped by the table-time limit when enabled.
+ */
+export function getSessionSpinLimit(settings: SimulationSettings): number {
+    if (!settings.useTimeLimit) return settings.spinsPerSimulation;
+    const timeSpins = Math.floor((settings.timeLimitMinutes * settings.spinsPerHour) / 60);
+    return Math.max(0, Math.min(settings.spinsPerSimulation, timeSpins));
+}
+
+/**
+ * Bankroll at or below which the stop loss fires, or null when it is disabled.
+ */
+export function getStopLossFloor(settings: SimulationSettings): number | null {
+    if (!settings.useStopLoss || settings.stopLoss <= 0) return null;
+    const maxLoss = settings.stopLossMode === 'PERCENT'
+        ? settings.startingBankroll * (settings.stopLoss / 100)
+        : settings.stopLoss;
+    return settings.startingBankroll - maxLoss;
+}
+
+/**
+ * Session stop checks run before every spin (and once after the last one).
+ * Returns the reason the session must end, or null to keep playing.
+ */
+export function checkStopConditions(bankroll: number, settings: SimulationSettings): TerminationReason | null {
+    if (bankroll <= 0) return 'BUST';
+    if (settings.useTotalProfitGoal && bankroll >= settings.startingBankroll + settings.totalProfitGoal) return 'GOAL_HIT';
+    const floor = getStopLossFloor(settings);
+    if (floor !== null && bankroll <= floor) return 'STOP_LOSS';
+    return null;
+}
+
+export const createTerminationCounts = (): Record<TerminationReason, number> => ({
+    GOAL_HIT: 0,
+    STOP_LOSS: 0,
+    BUST: 0,
+    INSUFFICIENT_FUNDS: 0,
+    SPINS_EXHAUSTED: 0
+});
+
+/**
+ * Aggregates per-run summaries into batch statistics.
+ */
+export function computeBatchStats(summaries: RunSummary[], settings: SimulationSettings): BatchStats {
+    const terminations = createTerminationCounts();
+    let profitableRuns = 0, totalSpins = 0, totalFinal = 0, totalPeak = 0, totalDrawdown = 0;
+    let bestRun = -Infinity, worstRun = Infinity, worstDrawdown = 0;
+
+    summaries.forEach(r => {
+        terminations[r.terminationReason]++;
+        if (r.finalBankroll > settings.startingBankroll) profitableRuns++;
+        totalSpins += r.spins;
+        totalFinal += r.finalBankroll;
+        totalPeak += r.peakBankroll;
+        totalDrawdown += r.maxDrawdown;
+        bestRun = Math.max(bestRun, r.finalBankroll);
+        worstRun = Math.min(worstRun, r.finalBankroll);
+        worstDrawdown = Math.max(worstDrawdown, r.maxDrawdown);
+    });
+
+    const count = summaries.length;
+    return {
+        totalSimulations: count,
+        terminations,
+        profitableRuns,
+        avgFinalBankroll: count > 0 ? totalFinal / count : settings.startingBankroll,
+        bestRun: count > 0 ? bestRun : settings.startingBankroll,
+        worstRun: count > 0 ? worstRun : settings.startingBankroll,
+        avgSpinsToFinish: count > 0 ? totalSpins / count : 0,
+        avgPeakBankroll: count > 0 ? totalPeak / count : settings.startingBankroll,
+        avgMaxDrawdown: count > 0 ? totalDrawdown / count : 0,
+        worstDrawdown
+    };
 }
@@ -7,8 +7,8 @@ export enum BetType {
   STREET = 'STREET',
   CORNER = 'CORNER',
   SIX_LINE = 'SIX_LINE',
-  TOP_LINE = 'TOP_LINE', // 0, 00, 1, 2, 3 (Pays 6:1)
-  BASKET = 'BASKET',     // 0, 1, 2 or 0, 00, 2 (Pays 11:1)
+  TOP_LINE = 'TOP_LINE', // 0, 00, 1, 2, 3 (Pays 6:1) — American wheel only
+  BASKET = 'BASKET',     // 0, 1, 2 / 0, 00, 2 / 0, 00, 000 (Pays 11:1)
   COLUMN_1ST = 'COLUMN_1ST',
   COLUMN_2ND = 'COLUMN_2ND',
   COLUMN_3RD = 'COLUMN_3RD',
@@ -33,18 +33,28 @@ export interface PlacedBet {
   id: string; // unique ID for the bet instance
   placement: BetPlacement;
   amount: number;
+  progression?: BetProgression; // STATIC mode: own progression driven by this bet's result instead of the lane's
 }
 
 // Alias for the component compatibility
 export type Bet = PlacedBet;
 
+// Even-money bets when the ball lands on a zero:
+// STANDARD = lose outright, LA_PARTAGE / SURRENDER (Atlantic City) = half the stake back,
+// EN_PRISON = stake held for one more spin (returned if that spin wins, otherwise lost)
+export type ZeroRule = 'STANDARD' | 'LA_PARTAGE' | 'EN_PRISON' | 'SURRENDER';
+
+export type ZeroRuleOutcome = 'HALF_RETURNED' | 'IMPRISONED' | 'RELEASED' | 'FORFEITED';
+
 export interface EvaluatedBet {
   laneId: string;
   laneName: string; // Snapshot of lane name
   placement: BetPlacement;
   amount: number;
   payout: number; // Total returned (Stake + Profit)
-  netProfit: number; // Payout - Amount
+  netProfit: number; // Payout - Amount (for RELEASED/FORFEITED: Payout, the stake was taken when imprisoned)
+  zeroRuleOutcome?: ZeroRuleOutcome; // Set when a zero rule applied to this bet
+  virtual?: boolean; // Shadow bet: resolved for the progression only, no money moved
 }
 
 export interface SavedLayout {
@@ -53,12 +63,28 @@ export interface SavedLayout {
   bets: Bet[];
 }
 
+// A layout in a chain. Actions left unset fall back to the lane's chainOnWin / chainOnLoss.
+export interface ChainStep extends SavedLayout {
+  onWinAction?: ProgressionAction;
+  onWinValue?: number; // Step number for JUMP_CHAIN_STEP, play count for REPEAT_CHAIN_STEP
+  onLossAction?: ProgressionAction;
+  onLossValue?: number;
+  multiplier?: number; // Stakes of this step are multiplied by this (default 1)
+}
+
+// Single-zero (37 pockets), double-zero (38) or triple-zero (39)
+export type WheelType = 'EUROPEAN' | 'AMERICAN' | 'TRIPLE_ZERO';
+
 export interface SpinResult {
-  value: number;   // Normalized: -1 for 00, 0-36 for others
-  display: string; // "00", "0", "1", etc.
+  value: number;   // Normalized: -1 for 00, -2 for 000, 0-36 for others
+  display: string; // "000", "00", "0", "1", etc.
   color: 'red' | 'black' | 'green';
 }
 
+// How a spin counted for the lane's progression (see WinDefinition). NO_BET: the lane staked nothing
+// (stopped, idle or waiting on a trigger) and its progression holds.
+export type SpinOutcome = 'WIN' | 'PUSH' | 'LOSS' | 'NO_BET';
+
 export interface LaneLogDetail {
   laneId: string; 
   laneName: string;
@@ -68,6 +94,12 @@ export interface LaneLogDetail {
   balanceAfter: number;  // Lane specific balance
   progressionLabel: string; // e.g. "Step 2 (x4)"
   wasReset?: boolean;
+  outcome?: SpinOutcome; // What the progression treated this spin as
+  resetReason?: string; // Reset condition that fired before this spin, e.g. "Drawdown > $200"
+  scriptError?: string; // SCRIPT lanes: why the script placed no bets this spin
+  imprisonedAmount?: number; // En Prison stakes still held after this spin
+  virtualWager?: number; // Shadow spins: the stake the lane would have placed (wager and profit stay 0)
+  virtualProfit?: number;
 }
 
 export interface SimulationStep {
@@ -91,26 +123,113 @@ export enum ProgressionAction {
   SUBTRACT_UNITS = 'SUBTRACT_UNITS',
   DO_NOTHING = 'DO_NOTHING',
   FIBONACCI = 'FIBONACCI',
+  LADDER = 'LADDER', // Move along the custom ladder by the value in rungs (+ up, - down)
   // Chain Actions
   NEXT_CHAIN_STEP = 'NEXT_CHAIN_STEP',
   PREV_CHAIN_STEP = 'PREV_CHAIN_STEP',
-  RESTART_CHAIN = 'RESTART_CHAIN'
+  RESTART_CHAIN = 'RESTART_CHAIN',
+  JUMP_CHAIN_STEP = 'JUMP_CHAIN_STEP', // Go to the step number in value (1-based)
+  REPEAT_CHAIN_STEP = 'REPEAT_CHAIN_STEP', // Stay until the step has been played value times, then next step
+  STOP_LANE = 'STOP_LANE' // Lane places no more bets this session
 }
 
-export type StrategyMode = 'STATIC' | 'ROTATING' | 'CHAIN';
+export type StrategyMode = 'STATIC' | 'ROTATING' | 'CHAIN' | 'SCRIPT';
+
+// Win / loss actions for a single bet of a STATIC layout (same meaning as on ProgressionConfig)
+export interface BetProgression {
+  onWinAction: ProgressionAction;
+  onWinValue: number;
+  onLossAction: ProgressionAction;
+  onLossValue: number;
+}
+
+// What a LADDER move past the top rung does: stay on the top rung, go back to the first, or stop the lane betting
+export type LadderTopAction = 'HOLD' | 'RESET' | 'STOP';
+
+// How STATIC mode sizes the board layout (all sizes are in multiples of the layout):
+// ACTIONS uses the on-win / on-loss actions;
+// LABOUCHERE bets first + last of a number line and crosses them off on a win;
+// OSCARS_GRIND aims for +1 unit per cycle, pressing one unit after a win but never past what finishes the cycle;
+// PAROLI doubles after each win and resets after paroliWins wins or any loss;
+// ONE_THREE_TWO_SIX bets 1, 3, 2, 6 on consecutive wins and resets after the fourth win or any loss;
+// RECOVERY sizes each bet so that a win on the layout clears the cycle's losses plus recoveryTarget.
+export type ProgressionSystem = 'ACTIONS' | 'LABOUCHERE' | 'OSCARS_GRIND' | 'PAROLI' | 'ONE_THREE_TWO_SIX' | 'RECOVERY';
+
+// What counts as a win for the lane's progression. A spin that nets exactly $0 is a PUSH,
+// except under NET_NON_NEGATIVE (the original rule) where it counts as a win.
+// PRIMARY_HIT falls back to ANY_HIT when the primary bet is not on the layout that spin.
+export type WinDefinition = 'NET_POSITIVE' | 'NET_NON_NEGATIVE' | 'ANY_HIT' | 'PRIMARY_HIT';
+
+// FIXED bets the chip amounts as placed. The PERCENT modes scale the lane's base wager (the whole layout,
+// a chain step, or the rotating base unit) to sizingPercent of the lane's or the global running bankroll.
+export type BetSizingMode = 'FIXED' | 'PERCENT_LANE' | 'PERCENT_GLOBAL';
+
+// Extra automatic resets, checked before each spin once the current cycle has played at least one spin.
+// Values: CYCLE_SPINS = spins since the last reset, STEP_ABOVE = progression level (multiplier, ladder/Fibonacci
+// rung, chain step or Labouchere line length), LANE_DRAWDOWN = $ below the lane's peak, BANKROLL_* = global $ level.
+export type ResetConditionType = 'NEW_PEAK' | 'CYCLE_SPINS' | 'STEP_ABOVE' | 'LANE_DRAWDOWN' | 'BANKROLL_ABOVE' | 'BANKROLL_BELOW';
+
+export interface ResetCondition {
+  id: string;
+  type: ResetConditionType;
+  value: number; // Unused by NEW_PEAK
+}
+
+// Lane rules: when the condition becomes true (it was false before this spin), the action runs once.
+// Conditions: streaks count the lane's decided spins, *_PROFIT_* compare $ profit since the session start
+// (value may be negative), TARGET_HITS = `target` hit at least value times in the last `window` spins.
+export type LaneRuleCondition = 'LOSS_STREAK' | 'WIN_STREAK' | 'LANE_PROFIT_ABOVE' | 'LANE_PROFIT_BELOW' | 'GLOBAL_PROFIT_ABOVE' | 'GLOBAL_PROFIT_BELOW' | 'TARGET_HITS';
+
+// GOTO_CHAIN_STEP uses actionValue as the step number, SCALE_BASE multiplies the lane's base stakes by actionValue
+// for the rest of the session. ENABLE_LANE / DISABLE_LANE act on targetLaneId (this lane when unset).
+export type LaneRuleAction = 'GOTO_CHAIN_STEP' | 'SCALE_BASE' | 'RESET_PROGRESSION' | 'DISABLE_LANE' | 'ENABLE_LANE';
+
+export interface LaneRule {
+  id: string;
+  condition: LaneRuleCondition;
+  value: number;
+  target?: string; // TARGET_HITS: red, dozen2, 17, ... (see getNamedPlacement)
+  window?: number; // TARGET_HITS: spins to look back
+  action: LaneRuleAction;
+  actionValue?: number;
+  targetLaneId?: string;
+}
 
 export interface ProgressionConfig {
   // Common
   strategyMode: StrategyMode;
   baseUnit: number;
+  sizingMode: BetSizingMode;
+  sizingPercent: number; // % of bankroll used as the base wager in the PERCENT modes, e.g. 2
+  winDefinition: WinDefinition;
+  primaryBetId?: string; // STATIC layout bet that decides PRIMARY_HIT
   
   // Static Mode
   onWinAction: ProgressionAction;
   onWinValue: number; // e.g., multiplier 2, or add 1 unit
   onLossAction: ProgressionAction;
   onLossValue: number;
+  onPushAction: ProgressionAction; // Systems, chains and rotations simply hold on a push
+  onPushValue: number;
   resetOnSessionProfit: number; // Logic: if session profit > 150, reset progression
   useResetOnSessionProfit: boolean; // Checkbox to enable/disable session reset
+  resetConditions: ResetCondition[]; // Any one firing resets the progression
+  progressionSystem: ProgressionSystem;
+
+  // Labouchere (Static Mode)
+  labouchereLine: string; // Initial number line, e.g. "1,2,3,4"
+  labouchereMaxLength: number; // Safeguard: the cycle is abandoned once the line grows past this
+
+  // Custom Ladder (Static Mode, LADDER action)
+  ladderSequence: string; // Multipliers per rung, e.g. "1,1,2,3,5,8,12,18,27"
+  ladderTopAction: LadderTopAction;
+
+  // Paroli (Static Mode)
+  paroliWins: number; // Consecutive wins that complete a cycle, e.g. 3
+
+  // Recovery Target (Static Mode)
+  recoveryTarget: number; // $ profit each cycle aims for on top of recovering its losses
+  recoveryMaxLosses: number; // Give up (accept the loss and restart) after this many losses in a cycle; 0 = never
   
   // Rotating Mode
   sequence: string; // e.g. "red, black, even"
@@ -121,47 +240,132 @@ export interface ProgressionConfig {
   rotateOnLoss: boolean;
   
   // Chain Mode
-  chainSteps: SavedLayout[]; // The sequence of layouts to play
+  chainSteps: ChainStep[]; // The sequence of layouts to play
   chainOnWin: ProgressionAction; // Usually RESTART_CHAIN or NEXT_CHAIN_STEP
   chainOnLoss: ProgressionAction; // Usually NEXT_CHAIN_STEP
   chainLoop: boolean; // If true, goes back to step 0 after last step. If false, stays on last step.
+
+  // Script Mode
+  script: string; // Body of the user function that returns the bets for the next spin (see core/script.ts)
+  scriptTimeLimitMs: number; // Per-spin time budget for the script
+
+  // Shadow Betting (any mode): the progression plays with zero money until enough virtual losses
+  useShadow: boolean;
+  shadowLossesToGoLive: number; // Consecutive virtual losses before real bets are placed
+  shadowWinsToGoVirtual: number; // Live wins before going back to shadow; 0 = stay live
 }
 
+export type StopLossMode = 'ABSOLUTE' | 'PERCENT';
+
+// Why a single session (run) ended. SPINS_EXHAUSTED covers both the spin count and the table-time limit.
+export type TerminationReason = 'GOAL_HIT' | 'STOP_LOSS' | 'BUST' | 'INSUFFICIENT_FUNDS' | 'SPINS_EXHAUSTED';
+
+// FULL keeps every SimulationStep of every run; SUMMARY keeps only RunSummary aggregates.
+export type BatchRetention = 'FULL' | 'SUMMARY';
+
 export interface SimulationSettings {
   startingBankroll: number;
   tableMin: number;
   tableMax: number;
   spinsPerSimulation: number;
   numberOfSimulations: number;
-  stopLoss: number; // Global Stop Loss
+  wheelType: WheelType;
+  zeroRule: ZeroRule; // Table rule for even-money bets on 0/00/000
+  stopLoss: number; // Global Stop Loss: max loss in $ or % of startingBankroll (see stopLossMode)
+  stopLossMode: StopLossMode;
+  useStopLoss: boolean;
+  useTimeLimit: boolean; // Cap the session by table time instead of just spin count
+  timeLimitMinutes: number;
+  spinsPerHour: number; // Table pace used to convert the time limit into spins
   totalProfitGoal: number; // Global Take Profit
   useTotalProfitGoal: boolean;
   fixedOutcomeSequence?: string; // New field for Test Mode
+  seed: number; // PRNG seed used when useFixedSeed is on
+  useFixedSeed: boolean; // If false, every batch draws a fresh seed
+  retentionMode: BatchRetention; // SUMMARY keeps per-run aggregates only (plus a few sample runs)
+  sampleRuns: number; // Runs kept with full detail in SUMMARY mode
+  equityCurvePoints: number; // Max points of the downsampled equity curve per run
+  useEquityCurve: boolean;
+}
+
+export interface RunSummary {
+  finalBankroll: number;
+  spins: number;
+  terminationReason: TerminationReason;
+  peakBankroll: number;
+  maxDrawdown: number; // Largest drop from a running peak, in $
+  equityCurve?: number[]; // Downsampled bankroll path, starting bankroll first
 }
 
 export interface BatchStats {
   totalSimulations: number;
-  wins: number; // Reached take profit or ended positive
-  losses: number; // Busted or hit stop loss
+  terminations: Record<TerminationReason, number>; // How many runs ended for each reason
+  profitableRuns: number; // Runs that finished above startingBankroll
   avgFinalBankroll: number;
   bestRun: number;
   worstRun: number;
   avgSpinsToFinish: number;
+  avgPeakBankroll: number;
+  avgMaxDrawdown: number;
+  worstDrawdown: number;
 }
 
 export interface BatchSession {
   id: string;
   label?: string; // User-defined name for this batch
   timestamp: number;
-  runs: SimulationStep[][];
+  runs: SimulationStep[][]; // Full-detail runs; in SUMMARY mode only the first sampleRuns
+  retention?: BatchRetention;
+  runSummaries?: RunSummary[]; // One per run, same order as runs
   stats: BatchStats;
   settings: SimulationSettings;
+  seed?: number; // Seed the batch was actually run with (run i uses deriveRunSeed(seed, i)). Unset on batches saved before seeds were recorded, which cannot be replayed
+  lanes?: Lane[]; // Snapshot of the lane config so the batch can be replayed
+}
+
+// Batch header kept in memory and listed in the archive. Run details are stored separately and loaded on demand.
+export type BatchMeta = Omit<BatchSession, 'runs' | 'runSummaries'> & {
+  keptRuns: number; // How many full-detail runs are stored for this batch
+};
+
+export interface BatchRunDetails {
+  batchId: string;
+  runs: SimulationStep[][];
+  runSummaries?: RunSummary[];
 }
 
 export type SimulationSpeed = 'FAST' | 'MEDIUM' | 'SLOW';
 export type SimulationStatus = 'IDLE' | 'RUNNING' | 'PAUSED';
 
-export type TriggerRule = 'MISS_STREAK' | 'HIT_STREAK';
+// What `threshold` means per rule:
+// MISS_STREAK / HIT_STREAK = consecutive spins, MISSED_OF_LAST = misses within the last `window` spins,
+// SLEEPER = spins since a number of the target last hit (bets straight up on the longest sleeper),
+// DOZEN_REPEAT / COLUMN_REPEAT = same dozen / column in a row (bets on that dozen / column, target unused),
+// COLOR_ALTERNATION = red/black changes in a row, FREQUENCY_BELOW = standard deviations below the expected
+// hit count over the last `window` spins.
+export type TriggerRule = 'MISS_STREAK' | 'HIT_STREAK' | 'MISSED_OF_LAST' | 'SLEEPER' | 'DOZEN_REPEAT' | 'COLUMN_REPEAT' | 'COLOR_ALTERNATION' | 'FREQUENCY_BELOW';
+
+// Compound trigger conditions: a tree of rule predicates under AND / OR / NOT groups (NOT negates its one child)
+export interface TriggerPredicate {
+  kind: 'RULE';
+  id: string;
+  rule: TriggerRule;
+  target: BetPlacement;
+  threshold: number;
+  window?: number;
+}
+
+export interface TriggerGroup {
+  kind: 'AND' | 'OR' | 'NOT';
+  id: string;
+  children: TriggerCondition[];
+}
+
+export type TriggerCondition = TriggerPredicate | TriggerGroup;
+
+// How long a fired trigger keeps betting:
+// SPIN = only on spins where its condition holds; UNTIL_HIT = until its bet wins or maxAttempts run out, whatever the condition does
+export type TriggerPersistence = 'SPIN' | 'UNTIL_HIT';
 
 export interface TriggerBet {
   id: string;
@@ -171,10 +375,34 @@ export interface TriggerBet {
   triggerPlacement: BetPlacement; 
   rule: TriggerRule;
   threshold: number; // e.g. 5
+  window?: number; // MISSED_OF_LAST / FREQUENCY_BELOW: spins to look back
+  condition?: TriggerCondition; // Compound condition. Replaces the single rule above, and the trigger bets betPlacement / betLayout
   
   // Execution
   betAmount: number;
-  betPlacement: BetPlacement; // Usually same as triggerPlacement, but kept distinct if we expand later
+  betPlacement: BetPlacement; // Usually same as triggerPlacement
+  betLayout?: Bet[]; // Several bets to place instead of betPlacement / betAmount (not for sleeper and repeat rules)
+
+  // Staking. An activation runs from the spin the trigger fires until its bet wins, the attempts run out
+  // or (SPIN persistence) the condition stops holding. All optional: without them every firing spin bets betAmount.
+  persistence?: TriggerPersistence;
+  maxAttempts?: number; // Bets per activation (0 = no limit)
+  progression?: BetProgression; // Stake multiplier from attempt to attempt, back to x1 for each activation
+  ladderSequence?: string; // Multipliers for LADDER actions in `progression`
+  cooldownSpins?: number; // Spins after an activation ends before the trigger can fire again
+  maxActivations?: number; // Per session (0 = no limit)
+}
+
+// Runtime state of one trigger bet
+export interface TriggerState {
+  engaged: boolean; // An activation is under way
+  placement?: BetPlacement; // Placement a sleeper / repeat rule picked for the current activation
+  attempts: number; // Bets placed in the current activation
+  multiplier: number;
+  index: number; // FIBONACCI / LADDER position
+  cooldown: number; // Spins left before it can fire again
+  activations: number; // Activations started this session
+  betIds?: string[]; // Bets placed for the coming spin
 }
 
 export interface Lane {
@@ -185,6 +413,27 @@ export interface Lane {
   triggerBets: TriggerBet[];
   config: ProgressionConfig;
   enabled: boolean;
+  rules?: LaneRule[]; // Checked in order before every spin
+  startsPaused?: boolean; // Sits out until an ENABLE_LANE rule switches it on
+}
+
+// One past spin as a SCRIPT lane sees it (oldest first)
+export interface ScriptSpin {
+  number: number; // 0, -1 for 00, -2 for 000
+  display: string;
+  color: SpinResult['color'];
+  profit: number; // This lane's net result for the spin (0 if it sat out)
+  balance: number; // This lane's balance after the spin
+}
+
+// Isolated realm one SCRIPT lane runs in for a session; it also holds the script's state (see core/script.ts)
+export interface ScriptSandbox {
+  // Sends one request built by runLaneScript and returns the realm's JSON reply
+  run(request: string, timeLimitMs: number): string;
+  // Set once the host had to stop a call: the realm is gone, so the lane needs a new sandbox
+  readonly stopped: boolean;
+  // Releases the realm. Safe to call more than once.
+  dispose(): void;
 }
 
 export interface RuntimeLane extends Lane {
@@ -194,6 +443,28 @@ export interface RuntimeLane extends Lane {
   rotatingUnits: number;
   sessionProfit: number;
   chainIndex: number;
+  chainStepSpins: number; // Decided spins played on the current chain step (for REPEAT_CHAIN_STEP)
+  imprisonedBets: Bet[]; // En Prison stakes awaiting the next spin
+  labouchereLine: number[]; // Remaining Labouchere line for the current cycle
+  stakedUnits: number; // Layout multiples actually staked this spin (after table-limit clamping and chip rounding)
+  unitWager: number; // STATIC: one layout multiple this spin, i.e. the base bets after sizing and baseScale
+  cycleProfit: number; // Oscar's Grind / Recovery: lane profit since the current cycle started
+  cycleLosses: number; // Recovery: losing spins in the current cycle
+  cycleWins: number; // Paroli / 1-3-2-6: wins so far in the current cycle
+  ladderRungs: number[]; // Parsed ladderSequence (parsed once per session)
+  laneStopped: boolean; // Lane no longer places bets for the rest of the session
+  betStates: Record<string, { multiplier: number; index: number }>; // Per-bet progression state, by bet id
+  cycleSpins: number; // Spins played since the last reset
+  lanePeak: number; // Highest lane balance seen this session (0 until the first spin is prepared)
+  scriptSandbox?: ScriptSandbox; // SCRIPT lanes: created on the first spin, kept for the session unless a call has to be stopped
+  scriptHistory: ScriptSpin[]; // SCRIPT lanes: spins as the script sees them (appended in place, like the session history)
+  winStreak: number; // Consecutive winning spins (pushes and idle spins leave streaks as they are)
+  lossStreak: number;
+  baseScale: number; // Base stake multiplier set by SCALE_BASE rules
+  ruleStates: Record<string, boolean>; // Last result of each rule's condition, by rule id
+  triggerStates: Record<string, TriggerState>; // By trigger bet id
+  shadowLive: boolean; // Shadow lanes: betting real money (always true without shadow betting)
+  shadowCount: number; // Consecutive virtual losses while shadowing, wins since going live
 }
 
 export interface SavedStrategy {
@@ -0,0 +1,136 @@
+import { Lane, SimulationSettings, SimulationStep, RunSummary } from '../core/types';
+import { computeBatchStats } from '../core/simulation';
+import { getBatchRunCount, isRunRetained, BatchResult } from '../core/runner';
+import { ScriptWorkerMessage, ScriptWorkerHost, createScriptWorkerHost } from './scriptSandbox';
+
+export interface BatchWorkerRequest {
+  lanes: Lane[];
+  settings: SimulationSettings;
+  seed: number;
+  startIndex: number;
+  count: number;
+}
+
+export type BatchWorkerResponse =
+  | { type: 'RUN_COMPLETE'; runIndex: number; summary: RunSummary; history: SimulationStep[] }
+  | { type: 'CHUNK_DONE'; startIndex: number; count: number }
+  | { type: 'ERROR'; message: string }
+  | ScriptWorkerMessage;
+
+export interface BatchPoolOptions {
+  signal: AbortSignal;
+  /** Awaited before each chunk is handed to a worker. Resolving late is how Pause holds the pool. */
+  waitForTurn?: () => Promise<void>;
+  onRunComplete?: (runIndex: number, summary: RunSummary, history: SimulationStep[], completed: number, total: number) => void;
+  concurrency?: number;
+}
+
+// Small chunks keep Pause responsive; in-flight chunks always finish before the pool holds.
+const MAX_CHUNK_SIZE = 50;
+const CHUNKS_PER_WORKER = 8;
+
+export const canUseWorkers = (): boolean => typeof Worker !== 'undefined';
+
+export const getDefaultConcurrency = (): number => {
+  const cores = typeof navigator !== 'undefined' && navigator.hardwareConcurrency ? navigator.hardwareConcurrency : 4;
+  // Leave one core for the UI thread
+  return Math.max(1, cores - 1);
+};
+
+/**
+ * Splits a batch across a pool of Web Workers. Every run still draws from deriveRunSeed(seed, runIndex),
+ * so the result is identical to running the batch on the main thread.
+ * Rejects with Error('Aborted') when the signal fires; all workers are terminated.
+ * Each worker's script lanes run in script workers the pool starts and stops for it.
+ */
+export const runBatchInWorkers = (
+  lanes: Lane[],
+  settings: SimulationSettings,
+  seed: number,
+  options: BatchPoolOptions
+): Promise<BatchResult> => {
+  const { signal, waitForTurn, onRunComplete } = options;
+  const total = getBatchRunCount(settings);
+  const concurrency = Math.min(options.concurrency || getDefaultConcurrency(), total);
+  const chunkSize = Math.max(1, Math.min(MAX_CHUNK_SIZE, Math.ceil(total / (concurrency * CHUNKS_PER_WORKER))));
+
+  return new Promise<BatchResult>((resolve, reject) => {
+    if (signal.aborted) { reject(new Error('Aborted')); return; }
+    if (total === 0) { resolve({ seed, runs: [], runSummaries: [], stats: computeBatchStats([], settings) }); return; }
+
+    const runs: SimulationStep[][] = new Array(total);
+    const runSummaries: RunSummary[] = new Array(total);
+    const workers: Worker[] = [];
+    let nextIndex = 0;
+    let completed = 0;
+    let settled = false;
+    // Shared so that several idle workers wait on the same pause instead of racing for the resolver
+    let pendingTurn: Promise<void> | null = null;
+    const scriptHosts: ScriptWorkerHost[] = [];
+
+    const finish = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      workers.forEach(w => w.terminate());
+      scriptHosts.forEach(h => h.terminate());
+      signal.removeEventListener('abort', onAbort);
+      if (error) reject(error);
+      // SUMMARY batches leave holes for the runs they don't keep
+      else resolve({ seed, runs: runs.filter(r => r !== undefined), runSummaries, stats: computeBatchStats(runSummaries, settings) });
+    };
+
+    const onAbort = () => finish(new Error('Aborted'));
+    signal.addEventListener('abort', onAbort);
+
+    const dispatch = async (worker: Worker) => {
+      if (nextIndex >= total) return;
+      if (waitForTurn) {
+        if (!pendingTurn) pendingTurn = waitForTurn().finally(() => { pendingTurn = null; });
+        try {
+          await pendingTurn;
+        } catch (err: any) {
+          finish(err instanceof Error ? err : new Error(String(err)));
+          return;
+        }
+      }
+      if (settled || nextIndex >= total) return;
+
+      const startIndex = nextIndex;
+      const count = Math.min(chunkSize, total - startIndex);
+      nextIndex += count;
+      const request: BatchWorkerRequest = { lanes, settings, seed, startIndex, count };
+      worker.postMessage(request);
+    };
+
+    for (let w = 0; w < concurrency; w++) {
+      const worker = new Worker(new URL('./batchWorker.ts', import.meta.url), { type: 'module' });
+      const scriptHost = createScriptWorkerHost();
+      workers.push(worker);
+      scriptHosts.push(scriptHost);
+
+      worker.onmessage = (e: MessageEvent<BatchWorkerResponse>) => {
+        if (settled) return;
+        const message = e.data;
+        if (message.type === 'SCRIPT_WORKER' || message.type === 'SCRIPT_WORKER_STOP') {
+          scriptHost.handle(message);
+        } else if (message.type === 'RUN_COMPLETE') {
+          if (isRunRetained(settings, message.runIndex)) runs[message.runIndex] = message.history;
+          runSummaries[message.runIndex] = message.summary;
+          completed++;
+          if (onRunComplete) onRunComplete(message.runIndex, message.summary, message.history, completed, total);
+          if (completed === total) finish();
+        } else if (message.type === 'CHUNK_DONE') {
+          dispatch(worker);
+        } else {
+          finish(new Error(message.message));
+        }
+      };
+      worker.onerror = (e: ErrorEvent) => {
+        e.preventDefault();
+        finish(new Error(e.message || 'Batch worker failed'));
+      };
+
+      dispatch(worker);
+    }
+  });
+};
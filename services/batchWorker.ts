@@ -0,0 +1,22 @@
+import { playSession } from '../core/runner';
+import { installWorkerScriptSandbox } from './scriptSandbox';
+import type { BatchWorkerRequest, BatchWorkerResponse } from './batchPool';
+
+// Runs a contiguous chunk of sessions off the main thread and posts each finished run back.
+const ctx = self as unknown as Worker;
+
+const post = (message: BatchWorkerResponse) => ctx.postMessage(message);
+installWorkerScriptSandbox(post);
+
+ctx.onmessage = (e: MessageEvent<BatchWorkerRequest>) => {
+  const { lanes, settings, seed, startIndex, count } = e.data;
+  try {
+    for (let runIndex = startIndex; runIndex < startIndex + count; runIndex++) {
+      const { history, summary } = playSession(lanes, settings, runIndex, seed);
+      post({ type: 'RUN_COMPLETE', runIndex, summary, history });
+    }
+    post({ type: 'CHUNK_DONE', startIndex, count });
+  } catch (err: any) {
+    post({ type: 'ERROR', message: err?.message || String(err) });
+  }
+};
@@ -1,4 +1,5 @@
-import { ProgressionConfig, BatchStats } from '../core/types';
+import { ProgressionConfig, BatchStats, TerminationReason } from '../core/types';
+import { TERMINATION_LABELS } from '../core/constants';
 
 // AI Integration removed to avoid costs.
 // These functions now return basic formatted strings or null.
@@ -20,10 +21,16 @@ export const analyzeSimulationResults = async (initialBalance: number, finalBala
 };
 
 export const analyzeBatchResults = async (stats: BatchStats): Promise<string> => {
-  const winRate = stats.totalSimulations > 0 ? (stats.wins / stats.totalSimulations) * 100 : 0;
+  const winRate = stats.totalSimulations > 0 ? (stats.profitableRuns / stats.totalSimulations) * 100 : 0;
+  const endings = (Object.keys(TERMINATION_LABELS) as TerminationReason[])
+    .filter(r => stats.terminations[r] > 0)
+    .map(r => `${TERMINATION_LABELS[r]}: ${stats.terminations[r]}`)
+    .join(' | ');
   return `Batch Analysis:
   Sessions: ${stats.totalSimulations}
-  Win Rate: ${winRate.toFixed(1)}%
+  Profitable: ${winRate.toFixed(1)}%
+  Endings: ${endings || '-'}
   Avg End Balance: $${stats.avgFinalBankroll.toFixed(0)}
-  Best Run: $${stats.bestRun} | Worst Run: $${stats.worstRun}`;
+  Best Run: $${stats.bestRun} | Worst Run: $${stats.worstRun}
+  Avg Max Drawdown: $${stats.avgMaxDrawdown.toFixed(0)} | Worst Drawdown: $${stats.worstDrawdown.toFixed(0)}`;
 };
@@ -0,0 +1,69 @@
+import { Lane, SimulationSettings } from '../core/types';
+import { BatchEvent, BatchResult } from '../core/runner';
+import { ScriptWorkerMessage, createScriptWorkerHost } from './scriptSandbox';
+
+export type StepWorkerRequest =
+  | { type: 'START'; lanes: Lane[]; settings: SimulationSettings; seed: number }
+  | { type: 'NEXT' };
+
+export type StepWorkerResponse =
+  | { type: 'EVENT'; result: IteratorResult<BatchEvent, BatchResult> }
+  | { type: 'ERROR'; message: string }
+  | ScriptWorkerMessage;
+
+export interface RemoteBatch {
+  next(): Promise<IteratorResult<BatchEvent, BatchResult>>;
+  terminate(): void;
+}
+
+/**
+ * simulateBatch played in a Web Worker, one event per next() call, so paced playback of script lanes keeps
+ * scripts off the page. The worker's script lanes run in script workers started and stopped for it here.
+ * terminate() rejects a pending call with Error('Aborted').
+ */
+export const createRemoteBatch = (lanes: Lane[], settings: SimulationSettings, seed: number): RemoteBatch => {
+  const worker = new Worker(new URL('./stepWorker.ts', import.meta.url), { type: 'module' });
+  const scriptHost = createScriptWorkerHost();
+  let pending: { resolve: (result: IteratorResult<BatchEvent, BatchResult>) => void; reject: (error: Error) => void } | null = null;
+  let failure: Error | null = null;
+
+  const fail = (error: Error) => {
+    worker.terminate();
+    scriptHost.terminate();
+    failure = failure || error;
+    if (pending) pending.reject(failure);
+    pending = null;
+  };
+
+  worker.onmessage = (e: MessageEvent<StepWorkerResponse>) => {
+    const message = e.data;
+    if (message.type === 'SCRIPT_WORKER' || message.type === 'SCRIPT_WORKER_STOP') {
+      scriptHost.handle(message);
+    } else if (message.type === 'ERROR') {
+      fail(new Error(message.message));
+    } else if (pending) {
+      pending.resolve(message.result);
+      pending = null;
+    }
+  };
+  worker.onerror = (e: ErrorEvent) => {
+    e.preventDefault();
+    fail(new Error(e.message || 'Simulation worker failed'));
+  };
+
+  const start: StepWorkerRequest = { type: 'START', lanes, settings, seed };
+  worker.postMessage(start);
+
+  return {
+    next: () => new Promise((resolve, reject) => {
+      if (failure) {
+        reject(failure);
+        return;
+      }
+      pending = { resolve, reject };
+      const request: StepWorkerRequest = { type: 'NEXT' };
+      worker.postMessage(request);
+    }),
+    terminate: () => fail(new Error('Aborted'))
+  };
+};
@@ -0,0 +1,86 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Worker } from 'node:worker_threads';
+import { createRequire } from 'node:module';
+import { fileURLToPath } from 'node:url';
+import { BetType, Lane, SimulationSettings } from '../core/types';
+import { DEFAULT_SIMULATION_SETTINGS, createDefaultConfig } from '../core/constants';
+import { getOutsidePlacement } from '../core/game';
+import { playSession } from '../core/runner';
+import { installWorkerScriptSandbox, ScriptWorkerInit } from './scriptSandbox';
+
+// Node threads share memory without cross-origin isolation; a worker thread stands in for each script worker
+(globalThis as { crossOriginIsolated?: boolean }).crossOriginIsolated = true;
+
+// Worker threads do not inherit tsx's loader, so the stand-in loads the sandbox through tsx's require API
+const SCRIPT_WORKER = `
+  const { workerData } = require('node:worker_threads');
+  require(workerData.tsx).require(workerData.module, __filename).serveScript(workerData.init);
+`;
+const tsx = createRequire(import.meta.url).resolve('tsx/cjs/api');
+const sandboxModule = fileURLToPath(new URL('./scriptSandbox.ts', import.meta.url));
+
+const scriptWorkers = new Map<number, Worker>();
+let started = 0;
+installWorkerScriptSandbox(message => {
+  if (message.type === 'SCRIPT_WORKER_STOP') {
+    scriptWorkers.get(message.id)?.terminate();
+    scriptWorkers.delete(message.id);
+    return;
+  }
+  const init: ScriptWorkerInit = { buffer: message.buffer, expression: message.expression };
+  scriptWorkers.set(message.id, new Worker(SCRIPT_WORKER, { eval: true, workerData: { tsx, module: sandboxModule, init } }));
+  started++;
+});
+after(() => scriptWorkers.forEach(w => w.terminate()));
+
+const settings: SimulationSettings = {
+  ...DEFAULT_SIMULATION_SETTINGS, wheelType: 'EUROPEAN', spinsPerSimulation: 30, retentionMode: 'FULL', useStopLoss: false, useTotalProfitGoal: false
+};
+
+const scriptLane = (script: string): Lane => ({
+  id: 'script', name: 'Lane 1', color: '#6366f1', enabled: true, bets: [], triggerBets: [],
+  config: { ...createDefaultConfig(), strategyMode: 'SCRIPT', script }
+});
+
+const redLane: Lane = {
+  id: 'red', name: 'Lane 2', color: '#ef4444', enabled: true, triggerBets: [],
+  bets: [{ id: 'red-bet', amount: 10, placement: getOutsidePlacement(BetType.RED) }],
+  config: createDefaultConfig()
+};
+
+test('a script that rewrites built-ins cannot change another lane', () => {
+  const tampering = scriptLane([
+    "const realm = (() => {}).constructor('return this')();",
+    'realm.Array.prototype.includes = () => true;',
+    'realm.Array.prototype.reduce = () => 0;',
+    'realm.Math.floor = () => 1e6;',
+    "return [bet('black', 5)];"
+  ].join('\n'));
+  const alone = playSession([redLane], settings, 0, 7).history;
+  const together = playSession([redLane, tampering], settings, 0, 7).history;
+  assert.deepEqual(together.map(step => step.laneBankrolls.red), alone.map(step => step.laneBankrolls.red));
+  assert.ok(together.every(step => step.laneDetails[1].wager === 5));
+});
+
+test('a call that cannot be interrupted costs its lane one spin and its worker', () => {
+  const before = started;
+  const lane = scriptLane([
+    'state.calls = (state.calls || 0) + 1;',
+    "if (spin === 3) /(a+)+$/.test('a'.repeat(40) + 'b');",
+    "return [bet('red', 10 * state.calls + history.length)];"
+  ].join('\n'));
+  const short = { ...settings, spinsPerSimulation: 5 };
+  const { history } = playSession([lane, redLane], short, 0, 1);
+  assert.deepEqual(history.map(step => step.laneDetails[0].wager), [10, 21, 0, 13, 24]);
+  assert.equal(history[2].laneDetails[0].scriptError, 'Script ran longer than 50ms');
+  assert.deepEqual(history.map(step => step.laneBankrolls.red), playSession([redLane], short, 0, 1).history.map(step => step.laneBankrolls.red));
+  assert.equal(started - before, 2);
+  assert.equal(scriptWorkers.size, 0);
+});
+
+test('a fresh realm gets a history longer than the channel in parts', () => {
+  const lane = scriptLane("if (spin === 16000) /(a+)+$/.test('a'.repeat(40) + 'b'); return [bet('red', history.length % 7 + 5)];");
+  const { history } = playSession([lane], { ...settings, spinsPerSimulation: 16002, startingBankroll: 1e9 }, 0, 1);
+  assert.deepEqual(history.slice(15998).map(step => step.betAmount), [15998 % 7 + 5, 0, 16000 % 7 + 5, 16001 % 7 + 5]);
+});
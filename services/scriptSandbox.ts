@@ -0,0 +1,229 @@
+import { Lane, ScriptSandbox } from '../core/types';
+import { getScriptRuntimeExpression, setScriptSandboxFactory, SCRIPT_STOP_GRACE_MS } from '../core/script';
+
+// Web Worker sandbox for SCRIPT lanes (see core/script.ts).
+//
+// Every script runs in a dedicated worker of its own (services/scriptWorker.ts), so whatever it does to its realm's
+// built-ins stays in that realm. Simulation workers call it synchronously through shared memory and give up on a
+// call a little past its limit. The page spawns script workers for them and terminates only the one that was given
+// up on, and the lane carries on with a timeout logged for that spin, as in the CLI. Shared memory needs a
+// cross-origin isolated page (see vite.config.ts).
+
+// Sent by a simulation worker to the page
+export type ScriptWorkerMessage =
+  | { type: 'SCRIPT_WORKER'; id: number; buffer: SharedArrayBuffer; expression: string }
+  | { type: 'SCRIPT_WORKER_STOP'; id: number };
+
+// Sent once by the page to the script worker it assigns to a sandbox
+export interface ScriptWorkerInit {
+  buffer: SharedArrayBuffer;
+  expression: string;
+}
+
+// Time a script worker gets to load and set up its realm
+const SCRIPT_WORKER_START_MS = 10000;
+
+// Channel layout: three Int32 slots (state, bytes in this part, whether more parts follow), then the message bytes.
+// A message longer than one part (a long history sent to a fresh realm) goes across in several.
+const HEADER_SLOTS = 3;
+const CHANNEL_BYTES = 1 << 20;
+const READY = 1;
+const REQUEST = 2;
+const REPLY = 3;
+const ACK = 4;
+
+const TIMEOUT_REPLY = JSON.stringify({ timeout: true });
+
+// Network, storage, other contexts and the channel back to the page
+const WORKER_CAPABILITIES = [
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'WebTransport', 'importScripts', 'indexedDB', 'caches',
+  'Worker', 'SharedWorker', 'BroadcastChannel', 'navigator', 'postMessage'
+];
+
+const now = Date.now;
+const encoder = new TextEncoder();
+
+interface Channel {
+  control: Int32Array;
+  data: Uint8Array;
+}
+
+const openChannel = (buffer: SharedArrayBuffer): Channel => ({
+  control: new Int32Array(buffer, 0, HEADER_SLOTS),
+  data: new Uint8Array(buffer, HEADER_SLOTS * Int32Array.BYTES_PER_ELEMENT)
+});
+
+const signal = (channel: Channel, state: number) => {
+  Atomics.store(channel.control, 0, state);
+  Atomics.notify(channel.control, 0);
+};
+
+// Blocks until the channel is in `state`. False when the deadline passes first.
+const waitFor = (channel: Channel, state: number, deadline: number): boolean => {
+  for (;;) {
+    const current = Atomics.load(channel.control, 0);
+    if (current === state) return true;
+    const remaining = deadline - now();
+    if (remaining <= 0) return false;
+    Atomics.wait(channel.control, 0, current, remaining);
+  }
+};
+
+// Writes `text` under `state`, part by part; the other side acknowledges every part but the last
+const send = (channel: Channel, text: string, state: number, deadline: number): boolean => {
+  const bytes = encoder.encode(text);
+  const size = channel.data.length;
+  for (let offset = 0; ; offset += size) {
+    const part = bytes.subarray(offset, offset + size);
+    const more = offset + size < bytes.length;
+    channel.data.set(part);
+    channel.control[1] = part.length;
+    channel.control[2] = more ? 1 : 0;
+    signal(channel, state);
+    if (!more) return true;
+    if (!waitFor(channel, ACK, deadline)) return false;
+  }
+};
+
+// Reads a message written under `state`, or null when the deadline passes first
+const receive = (channel: Channel, state: number, deadline: number): string | null => {
+  const decoder = new TextDecoder();
+  let text = '';
+  for (;;) {
+    if (!waitFor(channel, state, deadline)) return null;
+    const length = Math.min(Math.max(0, channel.control[1]), channel.data.length);
+    const more = channel.control[2] === 1;
+    // slice() copies out of shared memory, which TextDecoder does not read
+    text += decoder.decode(channel.data.slice(0, length), { stream: more });
+    if (!more) return text;
+    signal(channel, ACK);
+  }
+};
+
+export const canShareMemory = (): boolean =>
+  typeof SharedArrayBuffer !== 'undefined' && typeof crossOriginIsolated !== 'undefined' && crossOriginIsolated;
+
+export const usesScripts = (lanes: Lane[]): boolean =>
+  lanes.some(l => l.enabled && l.config.strategyMode === 'SCRIPT');
+
+/**
+ * Lets the simulation worker this runs in play SCRIPT lanes. Each sandbox asks the page, through `post`, for a
+ * script worker of its own and calls it synchronously. Without shared memory, SCRIPT lanes report an error on
+ * every spin.
+ */
+export const installWorkerScriptSandbox = (post: (message: ScriptWorkerMessage) => void) => {
+  if (!canShareMemory()) {
+    setScriptSandboxFactory(null);
+    return;
+  }
+
+  let nextId = 0;
+  setScriptSandboxFactory((source: string): ScriptSandbox => {
+    const id = nextId++;
+    const buffer = new SharedArrayBuffer(HEADER_SLOTS * Int32Array.BYTES_PER_ELEMENT + CHANNEL_BYTES);
+    const channel = openChannel(buffer);
+    let stopped = false;
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      post({ type: 'SCRIPT_WORKER_STOP', id });
+    };
+
+    post({ type: 'SCRIPT_WORKER', id, buffer, expression: getScriptRuntimeExpression(source) });
+    if (!waitFor(channel, READY, now() + SCRIPT_WORKER_START_MS)) {
+      release();
+      throw new Error('The script sandbox did not start');
+    }
+
+    return {
+      get stopped() {
+        return stopped;
+      },
+      run(request, timeLimitMs) {
+        if (stopped) return TIMEOUT_REPLY;
+        const deadline = now() + timeLimitMs + SCRIPT_STOP_GRACE_MS;
+        const reply = send(channel, request, REQUEST, deadline) ? receive(channel, REPLY, deadline) : null;
+        if (reply !== null) return reply;
+        stopped = true;
+        release();
+        return TIMEOUT_REPLY;
+      },
+      dispose: release
+    };
+  });
+};
+
+/**
+ * Removes WORKER_CAPABILITIES from the worker's global scope and the prototypes it inherits them from.
+ * Returns the names that could not be removed.
+ */
+const lockDownWorkerScope = (): string[] => {
+  const scope = globalThis as Record<string, unknown>;
+  return WORKER_CAPABILITIES.filter(name => {
+    for (let target: object | null = scope; target; target = Object.getPrototypeOf(target)) {
+      if (Object.prototype.hasOwnProperty.call(target, name)) Reflect.deleteProperty(target, name);
+    }
+    return name in scope;
+  });
+};
+
+/**
+ * Body of a script worker: locks its scope down, sets up the script's realm and answers calls until the page
+ * terminates it. It never returns to the event loop, so promise jobs a script queues never run. A script that
+ * tampers with this realm can only break its own replies, which the simulation worker validates and times anyway.
+ */
+export const serveScript = ({ buffer, expression }: ScriptWorkerInit) => {
+  const channel = openChannel(buffer);
+  const kept = lockDownWorkerScope();
+  const unavailable = JSON.stringify({ error: `the sandbox could not remove ${kept.join(', ')}` });
+  const call: (request: string) => string = kept.length > 0 ? () => unavailable : new Function(`return ${expression};`)();
+
+  signal(channel, READY);
+  for (;;) {
+    const request = receive(channel, REQUEST, Infinity)!;
+    let reply: string;
+    try {
+      reply = String(call(request));
+    } catch {
+      reply = JSON.stringify({ error: 'the script broke its sandbox' });
+    }
+    send(channel, reply, REPLY, Infinity);
+  }
+};
+
+export interface ScriptWorkerHost {
+  handle(message: ScriptWorkerMessage): void;
+  terminate(): void;
+}
+
+/**
+ * Page side of the script workers one simulation worker asks for: starts them (from a warm spare when there is
+ * one) and terminates them when the simulation worker is done with them or gave up on a call.
+ */
+export const createScriptWorkerHost = (): ScriptWorkerHost => {
+  const workers = new Map<number, Worker>();
+  let spare: Worker | null = null;
+  const spawn = () => new Worker(new URL('./scriptWorker.ts', import.meta.url), { type: 'module' });
+
+  return {
+    handle(message: ScriptWorkerMessage) {
+      if (message.type === 'SCRIPT_WORKER_STOP') {
+        workers.get(message.id)?.terminate();
+        workers.delete(message.id);
+        return;
+      }
+      const worker = spare || spawn();
+      spare = spawn();
+      workers.set(message.id, worker);
+      const init: ScriptWorkerInit = { buffer: message.buffer, expression: message.expression };
+      worker.postMessage(init);
+    },
+    terminate() {
+      workers.forEach(w => w.terminate());
+      workers.clear();
+      spare?.terminate();
+      spare = null;
+    }
+  };
+};
@@ -0,0 +1,9 @@
+import { serveScript, ScriptWorkerInit } from './scriptSandbox';
+
+// The realm of one SCRIPT lane for one session (see services/scriptSandbox.ts). Waits for its script, then serves it.
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<ScriptWorkerInit>) => {
+  ctx.onmessage = null;
+  serveScript(e.data);
+};
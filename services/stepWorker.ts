@@ -0,0 +1,21 @@
+import { simulateBatch, BatchEvent, BatchResult } from '../core/runner';
+import { installWorkerScriptSandbox } from './scriptSandbox';
+import type { StepWorkerRequest, StepWorkerResponse } from './remoteBatch';
+
+// Plays one batch a step at a time for paced playback (see createRemoteBatch).
+const ctx = self as unknown as Worker;
+
+const post = (message: StepWorkerResponse) => ctx.postMessage(message);
+installWorkerScriptSandbox(post);
+
+let batch: Generator<BatchEvent, BatchResult, void> | null = null;
+
+ctx.onmessage = (e: MessageEvent<StepWorkerRequest>) => {
+  const request = e.data;
+  try {
+    if (request.type === 'START') batch = simulateBatch(request.lanes, request.settings, request.seed);
+    else if (batch) post({ type: 'EVENT', result: batch.next() });
+  } catch (err: any) {
+    post({ type: 'ERROR', message: err?.message || String(err) });
+  }
+};
@@ -0,0 +1,18 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BatchSession } from '../core/types';
+import { DEFAULT_SIMULATION_SETTINGS } from '../core/constants';
+import { normalizeLegacyBatch } from './storage';
+
+// As saved to localStorage before seeds and termination reasons were recorded
+const legacyBatch = {
+  id: 'legacy', timestamp: 0, runs: [], settings: DEFAULT_SIMULATION_SETTINGS,
+  stats: { totalRuns: 0, wins: 0, averageEndBankroll: 0, bestRun: 0, worstRun: 0 }
+} as unknown as BatchSession;
+
+test('a legacy batch without a seed stays unseeded', () => {
+  const batch = normalizeLegacyBatch(legacyBatch);
+  assert.equal(batch.seed, undefined);
+  assert.equal(batch.stats.avgMaxDrawdown, 0);
+  assert.equal(normalizeLegacyBatch({ ...legacyBatch, seed: 42 }).seed, 42);
+});
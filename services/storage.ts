@@ -0,0 +1,230 @@
+import { BatchSession, BatchMeta, BatchRunDetails, BatchStats, SavedStrategy, SavedLayout } from '../core/types';
+import { createTerminationCounts } from '../core/simulation';
+
+// IndexedDB-backed persistence. Batches are split into a small header record (listed eagerly)
+// and a run-details record (loaded only when a batch is opened).
+const DB_NAME = 'proroulette';
+const DB_VERSION = 1;
+
+const STORES = {
+  strategies: 'strategies',
+  layouts: 'layouts',
+  batches: 'batches',
+  batchRuns: 'batchRuns'
+} as const;
+
+// Keys used before the move to IndexedDB; migrated once, then removed
+const LEGACY_KEYS = {
+  strategies: 'roulette_strategies',
+  layouts: 'roulette_layouts',
+  batches: 'roulette_batches'
+};
+
+export interface StorageUsage {
+  usage: number; // bytes
+  quota: number; // bytes
+}
+
+export interface StoredData {
+  strategies: SavedStrategy[];
+  layouts: SavedLayout[];
+  batches: BatchMeta[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.strategies)) db.createObjectStore(STORES.strategies, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(STORES.layouts)) db.createObjectStore(STORES.layouts, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(STORES.batches)) db.createObjectStore(STORES.batches, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(STORES.batchRuns)) db.createObjectStore(STORES.batchRuns, { keyPath: 'batchId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error || new Error('Failed to open storage'));
+    });
+    // Allow a retry on the next call if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs `work` in a single transaction and resolves with the result of the request it returns
+ * once the transaction has committed. Rejects with the transaction error (e.g. QuotaExceededError).
+ */
+const withTransaction = <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  return openDb().then(db => new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    const request = work(tx);
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onabort = () => reject(tx.error || new Error('Storage transaction aborted'));
+  }));
+};
+
+const readAll = <T>(store: string): Promise<T[]> => {
+  return withTransaction<T[]>([store], 'readonly', tx => tx.objectStore(store).getAll() as IDBRequest<T[]>)
+    .then(result => result || []);
+};
+
+// Replaces the whole store content in one transaction (strategies and layouts are small lists)
+const replaceAll = <T>(store: string, items: T[]): Promise<void> => {
+  return withTransaction([store], 'readwrite', tx => {
+    const objectStore = tx.objectStore(store);
+    objectStore.clear();
+    items.forEach(item => objectStore.put(item));
+  }).then(() => undefined);
+};
+
+export const isQuotaError = (err: any): boolean => {
+  return !!err && (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+// Batches saved by older versions lack newer stats. Wins/losses predate termination reasons;
+// peak and drawdown can be recovered from the stored runs, which were always kept in full back then.
+// The oldest have no seed either: they stay unseeded rather than pretend to replay under seed 0.
+export const normalizeLegacyBatch = (stored: BatchSession): BatchSession => {
+  const batch = { ...stored, seed: Number.isFinite(stored.seed) ? stored.seed : undefined };
+  if (batch.stats.terminations && batch.stats.avgMaxDrawdown !== undefined) return batch;
+  const legacy = batch.stats as BatchStats & { wins?: number };
+  const start = batch.settings.startingBankroll;
+  const extremes = batch.runs.map(run => {
+    let peak = start, drawdown = 0;
+    run.forEach(step => {
+      peak = Math.max(peak, step.bankroll);
+      drawdown = Math.max(drawdown, peak - step.bankroll);
+    });
+    return { peak, drawdown };
+  });
+  const count = extremes.length;
+  return {
+    ...batch,
+    stats: {
+      ...batch.stats,
+      terminations: batch.stats.terminations || createTerminationCounts(),
+      profitableRuns: batch.stats.terminations ? batch.stats.profitableRuns : (legacy.wins || 0),
+      avgPeakBankroll: count > 0 ? extremes.reduce((sum, e) => sum + e.peak, 0) / count : start,
+      avgMaxDrawdown: count > 0 ? extremes.reduce((sum, e) => sum + e.drawdown, 0) / count : 0,
+      worstDrawdown: extremes.reduce((max, e) => Math.max(max, e.drawdown), 0)
+    }
+  };
+};
+
+export const toBatchMeta = (batch: BatchSession): BatchMeta => {
+  const { runs, runSummaries, ...meta } = batch;
+  return { ...meta, keptRuns: runs.length };
+};
+
+const toRunDetails = (batch: BatchSession): BatchRunDetails => ({
+  batchId: batch.id,
+  runs: batch.runs,
+  runSummaries: batch.runSummaries
+});
+
+const readLegacy = <T>(key: string): T[] => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : [];
+  } catch { return []; }
+};
+
+// One-time move of the old localStorage data. Keys are only removed once the copy has committed.
+const migrateFromLocalStorage = async (): Promise<void> => {
+  if (typeof localStorage === 'undefined') return;
+  const hasLegacy = Object.values(LEGACY_KEYS).some(key => localStorage.getItem(key) !== null);
+  if (!hasLegacy) return;
+
+  const strategies = readLegacy<SavedStrategy>(LEGACY_KEYS.strategies);
+  const layouts = readLegacy<SavedLayout>(LEGACY_KEYS.layouts);
+  const batches = readLegacy<BatchSession>(LEGACY_KEYS.batches).map(normalizeLegacyBatch);
+
+  await withTransaction([STORES.strategies, STORES.layouts, STORES.batches, STORES.batchRuns], 'readwrite', tx => {
+    strategies.forEach(s => tx.objectStore(STORES.strategies).put(s));
+    layouts.forEach(l => tx.objectStore(STORES.layouts).put(l));
+    batches.forEach(b => {
+      tx.objectStore(STORES.batches).put(toBatchMeta(b));
+      tx.objectStore(STORES.batchRuns).put(toRunDetails(b));
+    });
+  });
+
+  Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+};
+
+/**
+ * Opens the database (migrating old localStorage data on first use) and loads everything
+ * except run details. Batches come back oldest first.
+ */
+export const loadStoredData = async (): Promise<StoredData> => {
+  await migrateFromLocalStorage();
+  const [strategies, layouts, batches] = await Promise.all([
+    readAll<SavedStrategy>(STORES.strategies),
+    readAll<SavedLayout>(STORES.layouts),
+    readAll<BatchMeta>(STORES.batches)
+  ]);
+  return { strategies, layouts, batches: batches.sort((a, b) => a.timestamp - b.timestamp) };
+};
+
+export const saveStrategies = (strategies: SavedStrategy[]): Promise<void> => replaceAll(STORES.strategies, strategies);
+
+export const saveLayouts = (layouts: SavedLayout[]): Promise<void> => replaceAll(STORES.layouts, layouts);
+
+// Header and run details are written together so a batch is never half-saved
+export const saveBatch = (batch: BatchSession): Promise<void> => {
+  return withTransaction([STORES.batches, STORES.batchRuns], 'readwrite', tx => {
+    tx.objectStore(STORES.batches).put(toBatchMeta(batch));
+    tx.objectStore(STORES.batchRuns).put(toRunDetails(batch));
+  }).then(() => undefined);
+};
+
+export const updateBatchMeta = (meta: BatchMeta): Promise<void> => {
+  return withTransaction([STORES.batches], 'readwrite', tx => {
+    tx.objectStore(STORES.batches).put(meta);
+  }).then(() => undefined);
+};
+
+// Resolves null when the batch has no stored details (e.g. it never fit in the quota)
+export const loadBatchRuns = (batchId: string): Promise<BatchRunDetails | null> => {
+  return withTransaction<BatchRunDetails>([STORES.batchRuns], 'readonly', tx => tx.objectStore(STORES.batchRuns).get(batchId))
+    .then(result => result || null);
+};
+
+export const deleteBatches = (batchIds: string[]): Promise<void> => {
+  return withTransaction([STORES.batches, STORES.batchRuns], 'readwrite', tx => {
+    batchIds.forEach(id => {
+      tx.objectStore(STORES.batches).delete(id);
+      tx.objectStore(STORES.batchRuns).delete(id);
+    });
+  }).then(() => undefined);
+};
+
+export const clearBatches = (): Promise<void> => {
+  return withTransaction([STORES.batches, STORES.batchRuns], 'readwrite', tx => {
+    tx.objectStore(STORES.batches).clear();
+    tx.objectStore(STORES.batchRuns).clear();
+  }).then(() => undefined);
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage || !navigator.storage.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
@@ -0,0 +1,122 @@
+import { BetPlacement, BetType, TriggerBet, TriggerCondition, TriggerGroup, TriggerPredicate, TriggerRule } from '../core/types';
+import { getNamedPlacement } from '../core/game';
+
+// Rules that pick their own bet from the history, so the trigger has no fixed target
+export const isTargetlessTriggerRule = (rule: TriggerRule): boolean => rule === 'DOZEN_REPEAT' || rule === 'COLUMN_REPEAT';
+
+// Stand-in placement stored on targetless triggers
+export const getTargetlessPlacement = (rule: TriggerRule): BetPlacement => rule === 'COLUMN_REPEAT'
+  ? { type: BetType.COLUMN_1ST, numbers: [], displayName: 'Repeating Column' }
+  : { type: BetType.DOZEN_1ST, numbers: [], displayName: 'Repeating Dozen' };
+
+// Starting threshold (and window) when a rule is picked in the editor
+export const TRIGGER_RULE_DEFAULTS: Record<TriggerRule, { threshold: number; window?: number }> = {
+  MISS_STREAK: { threshold: 3 },
+  HIT_STREAK: { threshold: 3 },
+  MISSED_OF_LAST: { threshold: 7, window: 10 },
+  SLEEPER: { threshold: 50 },
+  DOZEN_REPEAT: { threshold: 2 },
+  COLUMN_REPEAT: { threshold: 2 },
+  COLOR_ALTERNATION: { threshold: 4 },
+  FREQUENCY_BELOW: { threshold: 2, window: 37 }
+};
+
+// Short rule text, e.g. "Miss 7 of 10"
+const describeRule = (rule: TriggerRule, t: number, window?: number): string => {
+  switch (rule) {
+    case 'MISS_STREAK': return `Miss ${t}x`;
+    case 'HIT_STREAK': return `Hit ${t}x`;
+    case 'MISSED_OF_LAST': return `Miss ${t} of ${window || 10}`;
+    case 'SLEEPER': return `Sleeper ${t}+`;
+    case 'DOZEN_REPEAT': return `Dozen ${t}x in a row`;
+    case 'COLUMN_REPEAT': return `Column ${t}x in a row`;
+    case 'COLOR_ALTERNATION': return `Alternate ${t}x`;
+    case 'FREQUENCY_BELOW': return `Cold -${t} SD / ${window || 37}`;
+    default: return `${rule} ${t}`;
+  }
+};
+
+// Compound condition text, e.g. "(1st 12 Miss 6x AND 2nd 12 Miss 4x)"
+export const describeConditionNode = (node: TriggerCondition): string => {
+  if (node.kind === 'RULE') {
+    const rule = describeRule(node.rule, node.threshold, node.window);
+    return isTargetlessTriggerRule(node.rule) || node.rule === 'COLOR_ALTERNATION' ? rule : `${node.target.displayName} ${rule}`;
+  }
+  if (node.kind === 'NOT') return `NOT ${node.children[0] ? describeConditionNode(node.children[0]) : '()'}`;
+  return `(${node.children.map(describeConditionNode).join(` ${node.kind} `)})`;
+};
+
+// Short condition text for trigger lists, e.g. "Miss 7 of 10"
+export const describeTriggerCondition = (trigger: TriggerBet): string => trigger.condition
+  ? describeConditionNode(trigger.condition)
+  : describeRule(trigger.rule, trigger.threshold, trigger.window);
+
+// What a trigger bets on, e.g. "Black + 0/00" for a layout
+export const describeTriggerBets = (trigger: TriggerBet): string => trigger.betLayout && trigger.betLayout.length > 0
+  ? trigger.betLayout.map(b => b.placement.displayName).join(' + ')
+  : trigger.betPlacement.displayName;
+
+// Staking summary for trigger lists, e.g. "Until hit, 5 tries, W RESET / L MULTIPLY"; empty for a plain trigger
+export const describeTriggerStaking = (trigger: TriggerBet): string => {
+  const parts: string[] = [];
+  if (trigger.persistence === 'UNTIL_HIT') parts.push('Until hit');
+  if (trigger.maxAttempts) parts.push(`${trigger.maxAttempts} ${trigger.maxAttempts === 1 ? 'try' : 'tries'}`);
+  if (trigger.progression) parts.push(`W ${trigger.progression.onWinAction} / L ${trigger.progression.onLossAction}`);
+  if (trigger.cooldownSpins) parts.push(`Cooldown ${trigger.cooldownSpins}`);
+  if (trigger.maxActivations) parts.push(`Max ${trigger.maxActivations}/session`);
+  return parts.join(', ');
+};
+
+// Condition tree editing (immutable, by node id)
+
+const createNodeId = () => Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+
+export const createTriggerPredicate = (target: BetPlacement = getNamedPlacement('red')!): TriggerPredicate => ({
+  kind: 'RULE',
+  id: createNodeId(),
+  rule: 'MISS_STREAK',
+  target,
+  threshold: TRIGGER_RULE_DEFAULTS.MISS_STREAK.threshold
+});
+
+export const createTriggerGroup = (kind: TriggerGroup['kind'], children: TriggerCondition[] = []): TriggerGroup => ({
+  kind,
+  id: createNodeId(),
+  children
+});
+
+export const findConditionNode = (node: TriggerCondition, id: string): TriggerCondition | null => {
+  if (node.id === id) return node;
+  if (node.kind === 'RULE') return null;
+  for (const child of node.children) {
+    const found = findConditionNode(child, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+export const updateConditionNode = (node: TriggerCondition, id: string, update: (node: TriggerCondition) => TriggerCondition): TriggerCondition => {
+  if (node.id === id) return update(node);
+  if (node.kind === 'RULE') return node;
+  return { ...node, children: node.children.map(child => updateConditionNode(child, id, update)) };
+};
+
+// The root itself cannot be removed
+export const removeConditionNode = (node: TriggerCondition, id: string): TriggerCondition => {
+  if (node.kind === 'RULE') return node;
+  return { ...node, children: node.children.filter(child => child.id !== id).map(child => removeConditionNode(child, id)) };
+};
+
+export const findFirstPredicate = (node: TriggerCondition): TriggerPredicate | null => {
+  if (node.kind === 'RULE') return node;
+  for (const child of node.children) {
+    const found = findFirstPredicate(child);
+    if (found) return found;
+  }
+  return null;
+};
+
+// True when every predicate has a real target (targetless rules use a stand-in)
+export const conditionHasTargets = (node: TriggerCondition): boolean => node.kind === 'RULE'
+  ? isTargetlessTriggerRule(node.rule) || node.target.numbers.length > 0
+  : node.children.every(conditionHasTargets);
@@ -2,12 +2,23 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Script lanes call their sandbox workers through SharedArrayBuffer, which needs a cross-origin isolated page.
+// `credentialless` still lets the CDN scripts in index.html load. Other hosts need the same two headers.
+const crossOriginIsolation = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'credentialless',
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        headers: crossOriginIsolation,
+      },
+      preview: {
+        headers: crossOriginIsolation,
       },
       plugins: [react()],
       define: {